@@ -0,0 +1,257 @@
+// Reference relay for remote (telehealth) sessions: pairs one clinician with one client per
+// join code and forwards session messages between them. It also answers clock pings so both
+// browsers can put edge times on one clock. No dependencies; run with `npm run relay`.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1024 * 1024; // configs can carry a custom icon data URL
+const CODE_PATTERN = /^[A-Z0-9]{6}$/;
+// Keepalive: the relay pings this often and drops a socket that stays silent for two intervals,
+// so a network that vanishes without closing TCP doesn't hold its room (and join code) forever
+const PING_INTERVAL_MS = 5000;
+// Session messages each side may send to the other
+const FORWARD = {
+  clinician: new Set(['state', 'edge', 'panic']),
+  client: new Set(['panic']),
+};
+
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export function acceptKey(key) {
+  return createHash('sha1').update(key + WS_GUID).digest('base64');
+}
+
+/** Server-to-client frame (never masked) */
+export function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Split complete frames off the front of `buffer`.
+ * Returns the frames (with whether each was masked) and the unconsumed remainder;
+ * throws on frames over MAX_PAYLOAD.
+ */
+export function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let pos = offset + 2;
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      const big = buffer.readBigUInt64BE(pos);
+      if (big > BigInt(MAX_PAYLOAD)) throw new Error('frame too large');
+      length = Number(big);
+      pos += 8;
+    }
+    if (length > MAX_PAYLOAD) throw new Error('frame too large');
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < pos + maskLength + length) break;
+    const payload = Buffer.from(buffer.subarray(pos + maskLength, pos + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(pos, pos + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, masked, payload });
+    offset = pos + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Room bookkeeping, independent of the socket layer. A connection is anything with
+ * send(text) and close(); handle() takes its parsed messages.
+ */
+export function createRooms(now = () => Date.now()) {
+  const rooms = new Map(); // code → { clinician, client }
+  const members = new Map(); // connection → { code, role }
+
+  const send = (conn, message) => conn?.send(JSON.stringify(message));
+  const peerOf = (room, role) => (role === 'clinician' ? room.client : room.clinician);
+
+  function join(conn, { code, role }) {
+    if (members.has(conn)) return send(conn, { type: 'error', message: 'Already joined.' });
+    if (typeof code !== 'string' || !CODE_PATTERN.test(code)) return send(conn, { type: 'error', message: 'Invalid join code.' });
+    let room = rooms.get(code);
+    if (role === 'clinician') {
+      if (room) return send(conn, { type: 'error', message: 'This join code is already in use.' });
+      room = { clinician: conn, client: undefined };
+      rooms.set(code, room);
+    } else if (role === 'client') {
+      if (!room) return send(conn, { type: 'error', message: 'No session with this join code.' });
+      if (room.client) return send(conn, { type: 'error', message: 'Another client has already joined this session.' });
+      room.client = conn;
+    } else {
+      return send(conn, { type: 'error', message: 'Unknown role.' });
+    }
+    members.set(conn, { code, role });
+    const peer = peerOf(room, role);
+    send(conn, { type: 'joined', role, peer: !!peer });
+    send(peer, { type: 'peer', present: true });
+  }
+
+  function handle(conn, message) {
+    if (!message || typeof message !== 'object') return;
+    if (message.type === 'join') return join(conn, message);
+    if (message.type === 'time') return send(conn, { type: 'time', t0: message.t0, serverMs: now() });
+    const member = members.get(conn);
+    if (!member || !FORWARD[member.role].has(message.type)) return;
+    const room = rooms.get(member.code);
+    send(peerOf(room, member.role), message);
+  }
+
+  function leave(conn) {
+    const member = members.get(conn);
+    if (!member) return;
+    members.delete(conn);
+    const room = rooms.get(member.code);
+    if (member.role === 'clinician') {
+      // The session ends with the clinician; the client's browser stops on the close
+      rooms.delete(member.code);
+      if (room.client) {
+        members.delete(room.client);
+        send(room.client, { type: 'peer', present: false });
+        room.client.close();
+      }
+    } else {
+      room.client = undefined;
+      send(room.clinician, { type: 'peer', present: false });
+    }
+  }
+
+  return { handle, leave, size: () => rooms.size };
+}
+
+function attachSocket(socket, rooms, pingMs) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0; // running size of the message being reassembled
+  let closed = false;
+  let lastSeen = Date.now();
+  const conn = {
+    send: (text) => {
+      if (!closed) socket.write(encodeFrame(OP_TEXT, Buffer.from(text)));
+    },
+    close: (code = 1000) => {
+      if (closed) return;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      socket.end(encodeFrame(OP_CLOSE, payload));
+      closed = true;
+      rooms.leave(conn);
+    },
+  };
+
+  const keepalive = setInterval(() => {
+    if (Date.now() - lastSeen > pingMs * 2) {
+      // Nobody is there to read a close frame
+      closed = true;
+      rooms.leave(conn);
+      socket.destroy();
+      return;
+    }
+    socket.write(encodeFrame(OP_PING));
+  }, pingMs);
+
+  socket.on('data', (chunk) => {
+    if (closed) return;
+    lastSeen = Date.now();
+    buffer = Buffer.concat([buffer, chunk]);
+    let decoded;
+    try {
+      decoded = decodeFrames(buffer);
+    } catch {
+      return conn.close(1009);
+    }
+    buffer = decoded.rest;
+    for (const frame of decoded.frames) {
+      // RFC 6455 §5.1: a server must close the connection on an unmasked client frame
+      if (!frame.masked) return conn.close(1002);
+      if (frame.opcode === OP_CLOSE) return conn.close();
+      if (frame.opcode === OP_PING) socket.write(encodeFrame(OP_PONG, frame.payload));
+      if (frame.opcode === OP_PONG) continue;
+      // Text frames, possibly fragmented (opcode 0 continues the previous frame)
+      if (frame.opcode === OP_TEXT || frame.opcode === 0) {
+        // Checked per fragment so a message can't grow without bound before its final frame
+        fragmentBytes += frame.payload.length;
+        if (fragmentBytes > MAX_PAYLOAD) return conn.close(1009);
+        fragments.push(frame.payload);
+        if (!frame.fin) continue;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        fragmentBytes = 0;
+        try {
+          rooms.handle(conn, JSON.parse(text));
+        } catch {
+          // not JSON; ignore
+        }
+      } else if (frame.opcode !== OP_PING) {
+        return conn.close(1003); // binary frames aren't part of the protocol
+      }
+    }
+  });
+  // Upgraded sockets stay half-open after the peer hangs up unless closed here
+  socket.on('end', () => socket.end());
+  socket.on('close', () => {
+    clearInterval(keepalive);
+    closed = true;
+    rooms.leave(conn);
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+export function startRelay({ port = 8787, host = '0.0.0.0', pingMs = PING_INTERVAL_MS } = {}) {
+  const rooms = createRooms();
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('EMDR remote relay: connect with a WebSocket.\n');
+  });
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n'
+      + 'Upgrade: websocket\r\n'
+      + 'Connection: Upgrade\r\n'
+      + `Sec-WebSocket-Accept: ${acceptKey(key)}\r\n\r\n`,
+    );
+    socket.setNoDelay(true);
+    attachSocket(socket, rooms, pingMs);
+  });
+  return new Promise((resolve) => server.listen(port, host, () => resolve(server)));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  startRelay({ port }).then(() => console.log(`EMDR remote relay listening on ws://localhost:${port}`));
+}
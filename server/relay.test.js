@@ -0,0 +1,261 @@
+// @vitest-environment node
+import { request } from 'node:http';
+import { describe, it, expect, afterEach } from 'vitest';
+import { acceptKey, createRooms, decodeFrames, encodeFrame, startRelay } from './relay.js';
+
+function fakeConnection() {
+  const conn = {
+    received: [],
+    closed: false,
+    send: (text) => conn.received.push(JSON.parse(text)),
+    close: () => { conn.closed = true; },
+  };
+  return conn;
+}
+
+// Client-to-server frame: the server encoding with the mask bit set and the payload masked
+function maskedFrame(opcode, payload, fin = true) {
+  const unmasked = encodeFrame(opcode, payload);
+  const header = Buffer.from(unmasked.subarray(0, unmasked.length - payload.length));
+  header[0] = (fin ? 0x80 : 0) | opcode;
+  header[1] |= 0x80;
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  return Buffer.concat([header, mask, masked]);
+}
+
+function maskedTextFrame(text) {
+  return maskedFrame(0x1, Buffer.from(text));
+}
+
+describe('relay rooms', () => {
+  it('pairs a clinician and a client by join code', () => {
+    const rooms = createRooms();
+    const clinician = fakeConnection();
+    const client = fakeConnection();
+
+    rooms.handle(clinician, { type: 'join', code: 'ABC234', role: 'clinician' });
+    rooms.handle(client, { type: 'join', code: 'ABC234', role: 'client' });
+
+    expect(clinician.received).toEqual([
+      { type: 'joined', role: 'clinician', peer: false },
+      { type: 'peer', present: true },
+    ]);
+    expect(client.received).toEqual([{ type: 'joined', role: 'client', peer: true }]);
+  });
+
+  it('forwards only the messages each role may send', () => {
+    const rooms = createRooms();
+    const clinician = fakeConnection();
+    const client = fakeConnection();
+    rooms.handle(clinician, { type: 'join', code: 'ABC234', role: 'clinician' });
+    rooms.handle(client, { type: 'join', code: 'ABC234', role: 'client' });
+    client.received.length = 0;
+    clinician.received.length = 0;
+
+    rooms.handle(clinician, { type: 'edge', side: 'left', atServerMs: 5 });
+    rooms.handle(client, { type: 'state', playing: true });
+    rooms.handle(client, { type: 'panic' });
+
+    expect(client.received).toEqual([{ type: 'edge', side: 'left', atServerMs: 5 }]);
+    expect(clinician.received).toEqual([{ type: 'panic' }]);
+  });
+
+  it('refuses unknown codes, taken codes and a second client', () => {
+    const rooms = createRooms();
+    const stranger = fakeConnection();
+    rooms.handle(stranger, { type: 'join', code: 'ZZZ999', role: 'client' });
+    expect(stranger.received[0]).toEqual({ type: 'error', message: 'No session with this join code.' });
+
+    rooms.handle(fakeConnection(), { type: 'join', code: 'ABC234', role: 'clinician' });
+    const impostor = fakeConnection();
+    rooms.handle(impostor, { type: 'join', code: 'ABC234', role: 'clinician' });
+    expect(impostor.received[0].type).toBe('error');
+
+    rooms.handle(fakeConnection(), { type: 'join', code: 'ABC234', role: 'client' });
+    const second = fakeConnection();
+    rooms.handle(second, { type: 'join', code: 'ABC234', role: 'client' });
+    expect(second.received[0].type).toBe('error');
+
+    const bad = fakeConnection();
+    rooms.handle(bad, { type: 'join', code: 'abc', role: 'client' });
+    expect(bad.received[0]).toEqual({ type: 'error', message: 'Invalid join code.' });
+  });
+
+  it('answers clock pings with its own time', () => {
+    const rooms = createRooms(() => 42_000);
+    const conn = fakeConnection();
+
+    rooms.handle(conn, { type: 'time', t0: 7 });
+
+    expect(conn.received).toEqual([{ type: 'time', t0: 7, serverMs: 42_000 }]);
+  });
+
+  it('closes the client when the clinician leaves and frees the code', () => {
+    const rooms = createRooms();
+    const clinician = fakeConnection();
+    const client = fakeConnection();
+    rooms.handle(clinician, { type: 'join', code: 'ABC234', role: 'clinician' });
+    rooms.handle(client, { type: 'join', code: 'ABC234', role: 'client' });
+
+    rooms.leave(clinician);
+
+    expect(client.received.at(-1)).toEqual({ type: 'peer', present: false });
+    expect(client.closed).toBe(true);
+    expect(rooms.size()).toBe(0);
+  });
+
+  it('tells the clinician when the client leaves', () => {
+    const rooms = createRooms();
+    const clinician = fakeConnection();
+    const client = fakeConnection();
+    rooms.handle(clinician, { type: 'join', code: 'ABC234', role: 'clinician' });
+    rooms.handle(client, { type: 'join', code: 'ABC234', role: 'client' });
+
+    rooms.leave(client);
+
+    expect(clinician.received.at(-1)).toEqual({ type: 'peer', present: false });
+    expect(rooms.size()).toBe(1);
+  });
+});
+
+describe('relay framing', () => {
+  it('computes the handshake accept key from RFC 6455', () => {
+    expect(acceptKey('dGhlIHNhbXBsZSBub25jZQ==')).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+
+  it('unmasks client frames and keeps partial ones for later', () => {
+    const frame = maskedTextFrame('{"type":"panic"}');
+    const { frames, rest } = decodeFrames(Buffer.concat([frame, frame.subarray(0, 3)]));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0].opcode).toBe(1);
+    expect(frames[0].payload.toString()).toBe('{"type":"panic"}');
+    expect(rest).toHaveLength(3);
+  });
+
+  it('round-trips long payloads through the extended length fields', () => {
+    const text = 'x'.repeat(70_000);
+    const { frames } = decodeFrames(encodeFrame(1, Buffer.from(text)));
+
+    expect(frames[0].payload.toString()).toBe(text);
+  });
+});
+
+describe('relay server', () => {
+  let server;
+
+  afterEach(() => new Promise((resolve) => {
+    server ? server.close(() => resolve()) : resolve();
+    server = undefined;
+  }));
+
+  it('upgrades a WebSocket request and answers over it', async () => {
+    server = await startRelay({ port: 0, host: '127.0.0.1' });
+    const { port } = server.address();
+
+    const reply = await new Promise((resolve, reject) => {
+      const req = request({
+        port,
+        host: '127.0.0.1',
+        headers: {
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+          'Sec-WebSocket-Version': '13',
+        },
+      });
+      req.on('upgrade', (res, socket) => {
+        expect(res.headers['sec-websocket-accept']).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+        socket.once('data', (chunk) => {
+          resolve(JSON.parse(decodeFrames(chunk).frames[0].payload.toString()));
+          socket.destroy();
+        });
+        socket.write(maskedTextFrame('{"type":"time","t0":1}'));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(reply).toMatchObject({ type: 'time', t0: 1 });
+    expect(typeof reply.serverMs).toBe('number');
+  });
+
+  function connect(port) {
+    return new Promise((resolve, reject) => {
+      const req = request({
+        port,
+        host: '127.0.0.1',
+        headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' },
+      });
+      req.on('upgrade', (_res, socket) => resolve(socket));
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  function nextMessage(socket) {
+    return new Promise((resolve) => {
+      socket.on('data', function onData(chunk) {
+        const text = decodeFrames(chunk).frames.find((f) => f.opcode === 0x1);
+        if (!text) return;
+        socket.off('data', onData);
+        resolve(JSON.parse(text.payload.toString()));
+      });
+    });
+  }
+
+  // Resolves with the close code the relay sends
+  function closeCode(socket) {
+    return new Promise((resolve) => {
+      let buffer = Buffer.alloc(0);
+      socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        const close = decodeFrames(buffer).frames.find((f) => f.opcode === 0x8);
+        if (close) resolve(close.payload.readUInt16BE(0));
+      });
+    });
+  }
+
+  it('closes a fragmented message as soon as it outgrows the payload limit', async () => {
+    server = await startRelay({ port: 0, host: '127.0.0.1' });
+    const socket = await connect(server.address().port);
+    const code = closeCode(socket);
+
+    const fragment = Buffer.alloc(600 * 1024, 0x20);
+    socket.write(maskedFrame(0x1, fragment, false));
+    socket.write(maskedFrame(0x0, fragment, false));
+
+    expect(await code).toBe(1009);
+    socket.destroy();
+  });
+
+  it('closes on an unmasked client frame', async () => {
+    server = await startRelay({ port: 0, host: '127.0.0.1' });
+    const socket = await connect(server.address().port);
+    const code = closeCode(socket);
+
+    socket.write(encodeFrame(0x1, Buffer.from('{"type":"time","t0":1}')));
+
+    expect(await code).toBe(1002);
+    socket.destroy();
+  });
+
+  it('drops a connection that stops answering pings and frees its join code', async () => {
+    server = await startRelay({ port: 0, host: '127.0.0.1', pingMs: 30 });
+    const { port } = server.address();
+
+    // Joins, then goes silent like a laptop that lost its network
+    const stale = await connect(port);
+    const joined = nextMessage(stale);
+    stale.write(maskedTextFrame('{"type":"join","code":"ABC234","role":"clinician"}'));
+    expect(await joined).toMatchObject({ type: 'joined' });
+    await new Promise((resolve) => stale.on('close', resolve));
+
+    const fresh = await connect(port);
+    const rejoined = nextMessage(fresh);
+    fresh.write(maskedTextFrame('{"type":"join","code":"ABC234","role":"clinician"}'));
+    expect(await rejoined).toMatchObject({ type: 'joined', role: 'clinician' });
+    fresh.destroy();
+  });
+});
@@ -1,14 +1,27 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import App from './App';
 
-// Mock the storage module
-vi.mock('./lib/storage', () => ({
+// Mock config persistence; presets use the real module over jsdom's localStorage
+vi.mock('./lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./lib/storage')>()),
   loadJSON: vi.fn(),
   saveJSON: vi.fn(),
 }));
 
+// Mock the IndexedDB audio library
+vi.mock('./lib/audioLibrary', () => ({
+  migrateLegacyAudio: vi.fn(() => Promise.resolve(null)),
+  loadSound: vi.fn(() => Promise.resolve(null)),
+}));
+
+// Raster icons need a real canvas to shrink
+vi.mock('./lib/iconProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./lib/iconProcessing')>()),
+  downscaleIconUrl: vi.fn((url: string) => Promise.resolve(url)),
+}));
+
 // Mock useAudioEngine
 vi.mock('./hooks/useAudioEngine', () => ({
   useAudioEngine: vi.fn(() => ({
@@ -17,11 +30,20 @@ vi.mock('./hooks/useAudioEngine', () => ({
     setPan: vi.fn(),
     setVolume: vi.fn(),
     click: vi.fn(),
+    scheduleEdges: vi.fn(),
+    markVisualEdge: vi.fn(),
+    getDrift: vi.fn(() => ({ lastMs: null, meanAbsMs: 0, maxAbsMs: 0, samples: 0 })),
   })),
 }));
 
-import { loadJSON, saveJSON } from './lib/storage';
+import { loadJSON, saveJSON, savePresetAs, setActivePresetId } from './lib/storage';
+import { loadSound, migrateLegacyAudio } from './lib/audioLibrary';
+import { downscaleIconUrl } from './lib/iconProcessing';
 import { useAudioEngine } from './hooks/useAudioEngine';
+import { encodeShareHash } from './lib/shareLink';
+import { DEFAULTS } from './lib/defaults';
+import { loadSessionLog } from './lib/sessionLog';
+import { openPresentChannel, PresentMessage } from './lib/presentChannel';
 
 // Mock ResizeObserver
 const mockRaf = vi.fn();
@@ -32,6 +54,7 @@ beforeEach(() => {
   vi.stubGlobal('cancelAnimationFrame', mockCancelAnimationFrame);
   vi.stubGlobal('performance', { now: vi.fn(() => 1000) });
   vi.clearAllMocks();
+  localStorage.clear();
 });
 
 afterEach(() => {
@@ -47,7 +70,7 @@ describe('App', () => {
     expect(screen.getByText('EMDR Processor · MVP')).toBeDefined();
     expect(screen.getByLabelText(/Play/i)).toBeDefined();
     expect(screen.getByLabelText(/Stop/i)).toBeDefined();
-    expect(screen.getByLabelText(/Reset/i)).toBeDefined();
+    expect(screen.getByLabelText(/Reset session/i)).toBeDefined();
     expect(screen.getByLabelText('Bilateral visual stage')).toBeDefined();
   });
 
@@ -117,6 +140,9 @@ describe('App', () => {
       setPan: vi.fn(),
       setVolume: vi.fn(),
       click: vi.fn(),
+      scheduleEdges: vi.fn(),
+      markVisualEdge: vi.fn(),
+      getDrift: vi.fn(() => ({ lastMs: null, meanAbsMs: 0, maxAbsMs: 0, samples: 0 })),
     };
     
     (useAudioEngine as any).mockReturnValue(mockAudioEngine);
@@ -147,7 +173,7 @@ describe('App', () => {
     fireEvent.click(playButton);
     
     // Reset
-    const resetButton = screen.getByLabelText(/Reset/i);
+    const resetButton = screen.getByLabelText(/Reset session/i);
     fireEvent.click(resetButton);
     
     // Should show full duration again - use specific selector
@@ -163,6 +189,9 @@ describe('App', () => {
       setPan: vi.fn(),
       setVolume: vi.fn(),
       click: vi.fn(),
+      scheduleEdges: vi.fn(),
+      markVisualEdge: vi.fn(),
+      getDrift: vi.fn(() => ({ lastMs: null, meanAbsMs: 0, maxAbsMs: 0, samples: 0 })),
     };
     
     (useAudioEngine as any).mockReturnValue(mockAudioEngine);
@@ -185,7 +214,10 @@ describe('App', () => {
       undefined, // no file URL
       'medium', // default pitch
       1, // default pan depth
-      0 // default fade-in
+      0, // default fade-in
+      0, // default latency offset
+      'tone', // default continuous bed
+      'fit-pass' // default file playback
     );
   });
 
@@ -230,6 +262,24 @@ describe('App', () => {
     expect(screen.getByDisplayValue('Sine (soft)')).toBeDefined(); // default waveform
   });
 
+  it('repairs an invalid saved config and reports what changed', () => {
+    (loadJSON as any).mockReturnValue({
+      durationSec: 60,
+      target: { sizePx: 24, color: '#00ff88', shape: 'blob' },
+      audio: { mode: 'click', volume: NaN, muted: false },
+    });
+
+    render(<App />);
+
+    const notice = screen.getByLabelText('Settings repaired');
+    expect(notice.textContent).toContain('target.shape: "blob" → "circle"');
+    expect(notice.textContent).toContain('audio.volume: NaN → 0.15');
+    expect(screen.getByDisplayValue('Circle')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Dismiss'));
+    expect(screen.queryByLabelText('Settings repaired')).toBeNull();
+  });
+
   it('displays correct time format for different durations', () => {
     (loadJSON as any).mockReturnValue({ durationSec: 75 });
     
@@ -250,4 +300,342 @@ describe('App', () => {
       .querySelector('.time');
     expect(remainingTimeDisplay?.textContent).toBe('0:00');
   });
-});
\ No newline at end of file
+
+  describe('audio library', () => {
+    const fileConfig = (audio: Record<string, unknown>) => ({
+      durationSec: 120,
+      target: { sizePx: 24, color: '#00ff88', shape: 'circle', rotate: false, speedPxPerSec: 400, edgePaddingPx: 16, edgePauseMs: 0, startPosition: 'center' },
+      audio: { mode: 'file', volume: 0.2, muted: false, ...audio },
+    });
+    const fileUrlArg = () => (useAudioEngine as any).mock.calls.at(-1)[4];
+
+    beforeEach(() => {
+      vi.stubGlobal('URL', { createObjectURL: vi.fn(() => 'blob:library-sound'), revokeObjectURL: vi.fn() });
+    });
+
+    it('reloads the selected sound from the library on startup', async () => {
+      (loadJSON as any).mockReturnValue(fileConfig({ fileId: 'rain', fileName: 'rain.mp3', fileUrl: 'blob:stale' }));
+      (loadSound as any).mockResolvedValueOnce({ id: 'rain', name: 'Rain', blob: new Blob(['a']) });
+
+      render(<App />);
+
+      // The stale object URL from the last session is never handed to the engine
+      expect(fileUrlArg()).toBeUndefined();
+      await waitFor(() => expect(fileUrlArg()).toBe('blob:library-sound'));
+      expect(loadSound).toHaveBeenCalledWith('rain');
+    });
+
+    it('selects a sound migrated from the old localStorage slot', async () => {
+      (loadJSON as any).mockReturnValue(fileConfig({ fileName: 'old.mp3', fileUrl: 'data:audio/mpeg;base64,AA==' }));
+      (migrateLegacyAudio as any).mockResolvedValueOnce({ id: 'migrated', name: 'old.mp3' });
+      (loadSound as any).mockResolvedValueOnce({ id: 'migrated', name: 'old.mp3', blob: new Blob(['a']) });
+
+      render(<App />);
+
+      await waitFor(() => expect(fileUrlArg()).toBe('blob:library-sound'));
+      expect(loadSound).toHaveBeenCalledWith('migrated');
+    });
+
+    it('revokes the URL it made for a sound once another sound replaces it', async () => {
+      const waves = savePresetAs('Waves', { ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileId: 'waves', fileName: 'waves.mp3' } });
+      setActivePresetId(undefined);
+      (loadJSON as any).mockReturnValue(fileConfig({ fileId: 'rain', fileName: 'rain.mp3' }));
+      (loadSound as any)
+        .mockResolvedValueOnce({ id: 'rain', name: 'rain.mp3', blob: new Blob(['a']) })
+        .mockResolvedValueOnce({ id: 'waves', name: 'waves.mp3', blob: new Blob(['b']) });
+      (URL.createObjectURL as any).mockReturnValueOnce('blob:rain').mockReturnValueOnce('blob:waves');
+
+      render(<App />);
+      await waitFor(() => expect(fileUrlArg()).toBe('blob:rain'));
+      fireEvent.change(screen.getByDisplayValue('Unsaved settings'), { target: { value: waves.id } });
+
+      await waitFor(() => expect(fileUrlArg()).toBe('blob:waves'));
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:rain');
+      expect(URL.revokeObjectURL).not.toHaveBeenCalledWith('blob:waves');
+    });
+
+    it('falls back to click mode when the sound is gone', async () => {
+      (loadJSON as any).mockReturnValue(fileConfig({ fileId: 'deleted', fileName: 'gone.mp3' }));
+
+      render(<App />);
+
+      await waitFor(() => expect(screen.getByDisplayValue('Click')).toBeDefined());
+    });
+  });
+
+  it('shrinks a full-size stored icon once on load', async () => {
+    (loadJSON as any).mockReturnValue({
+      ...DEFAULTS,
+      target: { ...DEFAULTS.target, shape: 'custom', customIconUrl: 'data:image/jpeg;base64,BIG', customIconName: 'photo.jpg' },
+    });
+    (downscaleIconUrl as any).mockResolvedValueOnce('data:image/png;base64,SMALL');
+
+    render(<App />);
+
+    await waitFor(() => expect((saveJSON as any).mock.calls.at(-1)[0].target.customIconUrl).toBe('data:image/png;base64,SMALL'));
+    expect(downscaleIconUrl).toHaveBeenCalledWith('data:image/jpeg;base64,BIG');
+  });
+
+  describe('presets', () => {
+    it('applies a factory preset and flags later edits', () => {
+      (loadJSON as any).mockReturnValue(null);
+
+      render(<App />);
+      fireEvent.change(screen.getByDisplayValue('Unsaved settings'), { target: { value: 'factory-protocol' } });
+
+      expect(screen.getByDisplayValue('Protocol')).toBeDefined();
+      expect(screen.queryByLabelText('Preset modified')).toBeNull();
+
+      fireEvent.change(screen.getByDisplayValue('Protocol'), { target: { value: 'passes' } });
+
+      expect(screen.getByLabelText('Preset modified')).toBeDefined();
+    });
+
+    it('saves the current settings as a new preset and restores it later', () => {
+      (loadJSON as any).mockReturnValue(null);
+
+      const { unmount } = render(<App />);
+      fireEvent.click(screen.getByText('Save as…'));
+      fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Client A' } });
+      fireEvent.click(screen.getByText('Save preset'));
+      unmount();
+
+      render(<App />);
+      expect(screen.getByDisplayValue('Client A')).toBeDefined();
+    });
+  });
+
+  describe('share links', () => {
+    afterEach(() => {
+      history.replaceState(null, '', '/');
+    });
+
+    it('applies settings from the URL hash and clears it', async () => {
+      (loadJSON as any).mockReturnValue({ ...DEFAULTS, calibration: { pxPerCm: 38, viewingDistanceCm: 57 } });
+      history.replaceState(null, '', '/' + await encodeShareHash({ ...DEFAULTS, durationSec: 300 }));
+
+      render(<App />);
+
+      await waitFor(() => expect(window.location.hash).toBe(''));
+      const saved = (saveJSON as any).mock.calls.at(-1)[0];
+      expect(saved.durationSec).toBe(300);
+      expect(saved.calibration).toEqual({ pxPerCm: 38, viewingDistanceCm: 57 });
+      expect(screen.getByText('EMDR Processor · MVP')).toBeDefined();
+    });
+
+    it('opens the client view with only the stage', async () => {
+      (loadJSON as any).mockReturnValue(null);
+      history.replaceState(null, '', '/' + await encodeShareHash(DEFAULTS, true));
+
+      render(<App />);
+
+      const showControls = await screen.findByText('Show controls');
+      expect(screen.queryByText('EMDR Processor · MVP')).toBeNull();
+      expect(screen.queryByLabelText(/Play/i)).toBeNull();
+
+      fireEvent.click(showControls);
+      expect(screen.getByLabelText(/Play/i)).toBeDefined();
+    });
+  });
+
+  describe('session log', () => {
+    it('records pauses, resumes and the panic stop', () => {
+      (loadJSON as any).mockReturnValue(null);
+      render(<App />);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      fireEvent.click(screen.getByLabelText(/Stop/i));
+      fireEvent.keyDown(window, { code: 'Space' });
+      expect(loadSessionLog()).toEqual([]);
+
+      fireEvent.keyDown(window, { code: 'Escape' });
+
+      const [session] = loadSessionLog();
+      expect(session).toMatchObject({ sessionMode: 'time', plannedSec: 120, pauses: 1, endReason: 'panic' });
+      expect(session.events.map((e) => e.type)).toEqual(['start', 'pause', 'resume', 'panic', 'end']);
+    });
+
+    it('starts a fresh timed session when played after the timer ran out', () => {
+      (loadJSON as any).mockReturnValue({ durationSec: 15 });
+      render(<App />);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      act(() => mockRaf.mock.calls[mockRaf.mock.calls.length - 1][0](1000 + 16_000));
+      expect(loadSessionLog().map((s) => s.endReason)).toEqual(['completed']);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+
+      expect(screen.getByLabelText('Session controls').querySelector('.time')?.textContent).toBe('0:15');
+      expect(loadSessionLog()).toHaveLength(1);
+    });
+
+    it('records a reset as a stopped session', () => {
+      (loadJSON as any).mockReturnValue(null);
+      render(<App />);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      fireEvent.click(screen.getByLabelText(/Reset session/i));
+      fireEvent.click(screen.getByLabelText(/Reset session/i));
+
+      expect(loadSessionLog().map((s) => s.endReason)).toEqual(['stopped']);
+    });
+  });
+
+  describe('set ratings', () => {
+    it('asks for a SUD rating when a protocol set ends and logs it with the set', async () => {
+      (loadJSON as any).mockReturnValue({ ...DEFAULTS, sessionMode: 'protocol', protocol: { sets: 2, setSec: 5, restSec: 20 } });
+      render(<App />);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      // Run the first set out on the animation clock
+      act(() => mockRaf.mock.calls[mockRaf.mock.calls.length - 1][0](1000 + 6000));
+
+      fireEvent.click(within(await screen.findByRole('group', { name: /SUD/ })).getByText('5'));
+      fireEvent.click(screen.getByText('Save rating'));
+      expect(screen.queryByRole('dialog', { name: 'Rate set' })).toBeNull();
+
+      fireEvent.keyDown(window, { code: 'Escape' });
+      expect(loadSessionLog()[0].sets).toMatchObject([{ set: 1, sud: 5 }]);
+    });
+
+    it('does not prompt when ratings are off', () => {
+      (loadJSON as any).mockReturnValue({
+        ...DEFAULTS,
+        sessionMode: 'protocol',
+        protocol: { sets: 2, setSec: 5, restSec: 20 },
+        ratings: { sud: false, voc: false },
+      });
+      render(<App />);
+
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      act(() => mockRaf.mock.calls[mockRaf.mock.calls.length - 1][0](1000 + 6000));
+
+      expect(screen.queryByRole('dialog', { name: 'Rate set' })).toBeNull();
+      fireEvent.keyDown(window, { code: 'Escape' });
+      expect(loadSessionLog()[0].sets).toHaveLength(1);
+    });
+  });
+
+  describe('present mode', () => {
+    it('opens the client display window', () => {
+      const open = vi.fn(() => ({}) as Window);
+      vi.stubGlobal('open', open);
+      (loadJSON as any).mockReturnValue(null);
+      render(<App />);
+
+      fireEvent.click(screen.getByText('Open client display'));
+
+      expect(open).toHaveBeenCalledWith(expect.stringMatching(/\?present=display$/), 'emdr-present-display', 'popup');
+    });
+
+    it('shares play state with the display and stops on its panic stop', async () => {
+      (loadJSON as any).mockReturnValue(null);
+      const received: PresentMessage[] = [];
+      const display = openPresentChannel((message) => received.push(message))!;
+      render(<App />);
+
+      display.post({ type: 'hello' });
+      expect(await screen.findByText('Client display connected')).toBeDefined();
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      await waitFor(() => expect(received).toContainEqual(expect.objectContaining({ type: 'state', playing: true })));
+
+      display.post({ type: 'panic' });
+
+      await waitFor(() => expect(loadSessionLog()[0]?.endReason).toBe('panic'));
+      await waitFor(() => expect(received[received.length - 1]).toMatchObject({ type: 'state', playing: false }));
+      display.close();
+    });
+  });
+
+  it('keeps this screen’s calibration out of the display window', async () => {
+    (loadJSON as any).mockReturnValue({ ...DEFAULTS, calibration: { pxPerCm: 40, viewingDistanceCm: 57 } });
+    const received: PresentMessage[] = [];
+    const display = openPresentChannel((message) => received.push(message))!;
+    render(<App />);
+
+    display.post({ type: 'hello' });
+
+    await waitFor(() => expect(received.some((m) => m.type === 'state')).toBe(true));
+    const states = received.filter((m): m is Extract<PresentMessage, { type: 'state' }> => m.type === 'state');
+    expect(states.every((m) => m.config.calibration === undefined)).toBe(true);
+    display.close();
+  });
+
+  describe('remote session', () => {
+    class FakeWebSocket {
+      static last: FakeWebSocket;
+      readyState = 0;
+      sent: any[] = [];
+      onopen: (() => void) | null = null;
+      onmessage: ((event: { data: string }) => void) | null = null;
+      onerror: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      constructor(public url: string) {
+        FakeWebSocket.last = this;
+      }
+      send(data: string) {
+        this.sent.push(JSON.parse(data));
+      }
+      close() {
+        this.readyState = 3;
+        this.onclose?.();
+      }
+      receive(message: object) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+      }
+    }
+
+    function startRemote() {
+      vi.stubGlobal('WebSocket', FakeWebSocket);
+      (loadJSON as any).mockReturnValue(null);
+      render(<App />);
+      fireEvent.change(screen.getByLabelText('Relay address'), { target: { value: 'ws://relay.test' } });
+      fireEvent.click(screen.getByText('Start remote session'));
+      const socket = FakeWebSocket.last;
+      act(() => {
+        socket.readyState = 1;
+        socket.onopen?.();
+        socket.receive({ type: 'joined', role: 'clinician', peer: false });
+      });
+      return socket;
+    }
+
+    it('shows the join code and sends state once the client joins', () => {
+      const socket = startRemote();
+      const join = socket.sent[0];
+
+      expect(join).toMatchObject({ type: 'join', role: 'clinician' });
+      expect(screen.getByText(join.code)).toBeDefined();
+      expect(screen.getByText('Waiting for the client to join')).toBeDefined();
+
+      act(() => socket.receive({ type: 'peer', present: true }));
+
+      expect(screen.getByText(/^Client connected/)).toBeDefined();
+      expect(socket.sent).toContainEqual(expect.objectContaining({ type: 'state', playing: false }));
+    });
+
+    it('pauses when the client drops mid-set', () => {
+      const socket = startRemote();
+      act(() => socket.receive({ type: 'peer', present: true }));
+      fireEvent.click(screen.getByLabelText(/Play/i));
+      expect(socket.sent[socket.sent.length - 1]).toMatchObject({ type: 'state', playing: true });
+
+      act(() => socket.receive({ type: 'peer', present: false }));
+
+      expect((screen.getByLabelText(/Play/i) as HTMLButtonElement).disabled).toBe(false);
+      expect(screen.getByText('Waiting for the client to join')).toBeDefined();
+    });
+
+    it('stops on the client’s panic stop and forwards Esc to the client', () => {
+      const socket = startRemote();
+      act(() => socket.receive({ type: 'peer', present: true }));
+      fireEvent.click(screen.getByLabelText(/Play/i));
+
+      act(() => socket.receive({ type: 'panic' }));
+      expect(loadSessionLog()[0]?.endReason).toBe('panic');
+
+      fireEvent.keyDown(window, { code: 'Escape' });
+      expect(socket.sent).toContainEqual({ type: 'panic' });
+    });
+  });
+});
@@ -1,66 +1,137 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import Target from './components/Target';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Stage from './components/Stage';
 import Controls from './components/Controls';
+import RatingPrompt from './components/RatingPrompt';
+import type { PresetTools } from './components/PresetPicker';
 import { AppConfig } from './types';
-import { loadJSON, saveJSON, loadCustomAudio } from './lib/storage';
+import { DEFAULTS } from './lib/defaults';
+import { validateConfig } from './lib/configSchema';
+import {
+  applyPreset,
+  deletePreset,
+  getActivePresetId,
+  isPresetModified,
+  loadJSON,
+  loadPresets,
+  overwritePreset,
+  Preset,
+  renamePreset,
+  saveJSON,
+  savePresetAs,
+  setActivePresetId,
+} from './lib/storage';
+import { loadSound, migrateLegacyAudio } from './lib/audioLibrary';
+import { downscaleIconUrl } from './lib/iconProcessing';
+import { revokeFileUrl } from './lib/audioUtils';
+import { decodeShareHash, hasSharedSettings } from './lib/shareLink';
 import { useAudioEngine } from './hooks/useAudioEngine';
-
-const DEFAULTS: AppConfig = {
-  durationSec: 120,
-  target: {
-    sizePx: 24,
-    color: '#00FF88',
-    shape: 'circle',
-    rotate: false,
-    speedPxPerSec: 2400, // 60 BPM
-    edgePaddingPx: 16,
-    edgePauseMs: 0,
-    startPosition: 'center',
-  },
-  audio: {
-    mode: 'click',
-    volume: 0.15, // Start low per AGENTS.md (10-20%)
-    muted: false,
-    waveform: 'sine', // Softer waveform per AGENTS.md
-    pitch: 'medium',
-    panDepth: 1,
-    fadeInMs: 0,
-  },
-};
+import { FinishedSet, useSessionRecorder } from './hooks/useSessionRecorder';
+import { usePresentController } from './hooks/usePresentController';
+import { useRemoteController } from './hooks/useRemoteController';
+import { EdgeForecast } from './lib/motion';
+import { advanceProtocol, initialProtocolState, ProtocolState } from './lib/protocol';
 
 export default function App() {
-  const [config, setConfig] = useState<AppConfig>(() => {
-    const saved = loadJSON<AppConfig>();
-    const base = saved 
-      ? {
-          ...DEFAULTS,
-          ...saved,
-          target: { ...DEFAULTS.target, ...saved.target },
-          audio: { ...DEFAULTS.audio, ...saved.audio },
-        }
-      : DEFAULTS;
+  // Stored configs may be old, hand-edited or corrupted; validate before anything reaches the engine
+  const [initial] = useState(() => {
+    const { config: base, fixes } = validateConfig(loadJSON<unknown>());
     
-    // Restore custom audio from localStorage if mode is 'file'
+    // Object URLs don't survive a reload; the library effect below recreates it
     if (base.audio.mode === 'file') {
-      const customAudio = loadCustomAudio();
-      if (customAudio) {
-        base.audio.fileUrl = customAudio.dataUrl;
-        base.audio.fileName = customAudio.fileName;
-      } else {
-        // No stored audio found, reset to default mode
-        base.audio.mode = 'click';
-        base.audio.fileUrl = undefined;
-        base.audio.fileName = undefined;
-      }
+      base.audio = { ...base.audio, fileUrl: undefined };
     }
     
-    return base;
+    return { config: base, fixes };
   });
+  const [config, setConfig] = useState<AppConfig>(initial.config);
+  const [repairs, setRepairs] = useState<string[]>(initial.fixes);
+  // Client-facing view shows only the stage; opened from share links with view=client
+  const [clientView, setClientView] = useState(false);
   const [playing, setPlaying] = useState(false);
   const [remaining, setRemaining] = useState(config.durationSec);
+  const [elapsed, setElapsed] = useState(0);
+  const [passes, setPasses] = useState(0);
+
+  const sessionMode = config.sessionMode ?? 'time';
+  const passCount = config.passCount ?? 24;
+  const protocol = config.protocol ?? DEFAULTS.protocol!;
+  const [protocolState, setProtocolState] = useState<ProtocolState>(() => initialProtocolState(protocol));
+  // Rest phases keep the session running but park the target and silence audio
+  const stimulating = playing && (sessionMode !== 'protocol' || protocolState.phase === 'stim');
 
   useEffect(() => saveJSON(config), [config]);
+
+  // Move any old single-slot upload into the library and select it if nothing else is
+  useEffect(() => {
+    let cancelled = false;
+    migrateLegacyAudio().then((migrated) => {
+      // Only a file-mode config from the last visit without a library sound needs it
+      if (cancelled || config.audio.mode !== 'file' || config.audio.fileId) return;
+      setConfig((c) => {
+        if (c.audio.mode !== 'file' || c.audio.fileId) return c;
+        return {
+          ...c,
+          audio: migrated
+            ? { ...c.audio, fileId: migrated.id, fileName: migrated.name }
+            // No stored audio found, reset to default mode
+            : { ...c.audio, mode: 'click', fileUrl: undefined, fileName: undefined },
+        };
+      });
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Object URLs only live for one page load; recreate one whenever a library sound is selected without it
+  const { mode: audioMode, fileId, fileUrl } = config.audio;
+  const loadedUrlRef = useRef<string>();
+  useEffect(() => {
+    if (audioMode !== 'file' || !fileId || fileUrl) return;
+    let cancelled = false;
+    loadSound(fileId).catch(() => null).then((sound) => {
+      if (cancelled) return;
+      const url = sound ? URL.createObjectURL(sound.blob) : undefined;
+      // The config no longer points at the URL made last time, so it can go
+      revokeFileUrl(loadedUrlRef.current ?? '');
+      loadedUrlRef.current = url;
+      setConfig((c) => {
+        if (c.audio.fileId !== fileId) return c;
+        return {
+          ...c,
+          audio: sound
+            ? { ...c.audio, fileName: sound.name, fileUrl: url }
+            : { ...c.audio, mode: 'click', fileUrl: undefined, fileName: undefined, fileId: undefined },
+        };
+      });
+    });
+    return () => { cancelled = true; };
+  }, [audioMode, fileId, fileUrl]);
+
+  // Icons that never went through upload processing may be full-size rasters; shrink them once
+  const customIconUrl = config.target.customIconUrl;
+  useEffect(() => {
+    if (!customIconUrl) return;
+    let cancelled = false;
+    downscaleIconUrl(customIconUrl).then((next) => {
+      if (cancelled || next === customIconUrl) return;
+      setConfig((c) => (c.target.customIconUrl === customIconUrl ? { ...c, target: { ...c.target, customIconUrl: next } } : c));
+    }, () => {
+      // Unreadable images are left alone; the target falls back to a circle
+    });
+    return () => { cancelled = true; };
+  }, [customIconUrl]);
+
   useEffect(() => setRemaining(config.durationSec), [config.durationSec]);
+  useEffect(
+    () => setProtocolState(initialProtocolState(protocol)),
+    [protocol.sets, protocol.setSec, protocol.restSec],
+  );
+
+  const resetSession = useCallback(() => {
+    setRemaining(config.durationSec);
+    setElapsed(0);
+    setPasses(0);
+    setProtocolState(initialProtocolState(protocol));
+  }, [config.durationSec, protocol.sets, protocol.setSec, protocol.restSec]);
 
   // Muted overrides volume to 0
   const effectiveVolume = config.audio.muted ? 0 : config.audio.volume;
@@ -73,32 +144,169 @@ export default function App() {
     config.audio.fileUrl,
     config.audio.pitch ?? 'medium',
     config.audio.panDepth ?? 1,
-    config.audio.fadeInMs ?? 0
+    config.audio.fadeInMs ?? 0,
+    config.audio.latencyOffsetMs ?? 0,
+    config.audio.continuousSound ?? 'tone',
+    config.audio.filePlayback ?? 'fit-pass'
+  );
+
+  const latencyTools = useMemo(
+    () => ({ estimate: audio.estimateLatencyMs, clickAt: audio.clickAt }),
+    [audio],
   );
 
-  // Ensure audio engine suspends when not playing
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [activeId, setActiveId] = useState<string | undefined>(getActivePresetId);
+  const activePreset = presets.find((p) => p.id === activeId);
+  const selectPreset = useCallback((id: string | undefined) => {
+    setActivePresetId(id);
+    setActiveId(id);
+  }, []);
+  const presetTools = useMemo<PresetTools>(() => ({
+    presets,
+    activeId: activePreset?.id,
+    modified: activePreset ? isPresetModified(config, activePreset) : false,
+    onLoad: (id) => {
+      const preset = presets.find((p) => p.id === id);
+      if (!preset) return;
+      const { config: next, fixes } = applyPreset(config, preset);
+      setConfig(next);
+      setRepairs(fixes);
+      selectPreset(id);
+    },
+    onSaveAs: (name) => {
+      const preset = savePresetAs(name, config);
+      setPresets(loadPresets());
+      selectPreset(preset.id);
+    },
+    onOverwrite: () => {
+      if (!activePreset) return;
+      overwritePreset(activePreset.id, config);
+      setPresets(loadPresets());
+    },
+    onRename: (name) => {
+      if (!activePreset) return;
+      renamePreset(activePreset.id, name);
+      setPresets(loadPresets());
+    },
+    onDelete: () => {
+      if (!activePreset) return;
+      deletePreset(activePreset.id);
+      setPresets(loadPresets());
+      selectPreset(undefined);
+    },
+  }), [presets, activePreset, config, selectPreset]);
+
+  // Settings opened from a share link replace the current ones, except this display's calibration
+  useEffect(() => {
+    let cancelled = false;
+    const applySharedSettings = () => {
+      const { hash } = window.location;
+      if (!hasSharedSettings(hash)) return;
+      decodeShareHash(hash).then((shared) => {
+        if (cancelled) return;
+        // Drop the hash so a reload doesn't reapply it over later changes
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+        if (!shared) {
+          setRepairs(['share link: settings could not be read → ignored']);
+          return;
+        }
+        setPlaying(false);
+        setConfig((c) => ({ ...shared.config, calibration: c.calibration }));
+        setRepairs(shared.fixes);
+        setClientView(shared.clientView);
+        selectPreset(undefined);
+      });
+    };
+    applySharedSettings();
+    window.addEventListener('hashchange', applySharedSettings);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', applySharedSettings);
+    };
+  }, [selectPreset]);
+
+  const session = useSessionRecorder(config, { elapsedSec: elapsed, passes });
+  const finished = sessionMode === 'time'
+    ? remaining === 0
+    : sessionMode === 'passes' ? passes >= passCount : protocolState.done;
+
+  // Set ends are logged; the rating prompt follows when SUD or VOC is asked for
+  const ratings = config.ratings ?? DEFAULTS.ratings!;
+  const askRating = ratings.sud || ratings.voc;
+  const [ratingSet, setRatingSet] = useState<FinishedSet | null>(null);
+  const finishSet = useCallback(() => {
+    const finishedSet = session.endSet();
+    if (finishedSet && askRating) setRatingSet(finishedSet);
+  }, [session, askRating]);
+
+  // Protocol sets end on the way into a rest, the next set or the end of the protocol
+  const completedSets = protocolState.done || protocolState.phase === 'rest'
+    ? protocolState.setIndex
+    : protocolState.setIndex - 1;
+  const completedSetsRef = useRef(completedSets);
   useEffect(() => {
-    if (!playing) audio.stop();
-  }, [playing, audio]);
+    if (sessionMode === 'protocol' && completedSets > completedSetsRef.current) finishSet();
+    completedSetsRef.current = completedSets;
+  }, [sessionMode, completedSets, finishSet]);
+
+  // Every play/stop transition lands in the session log; panic and reset end the record directly
+  useEffect(() => {
+    if (playing) session.play();
+    else if (finished) {
+      // A timed or pass-count run is a single set
+      if (sessionMode !== 'protocol') finishSet();
+      session.end('completed');
+    } else session.pause();
+  }, [playing, finished, session, sessionMode, finishSet]);
+
+  // Ensure audio engine suspends when not playing or resting between sets
+  useEffect(() => {
+    if (stimulating) audio.start();
+    else audio.stop();
+  }, [stimulating, audio]);
+
+  const panicStop = useCallback(() => {
+    session.end('panic');
+    setPlaying(false);
+    resetSession();
+  }, [session, resetSession]);
+
+  // The target parks at the center during protocol rests
+  const startPosition = stimulating || !playing ? config.target.startPosition : 'center';
+  const presentState = useMemo(
+    () => ({ config, playing: stimulating, startPosition }),
+    [config, stimulating, startPosition],
+  );
+  // A panic stop in the display window stops this one too
+  const { tools: presentTools, postEdge, postPanic } = usePresentController(presentState, panicStop);
+  // Likewise for a remote client; losing the client pauses here so the set isn't run blind
+  const pauseForLostClient = useCallback(() => setPlaying(false), []);
+  const {
+    tools: remoteTools,
+    postEdge: postRemoteEdge,
+    postPanic: postRemotePanic,
+  } = useRemoteController(presentState, panicStop, pauseForLostClient);
 
   // Panic stop hotkeys: Space toggles pause, Esc stops
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Ignore if user is typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      // Esc is a panic stop and works everywhere; Space is ignored while typing in an input
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement;
       
-      if (e.code === 'Space') {
+      if (e.code === 'Space' && !typing) {
         e.preventDefault();
         setPlaying(p => !p);
       } else if (e.code === 'Escape') {
         e.preventDefault();
-        setPlaying(false);
-        setRemaining(config.durationSec);
+        panicStop();
+        postPanic();
+        postRemotePanic();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [config.durationSec]);
+  }, [panicStop, postPanic, postRemotePanic]);
 
   useEffect(() => {
     let raf: number | null = null;
@@ -106,60 +314,124 @@ export default function App() {
     const tick = (ts: number) => {
       const dt = (ts - anchor) / 1000;
       anchor = ts;
-      setRemaining((r) => {
-        const next = Math.max(0, r - dt);
-        if (next === 0) setPlaying(false);
-        return next;
-      });
+      setElapsed((e) => e + dt);
+      // Pass-count sessions are ended by handleEdge, not by the clock
+      if (sessionMode === 'time') {
+        setRemaining((r) => {
+          const next = Math.max(0, r - dt);
+          if (next === 0) setPlaying(false);
+          return next;
+        });
+      } else if (sessionMode === 'protocol') {
+        setProtocolState((s) => {
+          const next = advanceProtocol(s, protocol, dt);
+          if (next.done) setPlaying(false);
+          return next;
+        });
+      }
       raf = requestAnimationFrame(tick);
     };
     if (playing) {
-      audio.start();
       raf = requestAnimationFrame(tick);
     }
     return () => { if (raf) cancelAnimationFrame(raf); };
-  }, [playing, audio]);
+  }, [playing, sessionMode, protocol.sets, protocol.setSec, protocol.restSec]);
 
-  const remainingRounded = useMemo(() => Math.ceil(remaining), [remaining]);
+  const remainingRounded = useMemo(
+    () => Math.ceil(sessionMode === 'protocol' ? protocolState.remainingSec : remaining),
+    [sessionMode, protocolState.remainingSec, remaining],
+  );
+  const elapsedRounded = useMemo(() => Math.floor(elapsed), [elapsed]);
   
   // Stable callbacks to avoid re-creating rAF in child effects
   const handlePosition = useCallback((n: number) => {
     audio.setPan(n * 2 - 1);
   }, [audio]);
-  const handleEdge = useCallback(() => {
-    audio.click();
+  // Edge sounds are queued ahead on the audio clock from the forecast; the visual
+  // hit only feeds the drift measurement and the pass counter
+  const handleEdgeForecast = useCallback((forecast: EdgeForecast) => {
+    audio.scheduleEdges(forecast);
   }, [audio]);
+  const handleEdge = useCallback((side: 'left' | 'right', atMs: number) => {
+    audio.markVisualEdge(atMs);
+    postEdge(side, atMs);
+    postRemoteEdge(side, atMs);
+    setPasses((n) => {
+      const next = n + 1;
+      if (sessionMode === 'passes' && next >= passCount) setPlaying(false);
+      return next;
+    });
+  }, [audio, postEdge, postRemoteEdge, sessionMode, passCount]);
+
+  const handlePlay = useCallback(() => {
+    // Starting again after a completed session begins a fresh one
+    if (sessionMode === 'time' && remaining <= 0) resetSession();
+    if (sessionMode === 'passes' && passes >= passCount) resetSession();
+    if (sessionMode === 'protocol' && protocolState.done) resetSession();
+    setPlaying(true);
+  }, [sessionMode, remaining, passes, passCount, protocolState.done, resetSession]);
 
   return (
     <div className="app">
-      <header className="header">
-        <h1 className="title">EMDR Processor · MVP</h1>
-      </header>
-      <main className="stage">
-        <Target
-          color={config.target.color}
-          sizePx={config.target.sizePx}
-          shape={config.target.shape ?? 'circle'}
-          emoji={config.target.emoji}
-          rotate={config.target.rotate ?? false}
-          speedPxPerSec={config.target.speedPxPerSec}
-          edgePaddingPx={config.target.edgePaddingPx}
-          edgePauseMs={config.target.edgePauseMs}
-          startPosition={config.target.startPosition}
-          playing={playing}
-          onPosition={handlePosition}
-          onEdge={handleEdge}
-        />
-      </main>
-      <Controls
-        playing={playing}
-        remainingSec={remainingRounded}
-        onPlay={() => setPlaying(true)}
-        onStop={() => setPlaying(false)}
-        onReset={() => { setPlaying(false); setRemaining(config.durationSec); }}
+      {!clientView && (
+        <header className="header">
+          <h1 className="title">EMDR Processor · MVP</h1>
+        </header>
+      )}
+      {repairs.length > 0 && !clientView && (
+        <div className="notice" role="status" aria-label="Settings repaired">
+          <span>Some saved settings were invalid and have been repaired:</span>
+          <ul className="notice-list">
+            {repairs.map((fix) => <li key={fix}>{fix}</li>)}
+          </ul>
+          <button type="button" className="btn" onClick={() => setRepairs([])}>Dismiss</button>
+        </div>
+      )}
+      <Stage
         config={config}
-        onConfigChange={setConfig}
+        playing={stimulating}
+        startPosition={startPosition}
+        onPosition={handlePosition}
+        onEdge={handleEdge}
+        onEdgeForecast={handleEdgeForecast}
       />
+      {ratingSet && (
+        <RatingPrompt
+          key={`${ratingSet.sessionId}-${ratingSet.set}`}
+          set={ratingSet.set}
+          askSud={ratings.sud}
+          askVoc={ratings.voc}
+          earlierSud={ratingSet.earlierSets.map((s) => s.sud)}
+          onSave={(rating) => {
+            session.rate(ratingSet, rating);
+            setRatingSet(null);
+          }}
+          onSkip={() => setRatingSet(null)}
+        />
+      )}
+      {clientView ? (
+        <button type="button" className="btn show-controls" onClick={() => setClientView(false)}>
+          Show controls
+        </button>
+      ) : (
+        <Controls
+          playing={playing}
+          remainingSec={remainingRounded}
+          elapsedSec={elapsedRounded}
+          passes={passes}
+          drift={audio.getDrift()}
+          latencyTools={latencyTools}
+          presets={presetTools}
+          present={presentTools}
+          remote={remoteTools}
+          protocolPhase={sessionMode === 'protocol' ? protocolState : undefined}
+          onPlay={handlePlay}
+          onStop={() => setPlaying(false)}
+          onReset={() => { session.end('stopped'); setPlaying(false); resetSession(); }}
+          config={config}
+          onConfigChange={setConfig}
+        />
+      )}
     </div>
   );
 }
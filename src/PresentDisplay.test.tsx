@@ -0,0 +1,64 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import PresentDisplay from './PresentDisplay';
+import { openPresentChannel, PresentChannel, PresentMessage } from './lib/presentChannel';
+import { DEFAULTS } from './lib/defaults';
+
+let controller: PresentChannel | null = null;
+
+function openController(onMessage: (message: PresentMessage) => void = () => {}) {
+  controller = openPresentChannel(onMessage)!;
+  return controller;
+}
+
+async function flushChannel() {
+  // BroadcastChannel delivers on a later task
+  await act(() => new Promise((resolve) => setTimeout(resolve, 20)));
+}
+
+afterEach(() => {
+  controller?.close();
+  controller = null;
+});
+
+describe('PresentDisplay', () => {
+  it('asks the controller for its state and shows only the stage', async () => {
+    const received = vi.fn();
+    const channel = openController(received);
+    render(<PresentDisplay />);
+
+    expect(screen.getByText('Waiting for the controller window…')).toBeDefined();
+    await waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'hello' }));
+
+    channel.post({ type: 'state', config: { ...DEFAULTS, target: { ...DEFAULTS.target, shape: 'star' } }, playing: false, startPosition: 'center' });
+    await flushChannel();
+
+    expect(screen.getByLabelText('Bilateral visual stage')).toBeDefined();
+    expect(document.querySelector('.target polygon')).not.toBeNull();
+    expect(screen.queryByText('Waiting for the controller window…')).toBeNull();
+    expect(screen.queryByLabelText(/Play/i)).toBeNull();
+  });
+
+  it('sends a panic stop to the controller on Esc', async () => {
+    const received = vi.fn();
+    openController(received);
+    render(<PresentDisplay />);
+
+    fireEvent.keyDown(window, { code: 'Escape' });
+
+    await waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'panic' }));
+  });
+
+  it('goes back to waiting when the controller closes', async () => {
+    const channel = openController();
+    render(<PresentDisplay />);
+    channel.post({ type: 'state', config: DEFAULTS, playing: true, startPosition: 'center' });
+    await flushChannel();
+
+    channel.post({ type: 'bye', from: 'controller' });
+    await flushChannel();
+
+    expect(screen.getByText('Waiting for the controller window…')).toBeDefined();
+  });
+});
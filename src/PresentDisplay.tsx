@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Stage from './components/Stage';
+import { EdgeAnchor } from './lib/motion';
+import { fromEpochMs, openPresentChannel, PresentChannel, PresentState } from './lib/presentChannel';
+
+function stopped(state: PresentState | null): PresentState | null {
+  return state && state.playing ? { ...state, playing: false } : state;
+}
+
+/**
+ * Client-facing window of present mode: the stage only, following the controller window.
+ * Audio stays with the controller; Esc here is still a panic stop for both windows.
+ */
+export default function PresentDisplay() {
+  const [state, setState] = useState<PresentState | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [edgeAnchor, setEdgeAnchor] = useState<EdgeAnchor>();
+  const channelRef = useRef<PresentChannel | null>(null);
+
+  useEffect(() => {
+    const channel = openPresentChannel((message) => {
+      switch (message.type) {
+        case 'state': {
+          const { type: _type, ...next } = message;
+          setState(next);
+          setConnected(true);
+          break;
+        }
+        case 'edge':
+          setEdgeAnchor({ side: message.side, atMs: fromEpochMs(message.atEpochMs) });
+          break;
+        case 'panic':
+          setState(stopped);
+          break;
+        case 'bye':
+          if (message.from === 'controller') {
+            setState(stopped);
+            setConnected(false);
+          }
+          break;
+      }
+    });
+    channelRef.current = channel;
+    channel?.post({ type: 'hello' });
+    const handleUnload = () => channel?.post({ type: 'bye', from: 'display' });
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape') return;
+      e.preventDefault();
+      // Stop here at once rather than waiting for the controller's reply
+      setState(stopped);
+      channelRef.current?.post({ type: 'panic' });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className="app present-display">
+      {state && (
+        <Stage
+          config={state.config}
+          playing={state.playing}
+          startPosition={state.startPosition}
+          edgeAnchor={edgeAnchor}
+        />
+      )}
+      {!connected && (
+        <div className="present-status" role="status">
+          {typeof BroadcastChannel === 'function'
+            ? 'Waiting for the controller window…'
+            : 'This browser can’t link windows; present mode is unavailable.'}
+        </div>
+      )}
+    </div>
+  );
+}
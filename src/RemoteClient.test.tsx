@@ -0,0 +1,166 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RemoteClient from './RemoteClient';
+import { DEFAULTS } from './lib/defaults';
+import { WATCHDOG_MS } from './lib/remoteSession';
+
+const audio = vi.hoisted(() => ({
+  start: vi.fn(),
+  stop: vi.fn(),
+  setPan: vi.fn(),
+  setVolume: vi.fn(),
+  click: vi.fn(),
+  scheduleEdges: vi.fn(),
+  markVisualEdge: vi.fn(),
+  getDrift: vi.fn(() => ({ lastMs: null, meanAbsMs: 0, maxAbsMs: 0, samples: 0 })),
+  clickAt: vi.fn(),
+  estimateLatencyMs: vi.fn(() => Promise.resolve(null)),
+}));
+
+vi.mock('./hooks/useAudioEngine', () => ({
+  useAudioEngine: vi.fn(() => audio),
+}));
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function joinAndConnect() {
+  render(<RemoteClient />);
+  fireEvent.click(screen.getByRole('button', { name: 'Join session' }));
+  const socket = FakeWebSocket.instances[0];
+  act(() => {
+    socket.open();
+    socket.receive({ type: 'joined', role: 'client', peer: true });
+    socket.receive({ type: 'state', config: DEFAULTS, playing: true, startPosition: 'center' });
+  });
+  return socket;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  window.history.replaceState(null, '', '/?remote=client&code=ABC234&relay=ws%3A%2F%2Frelay.test');
+});
+
+afterEach(() => {
+  FakeWebSocket.instances = [];
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  window.history.replaceState(null, '', '/');
+});
+
+describe('RemoteClient', () => {
+  it('joins the clinician’s session from the link', () => {
+    render(<RemoteClient />);
+
+    expect((screen.getByLabelText('Join code') as HTMLInputElement).value).toBe('ABC234');
+    fireEvent.click(screen.getByRole('button', { name: 'Join session' }));
+    const socket = FakeWebSocket.instances[0];
+    act(() => socket.open());
+
+    expect(socket.url).toBe('ws://relay.test');
+    expect(socket.sent[0]).toEqual({ type: 'join', code: 'ABC234', role: 'client' });
+  });
+
+  it('runs the stage and audio from the clinician’s state', () => {
+    joinAndConnect();
+
+    expect(screen.getByLabelText('Bilateral visual stage')).toBeDefined();
+    expect(screen.getByRole('status').textContent).toMatch(/^Connected/);
+    expect(audio.start).toHaveBeenCalled();
+  });
+
+  it('keeps latency and calibration from the clinician’s devices out of this machine', async () => {
+    const { useAudioEngine } = await import('./hooks/useAudioEngine');
+    const socket = joinAndConnect();
+
+    act(() => socket.receive({
+      type: 'state',
+      config: {
+        ...DEFAULTS,
+        target: { ...DEFAULTS.target, sizePx: 40, units: 'deg', sizeDeg: 5 },
+        calibration: { pxPerCm: 60, viewingDistanceCm: 57 },
+        audio: { ...DEFAULTS.audio, latencyOffsetMs: 120 },
+      },
+      playing: true,
+      startPosition: 'center',
+    }));
+
+    const args = vi.mocked(useAudioEngine).mock.lastCall!;
+    expect(args[8]).toBe(0);
+    expect((screen.getByLabelText('moving target') as HTMLElement).style.width).toBe('40px');
+  });
+
+  it('ignores a state message it cannot use', () => {
+    const socket = joinAndConnect();
+
+    act(() => socket.receive({ type: 'state', config: { target: 'broken' }, playing: 'yes' }));
+
+    expect(screen.getByLabelText('Bilateral visual stage')).toBeDefined();
+    expect(screen.getByRole('status').textContent).toMatch(/^Connected/);
+  });
+
+  it('stops stimulation when the connection drops', () => {
+    const socket = joinAndConnect();
+    audio.stop.mockClear();
+
+    act(() => socket.close());
+
+    expect(screen.getByText('Connection lost — stimulation stopped')).toBeDefined();
+    expect(audio.stop).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Rejoin' })).toBeDefined();
+  });
+
+  it('treats a silent clinician as a dropped connection', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] });
+    const socket = joinAndConnect();
+
+    act(() => {
+      vi.advanceTimersByTime(WATCHDOG_MS + 1500);
+    });
+
+    expect(socket.readyState).toBe(3);
+    expect(screen.getByText('Connection lost — stimulation stopped')).toBeDefined();
+  });
+
+  it('stops at once and tells the clinician on Esc', () => {
+    const socket = joinAndConnect();
+    audio.stop.mockClear();
+
+    fireEvent.keyDown(window, { code: 'Escape' });
+
+    expect(audio.stop).toHaveBeenCalled();
+    expect(socket.sent).toContainEqual({ type: 'panic' });
+  });
+});
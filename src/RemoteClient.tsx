@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Stage from './components/Stage';
+import { useAudioEngine } from './hooks/useAudioEngine';
+import { EdgeAnchor, EdgeForecast } from './lib/motion';
+import type { PresentState } from './lib/presentChannel';
+import {
+  ClockOffset,
+  connectRemote,
+  fromServerMs,
+  normalizeJoinCode,
+  readRemoteState,
+  remoteClientParams,
+  RemoteConnection,
+  RemoteStatus,
+  WATCHDOG_MS,
+} from './lib/remoteSession';
+
+function stopped(state: PresentState | null): PresentState | null {
+  return state && state.playing ? { ...state, playing: false } : state;
+}
+
+/**
+ * The clinician's settings as this machine should apply them. Latency offset and screen
+ * calibration describe the clinician's own devices, so they're left out (a degree-sized
+ * target falls back to its pixel size); blob URLs don't cross machines, so an uploaded
+ * sound falls back to the click.
+ */
+function localConfig(config: PresentState['config']): PresentState['config'] {
+  const audio = { ...config.audio, latencyOffsetMs: 0 };
+  return {
+    ...config,
+    calibration: undefined,
+    audio: audio.mode === 'file' ? { ...audio, mode: 'click', fileUrl: undefined } : audio,
+  };
+}
+
+/**
+ * Client side of remote mode: the stage and audio run in this browser, following the
+ * clinician's state. Stimulation stops whenever the link is lost or goes quiet.
+ */
+export default function RemoteClient() {
+  const [params] = useState(() => remoteClientParams());
+  const [codeInput, setCodeInput] = useState(params.code);
+  const [status, setStatus] = useState<RemoteStatus | 'idle'>('idle');
+  const [detail, setDetail] = useState<string>();
+  const [state, setState] = useState<PresentState | null>(null);
+  const [edgeAnchor, setEdgeAnchor] = useState<EdgeAnchor>();
+  const [clock, setClock] = useState<ClockOffset | null>(null);
+  const connectionRef = useRef<RemoteConnection | null>(null);
+  const generationRef = useRef(0);
+  const lastHeardRef = useRef(0);
+
+  const config = useMemo(() => (state ? localConfig(state.config) : undefined), [state]);
+  const audioConfig = config?.audio;
+  const audio = useAudioEngine(
+    true,
+    audioConfig?.muted ? 0 : audioConfig?.volume ?? 0,
+    audioConfig?.waveform ?? 'sine',
+    audioConfig?.mode,
+    audioConfig?.fileUrl,
+    audioConfig?.pitch ?? 'medium',
+    audioConfig?.panDepth ?? 1,
+    audioConfig?.fadeInMs ?? 0,
+    audioConfig?.latencyOffsetMs ?? 0,
+    audioConfig?.continuousSound ?? 'tone',
+    audioConfig?.filePlayback ?? 'fit-pass',
+  );
+
+  const playing = status === 'connected' && !!state?.playing;
+
+  useEffect(() => {
+    if (playing) audio.start();
+    else audio.stop();
+  }, [playing, audio]);
+
+  const handleJoin = useCallback(() => {
+    const code = normalizeJoinCode(codeInput);
+    if (!code || !params.relayUrl) return;
+    // Callbacks from a replaced connection are ignored
+    const generation = ++generationRef.current;
+    connectionRef.current?.close();
+    setDetail(undefined);
+    const connection = connectRemote({
+      url: params.relayUrl,
+      code,
+      role: 'client',
+      onMessage: (message) => {
+        if (generation !== generationRef.current) return;
+        lastHeardRef.current = performance.now();
+        switch (message.type) {
+          case 'state': {
+            // Whatever arrives over the network is checked before it reaches the stage
+            const next = readRemoteState(message);
+            if (next) setState(next);
+            break;
+          }
+          case 'edge':
+            setEdgeAnchor({ side: message.side, atMs: fromServerMs(message.atServerMs, connection.clock()) });
+            break;
+          case 'panic':
+            setState(stopped);
+            break;
+        }
+      },
+      onStatus: (next, why) => {
+        if (generation !== generationRef.current) return;
+        lastHeardRef.current = performance.now();
+        // Fail safe: any loss of the clinician stops stimulation here
+        if (next !== 'connected') setState(stopped);
+        setStatus(next);
+        setDetail(why);
+      },
+      onClock: setClock,
+    });
+    connectionRef.current = connection;
+  }, [codeInput, params.relayUrl]);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  // A connection can die without a close event (sleeping laptop, dropped Wi-Fi); the
+  // clinician's heartbeat going quiet counts as a drop
+  useEffect(() => {
+    if (status !== 'connected') return;
+    const id = setInterval(() => {
+      if (performance.now() - lastHeardRef.current > WATCHDOG_MS) connectionRef.current?.close();
+    }, 1000);
+    return () => clearInterval(id);
+  }, [status]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape') return;
+      e.preventDefault();
+      setState(stopped);
+      connectionRef.current?.send({ type: 'panic' });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handlePosition = useCallback((n: number) => {
+    audio.setPan(n * 2 - 1);
+  }, [audio]);
+  const handleEdgeForecast = useCallback((forecast: EdgeForecast) => {
+    audio.scheduleEdges(forecast);
+  }, [audio]);
+  const handleEdge = useCallback((_side: 'left' | 'right', atMs: number) => {
+    audio.markVisualEdge(atMs);
+  }, [audio]);
+
+  const joined = status === 'waiting' || status === 'connected' || status === 'connecting';
+  const lost = status === 'disconnected' && state !== null;
+
+  return (
+    <div className="app present-display">
+      {state && config && (
+        <Stage
+          config={config}
+          playing={playing}
+          startPosition={state.startPosition}
+          onPosition={handlePosition}
+          onEdge={handleEdge}
+          onEdgeForecast={handleEdgeForecast}
+          edgeAnchor={edgeAnchor}
+        />
+      )}
+      {status === 'connected' && state ? (
+        <div className="remote-status" role="status">
+          Connected{clock ? ` · sync ±${Math.round(clock.rttMs / 2)} ms` : ''}
+        </div>
+      ) : (
+        <div className="present-status remote-join" role="status">
+          {status === 'connecting' && <span>Connecting…</span>}
+          {status === 'waiting' && <span>Waiting for the clinician…</span>}
+          {status === 'connected' && <span>Connected. Waiting for the clinician’s settings…</span>}
+          {lost && <span style={{ color: '#ff6b6b' }}>Connection lost — stimulation stopped</span>}
+          {status === 'disconnected' && !lost && detail && <span style={{ color: '#ff6b6b' }}>{detail}</span>}
+          {!joined && (
+            <div className="row">
+              <input
+                type="text"
+                className="input"
+                aria-label="Join code"
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value)}
+                autoComplete="off"
+                spellCheck={false}
+              />
+              {/* The click also lets the browser start audio */}
+              <button
+                type="button"
+                className="btn primary"
+                onClick={handleJoin}
+                disabled={!normalizeJoinCode(codeInput) || !params.relayUrl}
+              >
+                {status === 'disconnected' ? 'Rejoin' : 'Join session'}
+              </button>
+            </div>
+          )}
+          {!params.relayUrl && (
+            <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+              This link has no relay address; ask the clinician for a new one.
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
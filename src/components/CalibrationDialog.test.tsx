@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import CalibrationDialog from './CalibrationDialog';
+import { CARD_WIDTH_CM } from '../lib/visualAngle';
+
+describe('CalibrationDialog', () => {
+  it('saves a card-based calibration with the viewing distance', () => {
+    const onSave = vi.fn();
+    render(<CalibrationDialog onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Card width'), { target: { value: '428' } });
+    fireEvent.change(screen.getByDisplayValue('57'), { target: { value: '60' } });
+    fireEvent.click(screen.getByText('Save calibration'));
+
+    expect(onSave).toHaveBeenCalledWith({ pxPerCm: 428 / CARD_WIDTH_CM, viewingDistanceCm: 60 });
+  });
+
+  it('resizes the card outline with the slider', () => {
+    render(<CalibrationDialog onSave={vi.fn()} onCancel={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText('Card width'), { target: { value: '300' } });
+    expect(screen.getByLabelText('Card outline').style.width).toBe('300px');
+  });
+
+  it('saves a screen-width calibration', () => {
+    Object.defineProperty(window.screen, 'width', { value: 1440, configurable: true });
+    const onSave = vi.fn();
+    render(<CalibrationDialog onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByDisplayValue('Match a bank card'), { target: { value: 'screen' } });
+    fireEvent.change(screen.getByDisplayValue('34'), { target: { value: '40' } });
+    fireEvent.click(screen.getByText('Save calibration'));
+
+    expect(onSave).toHaveBeenCalledWith({ pxPerCm: 36, viewingDistanceCm: 57 });
+  });
+
+  it('cancels without saving', () => {
+    const onSave = vi.fn();
+    const onCancel = vi.fn();
+    render(<CalibrationDialog onSave={onSave} onCancel={onCancel} />);
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(onCancel).toHaveBeenCalled();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import {
+  Calibration,
+  CARD_HEIGHT_CM,
+  CARD_WIDTH_CM,
+  DEFAULT_VIEWING_DISTANCE_CM,
+  pxPerCmFromCard,
+  pxPerCmFromScreenWidth,
+} from '../lib/visualAngle';
+
+type Props = {
+  calibration?: Calibration;
+  onSave: (c: Calibration) => void;
+  onCancel: () => void;
+};
+
+type Method = 'screen' | 'card';
+
+export default function CalibrationDialog({ calibration, onSave, onCancel }: Props) {
+  const screenWidthPx = typeof window !== 'undefined' ? window.screen?.width || 0 : 0;
+  const [method, setMethod] = useState<Method>('card');
+  const [screenWidthCm, setScreenWidthCm] = useState<number>(() =>
+    calibration && screenWidthPx ? Math.round((screenWidthPx / calibration.pxPerCm) * 10) / 10 : 34,
+  );
+  const [cardWidthPx, setCardWidthPx] = useState<number>(() =>
+    calibration ? Math.round(calibration.pxPerCm * CARD_WIDTH_CM) : 320,
+  );
+  const [distanceCm, setDistanceCm] = useState<number>(
+    calibration?.viewingDistanceCm ?? DEFAULT_VIEWING_DISTANCE_CM,
+  );
+
+  const pxPerCm = method === 'card'
+    ? pxPerCmFromCard(cardWidthPx)
+    : pxPerCmFromScreenWidth(screenWidthPx, screenWidthCm);
+  const valid = pxPerCm > 0 && distanceCm > 0;
+
+  return (
+    <div className="dialog-backdrop" role="dialog" aria-modal="true" aria-label="Screen calibration">
+      <div className="dialog">
+        <h2 className="dialog-title">Screen calibration</h2>
+
+        <label className="control-item">
+          <span className="label">Method</span>
+          <select className="select" value={method} onChange={(e) => setMethod(e.target.value as Method)}>
+            <option value="card">Match a bank card</option>
+            <option value="screen">Enter screen width</option>
+          </select>
+        </label>
+
+        {method === 'card' ? (
+          <div className="control-item">
+            <span className="label">Hold a bank card against the screen and resize the box until it matches</span>
+            <div
+              className="calibration-card"
+              aria-label="Card outline"
+              style={{ width: cardWidthPx, height: cardWidthPx * (CARD_HEIGHT_CM / CARD_WIDTH_CM) }}
+            />
+            <input
+              className="input"
+              type="range"
+              min={120}
+              max={800}
+              step={1}
+              value={cardWidthPx}
+              aria-label="Card width"
+              onChange={(e) => setCardWidthPx(parseInt(e.target.value, 10))}
+            />
+          </div>
+        ) : (
+          <label className="control-item">
+            <span className="label">Visible screen width (cm)</span>
+            <input
+              className="input input-number"
+              type="number"
+              min={5}
+              max={1000}
+              step={0.1}
+              value={screenWidthCm}
+              onChange={(e) => setScreenWidthCm(parseFloat(e.target.value) || 0)}
+            />
+          </label>
+        )}
+
+        <label className="control-item">
+          <span className="label">Viewing distance (cm)</span>
+          <input
+            className="input input-number"
+            type="number"
+            min={10}
+            max={1000}
+            value={distanceCm}
+            onChange={(e) => setDistanceCm(parseFloat(e.target.value) || 0)}
+          />
+        </label>
+
+        <div className="row dialog-actions">
+          <button type="button" className="btn" onClick={onCancel}>Cancel</button>
+          <button
+            type="button"
+            className="btn primary"
+            disabled={!valid}
+            onClick={() => onSave({ pxPerCm, viewingDistanceCm: distanceCm })}
+          >
+            Save calibration
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent, within } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import Controls from './Controls';
 import { AppConfig } from '../types';
@@ -32,6 +32,8 @@ function createDefaultConfig(): AppConfig {
 function renderControls(overrides?: {
   playing?: boolean;
   remainingSec?: number;
+  elapsedSec?: number;
+  passes?: number;
   config?: Partial<AppConfig>;
   onPlay?: () => void;
   onStop?: () => void;
@@ -49,6 +51,8 @@ function renderControls(overrides?: {
   const props = {
     playing: overrides?.playing ?? false,
     remainingSec: overrides?.remainingSec ?? 120,
+    elapsedSec: overrides?.elapsedSec ?? 0,
+    passes: overrides?.passes ?? 0,
     onPlay: overrides?.onPlay ?? vi.fn(),
     onStop: overrides?.onStop ?? vi.fn(),
     onReset: overrides?.onReset ?? vi.fn(),
@@ -132,22 +136,244 @@ describe('Controls', () => {
     });
   });
 
+  describe('Session mode', () => {
+    it('shows a running set counter in timed sessions', () => {
+      renderControls({ passes: 7 });
+      expect(screen.getByLabelText('Set counter').textContent).toBe('7');
+    });
+
+    it('switches to a pass-count session', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+      
+      fireEvent.change(screen.getByDisplayValue('Timed'), { target: { value: 'passes' } });
+      
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionMode: 'passes' })
+      );
+    });
+
+    it('shows progress toward the pass target and elapsed time', () => {
+      renderControls({
+        passes: 5,
+        elapsedSec: 42,
+        config: { sessionMode: 'passes', passCount: 24 },
+      });
+      
+      expect(screen.getByLabelText('Set counter').textContent).toBe('5/24');
+      expect(screen.getByText('Elapsed')).toBeDefined();
+      expect(screen.getByText('0:42')).toBeDefined();
+    });
+
+    it('clamps the pass target to a sane range', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange, config: { sessionMode: 'passes', passCount: 24 } });
+      
+      const passesInput = screen.getByText('Passes').closest('label')!.querySelector('input') as HTMLInputElement;
+      fireEvent.change(passesInput, { target: { value: '999' } });
+      
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({ passCount: 200 })
+      );
+    });
+
+    it('toggles the SUD and VOC prompts', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+
+      expect((screen.getByLabelText('Ask SUD') as HTMLInputElement).checked).toBe(true);
+      fireEvent.click(screen.getByLabelText('Ask VOC'));
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({ ratings: { sud: true, voc: true } })
+      );
+    });
+  });
+
+  describe('Continuous mode', () => {
+    it('offers tone and noise beds', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange, config: { audio: { ...createDefaultConfig().audio, mode: 'continuous' } } });
+
+      expect(screen.getByDisplayValue('Sine (soft)')).toBeDefined();
+      fireEvent.change(screen.getByDisplayValue('Tone'), { target: { value: 'noise' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio: expect.objectContaining({ continuousSound: 'noise' })
+        })
+      );
+    });
+  });
+
+  describe('File playback', () => {
+    it('chooses how an uploaded file plays', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange, config: { audio: { ...createDefaultConfig().audio, mode: 'file' } } });
+
+      fireEvent.change(screen.getByDisplayValue('Fit to pass'), { target: { value: 'loop' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio: expect.objectContaining({ filePlayback: 'loop' })
+        })
+      );
+    });
+  });
+
+  describe('Latency offset', () => {
+    it('clamps the manual latency offset', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+
+      fireEvent.change(screen.getByLabelText('Latency offset (ms)'), { target: { value: '900' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio: expect.objectContaining({ latencyOffsetMs: 500 })
+        })
+      );
+    });
+
+    it('fills the offset from the browser estimate', async () => {
+      const onConfigChange = vi.fn();
+      render(<Controls
+        playing={false}
+        remainingSec={60}
+        latencyTools={{ estimate: vi.fn().mockResolvedValue(180), clickAt: vi.fn() }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={createDefaultConfig()}
+        onConfigChange={onConfigChange}
+      />);
+
+      fireEvent.click(screen.getByText('Auto'));
+
+      await vi.waitFor(() => expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          audio: expect.objectContaining({ latencyOffsetMs: 180 })
+        })
+      ));
+    });
+
+    it('opens the tap calibration helper', () => {
+      render(<Controls
+        playing={false}
+        remainingSec={60}
+        latencyTools={{ estimate: vi.fn(), clickAt: vi.fn() }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={createDefaultConfig()}
+        onConfigChange={vi.fn()}
+      />);
+
+      fireEvent.click(screen.getByText('Tap test'));
+      expect(screen.getByRole('dialog', { name: 'Latency calibration' })).toBeDefined();
+    });
+  });
+
+  describe('Drift readout', () => {
+    it('shows measured audio/visual drift once edges are measured', () => {
+      render(<Controls
+        playing
+        remainingSec={60}
+        drift={{ lastMs: 8.4, meanAbsMs: 7, maxAbsMs: 12, samples: 5 }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={createDefaultConfig()}
+        onConfigChange={vi.fn()}
+      />);
+      const readout = screen.getByLabelText('Audio visual drift');
+      expect(readout.textContent).toBe('A/V 8 ms · max 12 ms');
+      expect(readout.className).not.toContain('warning');
+    });
+
+    it('flags drift beyond the 50 ms acceptance limit', () => {
+      render(<Controls
+        playing
+        remainingSec={60}
+        drift={{ lastMs: 70, meanAbsMs: 40, maxAbsMs: 70, samples: 5 }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={createDefaultConfig()}
+        onConfigChange={vi.fn()}
+      />);
+      expect(screen.getByLabelText('Audio visual drift').className).toContain('warning');
+    });
+  });
+
+  describe('Protocol mode', () => {
+    const protocolConfig = { sessionMode: 'protocol' as const, protocol: { sets: 8, setSec: 30, restSec: 20 } };
+
+    it('hides the phase indicator until a protocol session reports one', () => {
+      renderControls({ config: protocolConfig });
+      expect(screen.queryByLabelText('Protocol phase')).toBeNull();
+    });
+
+    it('shows set progress and rest phase', () => {
+      const { rerender } = render(<Controls
+        playing
+        remainingSec={12}
+        protocolPhase={{ phase: 'stim', setIndex: 3 }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={{ ...createDefaultConfig(), ...protocolConfig }}
+        onConfigChange={vi.fn()}
+      />);
+      expect(screen.getByLabelText('Protocol phase').textContent).toBe('Set 3 of 8');
+
+      rerender(<Controls
+        playing
+        remainingSec={12}
+        protocolPhase={{ phase: 'rest', setIndex: 3 }}
+        onPlay={vi.fn()}
+        onStop={vi.fn()}
+        onReset={vi.fn()}
+        config={{ ...createDefaultConfig(), ...protocolConfig }}
+        onConfigChange={vi.fn()}
+      />);
+      expect(screen.getByLabelText('Protocol phase').textContent).toBe('Set 3 of 8 · Rest');
+    });
+
+    it('edits protocol rest length', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange, config: protocolConfig });
+      
+      const restInput = screen.getByText('Rest').closest('label')!.querySelector('input') as HTMLInputElement;
+      fireEvent.change(restInput, { target: { value: '15' } });
+      
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({ protocol: { sets: 8, setSec: 30, restSec: 15 } })
+      );
+    });
+  });
+
   describe('Speed control', () => {
-    it('updates speed when range input changes', () => {
+    it('updates tempo when range input changes', () => {
       const onConfigChange = vi.fn();
       renderControls({ onConfigChange });
       
-      const speedSlider = screen.getByDisplayValue('2400');
-      fireEvent.change(speedSlider, { target: { value: '600' } });
+      const speedSlider = screen.getByLabelText('Speed (passes per minute)');
+      fireEvent.change(speedSlider, { target: { value: '90' } });
       
       expect(onConfigChange).toHaveBeenCalledWith(
         expect.objectContaining({
-          target: expect.objectContaining({ speedPxPerSec: 600 })
+          target: expect.objectContaining({ passesPerMin: 90 })
         })
       );
     });
 
-    it('displays BPM calculation', () => {
+    it('displays tempo in passes per minute', () => {
+      renderControls({ config: { target: { ...createDefaultConfig().target, passesPerMin: 45 } } });
+      expect(screen.getByText('45/min')).toBeDefined();
+    });
+
+    it('derives tempo from a legacy pixel speed', () => {
       renderControls({ 
         config: { 
           target: { 
@@ -160,7 +386,54 @@ describe('Controls', () => {
           } 
         } 
       });
-      expect(screen.getByText(/60 BPM/)).toBeDefined();
+      expect(screen.getByText('60/min')).toBeDefined();
+    });
+  });
+
+  describe('Visual angle units', () => {
+    it('only offers degrees once the screen is calibrated', () => {
+      renderControls();
+      const degrees = screen.getByText('Degrees') as HTMLOptionElement;
+      expect(degrees.disabled).toBe(true);
+      expect(screen.getByText('Calibrate')).toBeDefined();
+    });
+
+    it('opens the calibration dialog', () => {
+      renderControls();
+      fireEvent.click(screen.getByText('Calibrate'));
+      expect(screen.getByRole('dialog', { name: 'Screen calibration' })).toBeDefined();
+    });
+
+    it('stores degree defaults when switching units', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange, config: { calibration: { pxPerCm: 40, viewingDistanceCm: 57 } } });
+
+      fireEvent.change(screen.getByLabelText('Target units'), { target: { value: 'deg' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ units: 'deg', amplitudeDeg: 30, speedDegPerSec: 30 })
+        })
+      );
+    });
+
+    it('shows degree sliders in degree mode', () => {
+      const onConfigChange = vi.fn();
+      renderControls({
+        onConfigChange,
+        config: {
+          calibration: { pxPerCm: 40, viewingDistanceCm: 57 },
+          target: { ...createDefaultConfig().target, units: 'deg', sizeDeg: 1, amplitudeDeg: 20, speedDegPerSec: 40 },
+        },
+      });
+
+      expect(screen.getByText('20°')).toBeDefined();
+      fireEvent.change(screen.getByLabelText('Amplitude (degrees)'), { target: { value: '25' } });
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ amplitudeDeg: 25 })
+        })
+      );
     });
   });
 
@@ -193,6 +466,75 @@ describe('Controls', () => {
       );
     });
 
+    it('uploads a custom icon for the custom shape', async () => {
+      const onConfigChange = vi.fn();
+      renderControls({ config: { target: { shape: 'custom' } as any }, onConfigChange });
+
+      const file = new File(['<svg xmlns="http://www.w3.org/2000/svg"/>'], 'toy.svg', { type: 'image/svg+xml' });
+      fireEvent.change(screen.getByLabelText('Upload custom icon'), { target: { files: [file] } });
+
+      await waitFor(() => expect(onConfigChange).toHaveBeenCalled());
+      const target = onConfigChange.mock.calls[0][0].target;
+      expect(target.shape).toBe('custom');
+      expect(target.customIconUrl).toMatch(/^data:image\/svg\+xml/);
+      expect(target.customIconName).toBe('toy.svg');
+    });
+
+    it('previews the custom icon and clears it back to a circle', () => {
+      const onConfigChange = vi.fn();
+      renderControls({
+        config: { target: { shape: 'custom', customIconUrl: 'data:image/png;base64,AA==', customIconName: 'toy.png' } as any },
+        onConfigChange,
+      });
+
+      expect(screen.getByAltText('Custom icon preview').getAttribute('src')).toBe('data:image/png;base64,AA==');
+      fireEvent.click(screen.getByLabelText('Remove custom icon'));
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ shape: 'circle', customIconUrl: undefined, customIconName: undefined })
+        })
+      );
+    });
+
+    it('tints an uploaded icon with the target color', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ config: { target: { shape: 'custom', customIconUrl: 'data:image/png;base64,AA==' } as any }, onConfigChange });
+
+      fireEvent.click(screen.getByLabelText('Tint with color'));
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ customIconTint: true })
+        })
+      );
+    });
+
+    it('lists the registered shapes', () => {
+      renderControls();
+
+      const labels = Array.from((screen.getByDisplayValue('Circle') as HTMLSelectElement).options).map((o) => o.text);
+      expect(labels).toEqual(expect.arrayContaining(['Moon', 'Flower', 'Paw print', 'SVG path', 'Emoji', 'Custom icon']));
+    });
+
+    it('saves a valid custom SVG path and flags an invalid one', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ config: { target: { shape: 'path' } as any }, onConfigChange });
+      const input = screen.getByLabelText('SVG path data');
+
+      fireEvent.change(input, { target: { value: 'M0 0 L100 50 L0 100 Z' } });
+      expect(onConfigChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ customPath: 'M0 0 L100 50 L0 100 Z' })
+        })
+      );
+
+      onConfigChange.mockClear();
+      fireEvent.change(input, { target: { value: '<path d="M0 0"/>' } });
+      expect(onConfigChange).not.toHaveBeenCalled();
+      expect(screen.getByText(/Use path commands/)).toBeDefined();
+    });
+
     it('updates target rotation', () => {
       const onConfigChange = vi.fn();
       renderControls({ onConfigChange });
@@ -221,6 +563,34 @@ describe('Controls', () => {
       );
     });
 
+    it('updates motion path', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+      
+      const pathSelect = screen.getByDisplayValue('Horizontal');
+      fireEvent.change(pathSelect, { target: { value: 'figure-eight' } });
+      
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ path: 'figure-eight' })
+        })
+      );
+    });
+
+    it('updates easing profile', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+      
+      const easingSelect = screen.getByDisplayValue('Linear');
+      fireEvent.change(easingSelect, { target: { value: 'sine' } });
+      
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ easing: 'sine' })
+        })
+      );
+    });
+
     it('updates edge padding', () => {
       const onConfigChange = vi.fn();
       renderControls({ onConfigChange });
@@ -394,6 +764,13 @@ describe('Controls', () => {
       );
     });
 
+    it('lists the registered sounds plus continuous and file modes', () => {
+      renderControls();
+
+      const labels = Array.from((screen.getByDisplayValue('Click') as HTMLSelectElement).options).map((o) => o.text);
+      expect(labels).toEqual(['Click', 'Beep', 'Hiss', 'Chirp', 'Pulse', 'Continuous', 'Custom File']);
+    });
+
     it('shows waveform selector only for click mode', () => {
       renderControls({ config: { audio: { mode: 'click', volume: 0.8, muted: false, waveform: 'square' } } });
       expect(screen.getByText('Waveform')).toBeDefined();
@@ -519,4 +896,75 @@ describe('Controls', () => {
       expect(screen.queryByTitle('High volume')).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('Visual mode', () => {
+    it('switches to alternating flash', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ onConfigChange });
+
+      fireEvent.change(screen.getByLabelText('Visual mode'), { target: { value: 'flash' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ visualMode: 'flash' }),
+        })
+      );
+    });
+
+    it('hides path and easing in flash mode', () => {
+      renderControls({ config: { target: { visualMode: 'flash' } as any } });
+
+      expect(screen.queryByText('Path')).toBeNull();
+      expect(screen.queryByText('Easing')).toBeNull();
+    });
+
+    it('warns when the tempo is above the safe flash rate', () => {
+      renderControls({ config: { target: { visualMode: 'flash', passesPerMin: 150 } as any } });
+      expect(screen.getByText(/capped at 2 per second/)).toBeDefined();
+    });
+
+    it('does not warn at safe flash rates', () => {
+      renderControls({ config: { target: { visualMode: 'flash', passesPerMin: 90 } as any } });
+      expect(screen.queryByText(/capped at 2 per second/)).toBeNull();
+    });
+  });
+
+  describe('Light bar', () => {
+    const lightbarConfig = {
+      target: { visualMode: 'lightbar', lightbar: { lamps: 24, offColor: '#202224', fade: true } } as any,
+    };
+
+    it('sets the lamp count', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ config: lightbarConfig, onConfigChange });
+
+      fireEvent.change(screen.getByLabelText('Lamp count'), { target: { value: '12' } });
+
+      expect(onConfigChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          target: expect.objectContaining({ lightbar: { lamps: 12, offColor: '#202224', fade: true } }),
+        })
+      );
+    });
+
+    it('sets the unlit color and neighbour fading', () => {
+      const onConfigChange = vi.fn();
+      renderControls({ config: lightbarConfig, onConfigChange });
+
+      fireEvent.change(screen.getByLabelText('Unlit lamp color'), { target: { value: '#333333' } });
+      fireEvent.click(screen.getByLabelText('Fade neighbours'));
+
+      expect(onConfigChange.mock.calls[0][0].target.lightbar.offColor).toBe('#333333');
+      expect(onConfigChange.mock.calls[1][0].target.lightbar.fade).toBe(false);
+    });
+
+    it('labels the target color as the lamp color and hides shape options', () => {
+      renderControls({ config: lightbarConfig });
+
+      expect(screen.getByText('Lamp color')).toBeDefined();
+      expect(screen.queryByText('Shape')).toBeNull();
+      expect(screen.queryByText('Path')).toBeNull();
+      expect(screen.getByText('Easing')).toBeDefined();
+    });
+  });
+});
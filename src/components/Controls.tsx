@@ -1,11 +1,41 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import DurationPicker from './DurationPicker';
 import FileUpload from './FileUpload';
-import { AppConfig, PitchPreset, EMOJI_OPTIONS } from '../types';
+import IconUpload from './IconUpload';
+import CalibrationDialog from './CalibrationDialog';
+import LatencyCalibrator from './LatencyCalibrator';
+import PresetPicker, { PresetTools } from './PresetPicker';
+import SettingsTransfer from './SettingsTransfer';
+import ShareLink from './ShareLink';
+import SessionHistory from './SessionHistory';
+import PresentToggle from './PresentToggle';
+import RemoteSessionPanel from './RemoteSessionPanel';
+import type { DriftStats } from '../hooks/useAudioEngine';
+import type { PresentTools } from '../hooks/usePresentController';
+import type { RemoteTools } from '../hooks/useRemoteController';
+import { MAX_FLASHES_PER_SEC, speedForTempo, tempoFromLegacySpeed } from '../lib/motion';
+import { DEFAULTS } from '../lib/defaults';
+import { MAX_LATENCY_MS } from '../lib/latency';
+import { pxToDeg, tempoFromAngularSpeed } from '../lib/visualAngle';
+import { isValidPathData, listShapes } from '../lib/shapes';
+import { getSoundGenerator, listSoundGenerators } from '../lib/soundGenerators';
+import type { ProtocolState } from '../lib/protocol';
+import { AppConfig, AudioMode, ContinuousSound, FilePlayback, MotionEasing, MotionPath, PitchPreset, SessionMode, TargetUnits, VisualMode, EMOJI_OPTIONS } from '../types';
 
 type Props = {
   playing: boolean;
   remainingSec: number;
+  elapsedSec?: number;
+  passes?: number; // edge hits so far this session
+  drift?: DriftStats; // measured audio/visual edge drift
+  latencyTools?: {
+    estimate: () => Promise<number | null>; // browser-reported output latency
+    clickAt: (atMs: number) => void; // click at a performance.now() time for tap calibration
+  };
+  protocolPhase?: Pick<ProtocolState, 'phase' | 'setIndex'>; // present in protocol sessions
+  presets?: PresetTools;
+  present?: PresentTools; // second-window client display
+  remote?: RemoteTools; // client's browser driven over the relay
   onPlay: () => void;
   onStop: () => void;
   onReset: () => void;
@@ -15,11 +45,63 @@ type Props = {
 
 // Volume threshold for warning
 const VOLUME_WARNING_THRESHOLD = 0.7;
+// Manifest acceptance criterion for motion/audio sync
+const DRIFT_LIMIT_MS = 50;
 
-export default function Controls({ playing, remainingSec, onPlay, onStop, onReset, config, onConfigChange }: Props) {
-  const time = `${Math.floor(remainingSec / 60)}:${String(remainingSec % 60).padStart(2, '0')}`;
+function formatTime(sec: number): string {
+  return `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+}
+
+export default function Controls({ playing, remainingSec, elapsedSec = 0, passes = 0, drift, latencyTools, protocolPhase, presets, present, remote, onPlay, onStop, onReset, config, onConfigChange }: Props) {
+  const sessionMode = config.sessionMode ?? 'time';
+  const passCount = config.passCount ?? 24;
+  const protocol = config.protocol ?? DEFAULTS.protocol!;
+  const setProtocol = (patch: Partial<typeof protocol>) => onConfigChange({
+    ...config,
+    protocol: { ...protocol, ...patch },
+  });
+  const ratings = config.ratings ?? { sud: true, voc: false };
+  const setRatings = (patch: Partial<typeof ratings>) => onConfigChange({
+    ...config,
+    ratings: { ...ratings, ...patch },
+  });
+  const passesPerMin = config.target.passesPerMin ?? tempoFromLegacySpeed(config.target.speedPxPerSec);
+  const setTarget = (patch: Partial<AppConfig['target']>) => onConfigChange({
+    ...config,
+    target: { ...config.target, ...patch },
+  });
+  const useDegrees = config.target.units === 'deg' && !!config.calibration;
+  // Degree fields start from the current pixel settings so switching units doesn't jump
+  const sizeDeg = config.target.sizeDeg
+    ?? (config.calibration ? Math.round(pxToDeg(config.target.sizePx, config.calibration) * 10) / 10 : 1);
+  const amplitudeDeg = config.target.amplitudeDeg ?? 30;
+  const speedDegPerSec = config.target.speedDegPerSec
+    ?? Math.round(speedForTempo(amplitudeDeg, passesPerMin, config.target.edgePauseMs));
+  const visualMode = config.target.visualMode ?? 'motion';
+  const lighting = visualMode === 'lightbar';
+  const lightbar = config.target.lightbar ?? { lamps: 24, offColor: '#202224', fade: true };
+  const setLightbar = (patch: Partial<typeof lightbar>) => setTarget({ lightbar: { ...lightbar, ...patch } });
+  // Tempo the stage will be asked for; flash mode slows anything above its safe rate
+  const requestedTempo = useDegrees
+    ? tempoFromAngularSpeed(speedDegPerSec, amplitudeDeg, config.target.edgePauseMs)
+    : passesPerMin;
+  const flashCapped = visualMode === 'flash' && requestedTempo > MAX_FLASHES_PER_SEC * 60;
+  const time = formatTime(sessionMode === 'passes' ? elapsedSec : remainingSec);
   const showVolumeWarning = config.audio.volume > VOLUME_WARNING_THRESHOLD && !config.audio.muted;
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [pathDraft, setPathDraft] = useState(config.target.customPath ?? '');
+  // Follow path changes from presets and imports without clobbering an unfinished draft
+  useEffect(() => {
+    const saved = config.target.customPath ?? '';
+    setPathDraft((draft) => (draft.trim() === saved ? draft : saved));
+  }, [config.target.customPath]);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showLatencyTest, setShowLatencyTest] = useState(false);
+  const latencyOffsetMs = config.audio.latencyOffsetMs ?? 0;
+  const setLatency = (ms: number) => onConfigChange({
+    ...config,
+    audio: { ...config.audio, latencyOffsetMs: Math.max(0, Math.min(MAX_LATENCY_MS, Math.round(ms))) },
+  });
 
   return (
     <div className="controls" role="region" aria-label="Session controls">
@@ -35,84 +117,269 @@ export default function Controls({ playing, remainingSec, onPlay, onStop, onRese
           <button className="btn" onClick={onReset} aria-label="Reset session (Esc)">↺ Reset</button>
         </div>
         <div className="row">
-          <span className="label">Remaining</span>
+          <span className="label">{sessionMode === 'passes' ? 'Elapsed' : 'Remaining'}</span>
           <span className="time" aria-live="polite">{time}</span>
+          <span className="label">Sets</span>
+          <span className="time set-counter" aria-label="Set counter">
+            {sessionMode === 'passes' ? `${passes}/${passCount}` : passes}
+          </span>
+          {drift && drift.samples > 0 && (
+            <span
+              className={`drift ${drift.maxAbsMs > DRIFT_LIMIT_MS ? 'warning' : ''}`}
+              aria-label="Audio visual drift"
+              title={`Mean ${Math.round(drift.meanAbsMs)} ms over ${drift.samples} edges`}
+            >
+              A/V {Math.round(drift.lastMs ?? 0)} ms · max {Math.round(drift.maxAbsMs)} ms
+            </span>
+          )}
+          {protocolPhase && (
+            <span className="phase-indicator" aria-live="polite" aria-label="Protocol phase">
+              Set {protocolPhase.setIndex} of {protocol.sets}
+              {protocolPhase.phase === 'rest' && ' · Rest'}
+            </span>
+          )}
+        </div>
+        <label className="row">
+          <span className="label">Session</span>
+          <select
+            className="select"
+            value={sessionMode}
+            onChange={(e) => onConfigChange({ ...config, sessionMode: e.target.value as SessionMode })}
+          >
+            <option value="time">Timed</option>
+            <option value="passes">Pass count</option>
+            <option value="protocol">Protocol</option>
+          </select>
+        </label>
+        {sessionMode === 'protocol' && (
+          <div className="row" role="group" aria-label="Protocol settings">
+            <label className="row">
+              <span className="label">Sets</span>
+              <input
+                className="input input-number"
+                type="number"
+                min={1}
+                max={50}
+                value={protocol.sets}
+                onChange={(e) => setProtocol({ sets: Math.max(1, Math.min(50, parseInt(e.target.value, 10) || 1)) })}
+              />
+            </label>
+            <label className="row">
+              <span className="label">Set length</span>
+              <input
+                className="input input-number"
+                type="number"
+                min={5}
+                max={300}
+                step={5}
+                value={protocol.setSec}
+                onChange={(e) => setProtocol({ setSec: Math.max(5, Math.min(300, parseInt(e.target.value, 10) || 5)) })}
+              />
+              <span className="value">s</span>
+            </label>
+            <label className="row">
+              <span className="label">Rest</span>
+              <input
+                className="input input-number"
+                type="number"
+                min={0}
+                max={300}
+                step={5}
+                value={protocol.restSec}
+                onChange={(e) => setProtocol({ restSec: Math.max(0, Math.min(300, parseInt(e.target.value, 10) || 0)) })}
+              />
+              <span className="value">s</span>
+            </label>
+          </div>
+        )}
+        {sessionMode === 'protocol' ? null : sessionMode === 'passes' ? (
+          <label className="row">
+            <span className="label">Passes</span>
+            <input
+              className="input input-number"
+              type="number"
+              min={1}
+              max={200}
+              value={passCount}
+              onChange={(e) => onConfigChange({
+                ...config,
+                passCount: Math.max(1, Math.min(200, parseInt(e.target.value, 10) || 1)),
+              })}
+            />
+          </label>
+        ) : (
+          <DurationPicker
+            value={config.durationSec}
+            onChange={(sec) => onConfigChange({ ...config, durationSec: sec })}
+          />
+        )}
+        <div className="row" role="group" aria-label="Ratings after each set">
+          <label className="row control-item-checkbox">
+            <input type="checkbox" checked={ratings.sud} onChange={(e) => setRatings({ sud: e.target.checked })} />
+            <span className="label">Ask SUD</span>
+          </label>
+          <label className="row control-item-checkbox">
+            <input type="checkbox" checked={ratings.voc} onChange={(e) => setRatings({ voc: e.target.checked })} />
+            <span className="label">Ask VOC</span>
+          </label>
         </div>
-        <DurationPicker
-          value={config.durationSec}
-          onChange={(sec) => onConfigChange({ ...config, durationSec: sec })}
-        />
       </div>
 
+      <div className="controls-row">
+        {presets && <PresetPicker {...presets} />}
+        <SettingsTransfer config={config} onImport={onConfigChange} />
+        <ShareLink config={config} />
+        <SessionHistory />
+        {present && <PresentToggle {...present} />}
+      </div>
+      {remote && (
+        <div className="controls-row">
+          <RemoteSessionPanel {...remote} />
+        </div>
+      )}
+
       {/* Visual Settings Section */}
       <fieldset className="controls-section">
         <legend className="section-legend">Visual</legend>
         <div className="controls-grid">
           <label className="control-item">
-            <span className="label">Shape</span>
+            <span className="label">Mode</span>
             <select
               className="select"
-              value={config.target.shape ?? 'circle'}
-              onChange={(e) => onConfigChange({
-                ...config,
-                target: { ...config.target, shape: e.target.value as any },
-              })}
+              value={visualMode}
+              onChange={(e) => setTarget({ visualMode: e.target.value as VisualMode })}
+              aria-label="Visual mode"
             >
-              <option value="circle">Circle</option>
-              <option value="square">Square</option>
-              <option value="diamond">Diamond</option>
-              <option value="smiley">Smiley</option>
-              <option value="triangle">Triangle</option>
-              <option value="star">Star</option>
-              <option value="hexagon">Hexagon</option>
-              <option value="ring">Ring</option>
-              <option value="bullseye">Bullseye</option>
-              <option value="cross">Cross</option>
-              <option value="heart">Heart</option>
-              <option value="emoji">Emoji</option>
+              <option value="motion">Moving target</option>
+              <option value="flash">Alternating flash</option>
+              <option value="lightbar">Light bar</option>
             </select>
+            {flashCapped && (
+              <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+                Flashes are capped at {MAX_FLASHES_PER_SEC} per second ({MAX_FLASHES_PER_SEC * 60}/min) for photosensitivity safety.
+              </span>
+            )}
           </label>
 
-          {config.target.shape === 'emoji' && (
-            <div className="control-item">
-              <span className="label">Emoji</span>
-              <div className="emoji-picker-container">
-                <button
-                  type="button"
-                  className="btn emoji-btn"
-                  onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                  aria-label="Choose emoji"
-                >
-                  {config.target.emoji || '🔵'}
-                </button>
-                {showEmojiPicker && (
-                  <div className="emoji-picker" role="listbox" aria-label="Emoji options">
-                    {EMOJI_OPTIONS.map((em) => (
-                      <button
-                        key={em}
-                        type="button"
-                        className={`emoji-option ${config.target.emoji === em ? 'selected' : ''}`}
-                        onClick={() => {
-                          onConfigChange({
-                            ...config,
-                            target: { ...config.target, emoji: em },
-                          });
-                          setShowEmojiPicker(false);
-                        }}
-                        role="option"
-                        aria-selected={config.target.emoji === em}
-                      >
-                        {em}
-                      </button>
-                    ))}
-                  </div>
+          {/* Light bar lamps are always round */}
+          {!lighting && (
+            <>
+            <label className="control-item">
+              <span className="label">Shape</span>
+              <select
+                className="select"
+                value={config.target.shape ?? 'circle'}
+                onChange={(e) => onConfigChange({
+                  ...config,
+                  target: { ...config.target, shape: e.target.value as AppConfig['target']['shape'] },
+                })}
+              >
+                {listShapes().map((shape) => (
+                  <option key={shape.id} value={shape.id}>{shape.label}</option>
+                ))}
+                <option value="emoji">Emoji</option>
+                <option value="custom">Custom icon</option>
+              </select>
+            </label>
+
+            {config.target.shape === 'path' && (
+              <label className="control-item control-item-wide">
+                <span className="label">SVG path (100×100 box)</span>
+                <input
+                  className="input"
+                  aria-label="SVG path data"
+                  placeholder="M50 10 L90 90 L10 90 Z"
+                  value={pathDraft}
+                  onChange={(e) => {
+                    setPathDraft(e.target.value);
+                    // Only well-formed path data reaches the config; the draft keeps what's typed
+                    const d = e.target.value.trim();
+                    if (d === '' || isValidPathData(d)) {
+                      onConfigChange({ ...config, target: { ...config.target, customPath: d || undefined } });
+                    }
+                  }}
+                />
+                {pathDraft.trim() !== '' && !isValidPathData(pathDraft.trim()) && (
+                  <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+                    Use path commands (M, L, C, A, Z…) and numbers only, starting with M.
+                  </span>
                 )}
+              </label>
+            )}
+
+            {config.target.shape === 'emoji' && (
+              <div className="control-item">
+                <span className="label">Emoji</span>
+                <div className="emoji-picker-container">
+                  <button
+                    type="button"
+                    className="btn emoji-btn"
+                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                    aria-label="Choose emoji"
+                  >
+                    {config.target.emoji || '🔵'}
+                  </button>
+                  {showEmojiPicker && (
+                    <div className="emoji-picker" role="listbox" aria-label="Emoji options">
+                      {EMOJI_OPTIONS.map((em) => (
+                        <button
+                          key={em}
+                          type="button"
+                          className={`emoji-option ${config.target.emoji === em ? 'selected' : ''}`}
+                          onClick={() => {
+                            onConfigChange({
+                              ...config,
+                              target: { ...config.target, emoji: em },
+                            });
+                            setShowEmojiPicker(false);
+                          }}
+                          role="option"
+                          aria-selected={config.target.emoji === em}
+                        >
+                          {em}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
+
+            {config.target.shape === 'custom' && (
+              <div className="control-item control-item-wide">
+                <span className="label">Icon</span>
+                {/* Clearing the icon goes back to the default circle */}
+                <IconUpload
+                  onIconSelect={(dataUrl, fileName) => onConfigChange({
+                    ...config,
+                    target: dataUrl
+                      ? { ...config.target, customIconUrl: dataUrl, customIconName: fileName }
+                      : { ...config.target, shape: 'circle', customIconUrl: undefined, customIconName: undefined },
+                  })}
+                  currentFileName={config.target.customIconName}
+                  currentIconUrl={config.target.customIconUrl}
+                />
+              </div>
+            )}
+
+            {config.target.shape === 'custom' && config.target.customIconUrl && (
+              <label className="control-item control-item-checkbox">
+                <input
+                  type="checkbox"
+                  checked={config.target.customIconTint ?? false}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    target: { ...config.target, customIconTint: e.target.checked },
+                  })}
+                />
+                <span className="label">Tint with color</span>
+              </label>
+            )}
+            </>
           )}
 
           <label className="control-item">
-            <span className="label">Color</span>
+            <span className="label">{lighting ? 'Lamp color' : 'Color'}</span>
             <input
               type="color"
               value={config.target.color}
@@ -123,55 +390,222 @@ export default function Controls({ playing, remainingSec, onPlay, onStop, onRese
             />
           </label>
 
-          <label className="control-item">
-            <span className="label">Size</span>
-            <div className="range-with-value">
+          {lighting && (
+            <>
+              <label className="control-item">
+                <span className="label">Unlit color</span>
+                <input
+                  type="color"
+                  value={lightbar.offColor}
+                  aria-label="Unlit lamp color"
+                  onChange={(e) => setLightbar({ offColor: e.target.value })}
+                />
+              </label>
+
+              <label className="control-item">
+                <span className="label">Lamps</span>
+                <div className="range-with-value">
+                  <input
+                    className="input"
+                    type="range"
+                    min={3}
+                    max={60}
+                    step={1}
+                    value={lightbar.lamps}
+                    aria-label="Lamp count"
+                    onChange={(e) => setLightbar({ lamps: parseInt(e.target.value, 10) })}
+                  />
+                  <span className="value">{lightbar.lamps}</span>
+                </div>
+              </label>
+
+              <label className="control-item control-item-checkbox">
+                <input
+                  type="checkbox"
+                  checked={lightbar.fade}
+                  onChange={(e) => setLightbar({ fade: e.target.checked })}
+                />
+                <span className="label">Fade neighbours</span>
+              </label>
+            </>
+          )}
+
+          <div className="control-item">
+            <span className="label">Units</span>
+            <div className="row" style={{ gap: 6 }}>
+              <select
+                className="select"
+                value={useDegrees ? 'deg' : 'px'}
+                onChange={(e) => {
+                  const units = e.target.value as TargetUnits;
+                  // Persist the displayed degree values so the stage matches the sliders
+                  setTarget(units === 'deg' ? { units, sizeDeg, amplitudeDeg, speedDegPerSec } : { units });
+                }}
+                aria-label="Target units"
+              >
+                <option value="px">Pixels</option>
+                <option value="deg" disabled={!config.calibration}>Degrees</option>
+              </select>
+              <button
+                type="button"
+                className="btn"
+                onClick={() => setShowCalibration(true)}
+                style={{ fontSize: '12px', padding: '4px 8px' }}
+              >
+                {config.calibration ? 'Recalibrate' : 'Calibrate'}
+              </button>
+            </div>
+          </div>
+
+          {useDegrees ? (
+            <>
+              <label className="control-item">
+                <span className="label">Size</span>
+                <div className="range-with-value">
+                  <input
+                    className="input"
+                    type="range"
+                    min={0.2}
+                    max={5}
+                    step={0.1}
+                    value={sizeDeg}
+                    aria-label="Size (degrees)"
+                    onChange={(e) => setTarget({ sizeDeg: parseFloat(e.target.value) })}
+                  />
+                  <span className="value">{sizeDeg.toFixed(1)}°</span>
+                </div>
+              </label>
+
+              <label className="control-item">
+                <span className="label">Amplitude</span>
+                <div className="range-with-value">
+                  <input
+                    className="input"
+                    type="range"
+                    min={5}
+                    max={60}
+                    step={1}
+                    value={amplitudeDeg}
+                    aria-label="Amplitude (degrees)"
+                    onChange={(e) => setTarget({ amplitudeDeg: parseInt(e.target.value, 10) })}
+                  />
+                  <span className="value">{amplitudeDeg}°</span>
+                </div>
+              </label>
+
+              <label className="control-item">
+                <span className="label">Speed</span>
+                <div className="range-with-value">
+                  <input
+                    className="input"
+                    type="range"
+                    min={5}
+                    max={120}
+                    step={1}
+                    value={speedDegPerSec}
+                    aria-label="Speed (degrees per second)"
+                    onChange={(e) => setTarget({ speedDegPerSec: parseInt(e.target.value, 10) })}
+                  />
+                  <span className="value">{speedDegPerSec}°/s</span>
+                </div>
+              </label>
+            </>
+          ) : (
+            <>
+            <label className="control-item">
+              <span className="label">Size</span>
+              <div className="range-with-value">
+                <input
+                  className="input"
+                  type="range"
+                  min={8}
+                  max={120}
+                  step={1}
+                  value={config.target.sizePx}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    target: { ...config.target, sizePx: parseInt(e.target.value, 10) || 0 },
+                  })}
+                />
+                <span className="value">{config.target.sizePx}px</span>
+              </div>
+            </label>
+
+            <label className="control-item">
+              <span className="label">Speed</span>
+              <div className="range-with-value">
+                <input
+                  className="input"
+                  type="range"
+                  min={10}
+                  max={180}
+                  step={1}
+                  value={passesPerMin}
+                  aria-label="Speed (passes per minute)"
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    target: { ...config.target, passesPerMin: parseInt(e.target.value, 10) },
+                  })}
+                />
+                <span className="value" title={`${(passesPerMin / 120).toFixed(2)} Hz round trips`}>{passesPerMin}/min</span>
+              </div>
+            </label>
+            </>
+          )}
+
+          {!lighting && (
+            <label className="control-item control-item-checkbox">
               <input
-                className="input"
-                type="range"
-                min={8}
-                max={120}
-                step={1}
-                value={config.target.sizePx}
+                type="checkbox"
+                checked={config.target.rotate ?? false}
                 onChange={(e) => onConfigChange({
                   ...config,
-                  target: { ...config.target, sizePx: parseInt(e.target.value, 10) || 0 },
+                  target: { ...config.target, rotate: e.target.checked },
                 })}
               />
-              <span className="value">{config.target.sizePx}px</span>
-            </div>
-          </label>
+              <span className="label">Rotate</span>
+            </label>
+          )}
 
-          <label className="control-item">
-            <span className="label">Speed</span>
-            <div className="range-with-value">
-              <input
-                className="input"
-                type="range"
-                min={60}
-                max={2400}
-                step={50}
-                value={config.target.speedPxPerSec}
+          {/* Only the moving target follows a path; a flash has no travel to ease */}
+          {visualMode === 'motion' && (
+            <label className="control-item">
+              <span className="label">Path</span>
+              <select
+                className="select"
+                value={config.target.path ?? 'horizontal'}
                 onChange={(e) => onConfigChange({
                   ...config,
-                  target: { ...config.target, speedPxPerSec: parseInt(e.target.value, 10) },
+                  target: { ...config.target, path: e.target.value as MotionPath },
                 })}
-              />
-              <span className="value">~{Math.round((config.target.speedPxPerSec / 2400) * 60)} BPM</span>
-            </div>
-          </label>
+              >
+                <option value="horizontal">Horizontal</option>
+                <option value="vertical">Vertical</option>
+                <option value="diagonal-down">Diagonal ↘</option>
+                <option value="diagonal-up">Diagonal ↗</option>
+                <option value="circle">Circle</option>
+                <option value="figure-eight">Figure eight</option>
+              </select>
+            </label>
+          )}
 
-          <label className="control-item control-item-checkbox">
-            <input
-              type="checkbox"
-              checked={config.target.rotate ?? false}
-              onChange={(e) => onConfigChange({
-                ...config,
-                target: { ...config.target, rotate: e.target.checked },
-              })}
-            />
-            <span className="label">Rotate</span>
-          </label>
+          {visualMode !== 'flash' && (
+            <label className="control-item">
+              <span className="label">Easing</span>
+              <select
+                className="select"
+                value={config.target.easing ?? 'linear'}
+                onChange={(e) => onConfigChange({
+                  ...config,
+                  target: { ...config.target, easing: e.target.value as MotionEasing },
+                })}
+              >
+                <option value="linear">Linear</option>
+                <option value="sine">Sine</option>
+                <option value="ease-in-out">Ease in-out</option>
+              </select>
+            </label>
+          )}
 
           <label className="control-item">
             <span className="label">Start</span>
@@ -270,18 +704,35 @@ export default function Controls({ playing, remainingSec, onPlay, onStop, onRese
             <select
               className="select"
               value={config.audio.mode}
-              onChange={(e) => onConfigChange({ ...config, audio: { ...config.audio, mode: e.target.value as any } })}
+              onChange={(e) => onConfigChange({ ...config, audio: { ...config.audio, mode: e.target.value as AudioMode } })}
             >
-              <option value="click">Click</option>
-              <option value="beep">Beep</option>
-              <option value="hiss">Hiss</option>
-              <option value="chirp">Chirp</option>
-              <option value="pulse">Pulse</option>
+              {listSoundGenerators().map((sound) => (
+                <option key={sound.id} value={sound.id}>{sound.label}</option>
+              ))}
+              <option value="continuous">Continuous</option>
               <option value="file">Custom File</option>
             </select>
           </label>
 
-          {config.audio.mode === 'click' && (
+          {config.audio.mode === 'continuous' && (
+            <label className="control-item">
+              <span className="label">Bed</span>
+              <select
+                className="select"
+                value={config.audio.continuousSound ?? 'tone'}
+                onChange={(e) => onConfigChange({
+                  ...config,
+                  audio: { ...config.audio, continuousSound: e.target.value as ContinuousSound },
+                })}
+              >
+                <option value="tone">Tone</option>
+                <option value="noise">Noise</option>
+              </select>
+            </label>
+          )}
+
+          {(getSoundGenerator(config.audio.mode)?.usesWaveform
+            || (config.audio.mode === 'continuous' && (config.audio.continuousSound ?? 'tone') === 'tone')) && (
             <label className="control-item">
               <span className="label">Waveform</span>
               <select
@@ -354,16 +805,75 @@ export default function Controls({ playing, remainingSec, onPlay, onStop, onRese
             </div>
           </label>
 
+          <div className="control-item">
+            <span className="label">Latency offset</span>
+            <div className="range-with-value">
+              <input
+                className="input input-number"
+                type="number"
+                min={0}
+                max={MAX_LATENCY_MS}
+                step={5}
+                value={latencyOffsetMs}
+                aria-label="Latency offset (ms)"
+                onChange={(e) => setLatency(parseInt(e.target.value, 10) || 0)}
+              />
+              <span className="value">ms</span>
+            </div>
+            {latencyTools && (
+              <div className="row" style={{ gap: 6 }}>
+                <button
+                  type="button"
+                  className="btn"
+                  style={{ fontSize: '12px', padding: '4px 8px' }}
+                  onClick={async () => {
+                    const ms = await latencyTools.estimate();
+                    if (ms !== null) setLatency(ms);
+                  }}
+                >
+                  Auto
+                </button>
+                <button
+                  type="button"
+                  className="btn"
+                  style={{ fontSize: '12px', padding: '4px 8px' }}
+                  onClick={() => setShowLatencyTest(true)}
+                >
+                  Tap test
+                </button>
+              </div>
+            )}
+          </div>
+
+          {config.audio.mode === 'file' && (
+            <label className="control-item">
+              <span className="label">Playback</span>
+              <select
+                className="select"
+                value={config.audio.filePlayback ?? 'fit-pass'}
+                onChange={(e) => onConfigChange({
+                  ...config,
+                  audio: { ...config.audio, filePlayback: e.target.value as FilePlayback },
+                })}
+              >
+                <option value="one-shot">Whole file per edge</option>
+                <option value="fit-pass">Fit to pass</option>
+                <option value="loop">Continuous loop</option>
+              </select>
+            </label>
+          )}
+
           {config.audio.mode === 'file' && (
             <label className="control-item control-item-wide">
               <span className="label">Sound file</span>
               <FileUpload
-                onFileSelect={(fileUrl, fileName) => onConfigChange({
+                onFileSelect={(fileUrl, fileName, fileId) => onConfigChange({
                   ...config,
-                  audio: { ...config.audio, fileUrl, fileName }
+                  audio: { ...config.audio, fileUrl, fileName, fileId }
                 })}
                 currentFileName={config.audio.fileName}
                 currentFileUrl={config.audio.fileUrl}
+                currentFileId={config.audio.fileId}
                 accept="audio/*"
               />
             </label>
@@ -371,9 +881,31 @@ export default function Controls({ playing, remainingSec, onPlay, onStop, onRese
         </div>
       </fieldset>
 
+      {showCalibration && (
+        <CalibrationDialog
+          calibration={config.calibration}
+          onCancel={() => setShowCalibration(false)}
+          onSave={(calibration) => {
+            onConfigChange({ ...config, calibration });
+            setShowCalibration(false);
+          }}
+        />
+      )}
+
+      {showLatencyTest && latencyTools && (
+        <LatencyCalibrator
+          clickAt={latencyTools.clickAt}
+          onCancel={() => setShowLatencyTest(false)}
+          onResult={(ms) => {
+            setLatency(ms);
+            setShowLatencyTest(false);
+          }}
+        />
+      )}
+
       {/* Keyboard shortcut hint */}
       <div className="controls-hint">
-        <span className="hint">Space: play/stop · Esc: reset</span>
+        <span className="hint">Space: play/stop · Esc: stop &amp; reset (ends protocol)</span>
       </div>
     </div>
   );
@@ -7,16 +7,23 @@ import FileUpload from './FileUpload';
 vi.mock('../lib/audioUtils', () => ({
   isValidAudioFile: vi.fn(),
   revokeFileUrl: vi.fn(),
+  readAudioDuration: vi.fn(() => Promise.resolve(3.2)),
+  formatFileSize: vi.fn((bytes: number) => `${bytes} Bytes`),
 }));
 
-// Mock the storage module
-vi.mock('../lib/storage', () => ({
-  saveCustomAudio: vi.fn(),
-  clearCustomAudio: vi.fn(),
+// Mock the IndexedDB audio library
+vi.mock('../lib/audioLibrary', () => ({
+  listSounds: vi.fn(() => Promise.resolve([])),
+  addSound: vi.fn(),
+  loadSound: vi.fn(),
+  renameSound: vi.fn(),
+  deleteSound: vi.fn(() => Promise.resolve()),
 }));
 
 import { isValidAudioFile, revokeFileUrl } from '../lib/audioUtils';
-import { saveCustomAudio, clearCustomAudio } from '../lib/storage';
+import { addSound, deleteSound, listSounds, loadSound, renameSound } from '../lib/audioLibrary';
+
+const savedItem = { id: 'snd-1', name: 'test.mp3', mimeType: 'audio/mpeg', sizeBytes: 13, durationSec: 3.2, savedAt: 1 };
 
 // Mock URL.createObjectURL (kept for blob URL revocation tests)
 Object.defineProperty(URL, 'createObjectURL', {
@@ -91,10 +98,7 @@ describe('FileUpload', () => {
   it('calls onFileSelect with valid audio file', async () => {
     const onFileSelect = vi.fn();
     (isValidAudioFile as any).mockReturnValue(true);
-    (saveCustomAudio as any).mockResolvedValue({ 
-      success: true, 
-      dataUrl: 'data:audio/mpeg;base64,dGVzdA==' 
-    });
+    (addSound as any).mockResolvedValue(savedItem);
     
     render(<FileUpload {...defaultProps} onFileSelect={onFileSelect} />);
     
@@ -106,8 +110,8 @@ describe('FileUpload', () => {
     expect(isValidAudioFile).toHaveBeenCalledWith(file);
     
     await waitFor(() => {
-      expect(saveCustomAudio).toHaveBeenCalledWith(file);
-      expect(onFileSelect).toHaveBeenCalledWith('data:audio/mpeg;base64,dGVzdA==', 'test.mp3');
+      expect(addSound).toHaveBeenCalledWith(file, 'test.mp3', 3.2);
+      expect(onFileSelect).toHaveBeenCalledWith('blob:mock-url', 'test.mp3', 'snd-1');
     });
   });
 
@@ -127,16 +131,13 @@ describe('FileUpload', () => {
       expect(screen.getByText('Please select a valid audio file.')).toBeDefined();
     });
     
-    expect(saveCustomAudio).not.toHaveBeenCalled();
+    expect(addSound).not.toHaveBeenCalled();
   });
 
   it('revokes previous blob URL when new file is selected', async () => {
     const onFileSelect = vi.fn();
     (isValidAudioFile as any).mockReturnValue(true);
-    (saveCustomAudio as any).mockResolvedValue({ 
-      success: true, 
-      dataUrl: 'data:audio/mpeg;base64,dGVzdA==' 
-    });
+    (addSound as any).mockResolvedValue(savedItem);
     
     render(
       <FileUpload 
@@ -151,12 +152,11 @@ describe('FileUpload', () => {
     
     fireEvent.change(fileInput, { target: { files: [file] } });
     
-    expect(revokeFileUrl).toHaveBeenCalledWith('blob:previous-url');
-    
     // Wait for async operation to complete
     await waitFor(() => {
       expect(onFileSelect).toHaveBeenCalled();
     });
+    expect(revokeFileUrl).toHaveBeenCalledWith('blob:previous-url');
   });
 
   it('calls onFileSelect with empty values when clear is clicked', () => {
@@ -175,7 +175,8 @@ describe('FileUpload', () => {
     fireEvent.click(clearButton);
     
     expect(revokeFileUrl).toHaveBeenCalledWith('blob:test-url');
-    expect(clearCustomAudio).toHaveBeenCalled();
+    // Clearing only deselects; the sound stays in the library
+    expect(deleteSound).not.toHaveBeenCalled();
     expect(onFileSelect).toHaveBeenCalledWith('', '');
   });
 
@@ -258,4 +259,91 @@ describe('FileUpload', () => {
     const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
     expect(fileInput.getAttribute('aria-label')).toBe('Upload audio file');
   });
-});
\ No newline at end of file
+
+  it('shows an inline error when the library cannot store the file', async () => {
+    (isValidAudioFile as any).mockReturnValue(true);
+    (addSound as any).mockRejectedValue(new Error('QuotaExceededError'));
+
+    render(<FileUpload {...defaultProps} />);
+
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(fileInput, { target: { files: [new File(['a'], 'big.wav', { type: 'audio/wav' })] } });
+
+    expect(await screen.findByText(/Failed to save audio file: QuotaExceededError/)).toBeDefined();
+    expect(defaultProps.onFileSelect).not.toHaveBeenCalled();
+  });
+
+  describe('library', () => {
+    const sounds = [
+      savedItem,
+      { id: 'snd-2', name: 'rain.wav', mimeType: 'audio/wav', sizeBytes: 2048, savedAt: 0 },
+    ];
+
+    beforeEach(() => {
+      (listSounds as any).mockResolvedValue(sounds);
+    });
+
+    it('lists stored sounds with size and duration', async () => {
+      render(<FileUpload {...defaultProps} />);
+
+      expect(await screen.findByText('test.mp3 (13 Bytes · 3.2 s)')).toBeDefined();
+      expect(screen.getByText('rain.wav (2048 Bytes)')).toBeDefined();
+    });
+
+    it('picks a stored sound', async () => {
+      const onFileSelect = vi.fn();
+      const blob = new Blob(['rain']);
+      (loadSound as any).mockResolvedValue({ ...sounds[1], blob });
+
+      render(<FileUpload onFileSelect={onFileSelect} currentFileUrl="blob:previous-url" />);
+      fireEvent.change(await screen.findByLabelText('Audio library'), { target: { value: 'snd-2' } });
+
+      await waitFor(() => {
+        expect(onFileSelect).toHaveBeenCalledWith('blob:mock-url', 'rain.wav', 'snd-2');
+      });
+      expect(loadSound).toHaveBeenCalledWith('snd-2');
+      expect(URL.createObjectURL).toHaveBeenCalledWith(blob);
+      expect(revokeFileUrl).toHaveBeenCalledWith('blob:previous-url');
+    });
+
+    it('renames the selected sound', async () => {
+      const onFileSelect = vi.fn();
+      (renameSound as any).mockResolvedValue({ ...savedItem, name: 'Soft chime' });
+
+      render(
+        <FileUpload onFileSelect={onFileSelect} currentFileId="snd-1" currentFileName="test.mp3" currentFileUrl="blob:test-url" />
+      );
+      fireEvent.click(screen.getByText('Rename'));
+      fireEvent.change(screen.getByLabelText('Sound name'), { target: { value: '  Soft chime ' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(onFileSelect).toHaveBeenCalledWith('blob:test-url', 'Soft chime', 'snd-1');
+      });
+      expect(renameSound).toHaveBeenCalledWith('snd-1', 'Soft chime');
+    });
+
+    it('deletes the selected sound and deselects it', async () => {
+      const onFileSelect = vi.fn();
+
+      render(
+        <FileUpload onFileSelect={onFileSelect} currentFileId="snd-1" currentFileName="test.mp3" currentFileUrl="blob:test-url" />
+      );
+      fireEvent.click(screen.getByText('Delete'));
+
+      await waitFor(() => {
+        expect(onFileSelect).toHaveBeenCalledWith('', '');
+      });
+      expect(deleteSound).toHaveBeenCalledWith('snd-1');
+      expect(revokeFileUrl).toHaveBeenCalledWith('blob:test-url');
+    });
+
+    it('hides rename and delete for files not stored in the library', async () => {
+      render(<FileUpload {...defaultProps} currentFileName="test.mp3" currentFileUrl="blob:test-url" />);
+      await screen.findByLabelText('Audio library');
+
+      expect(screen.queryByText('Rename')).toBeNull();
+      expect(screen.queryByText('Delete')).toBeNull();
+    });
+  });
+});
@@ -1,18 +1,50 @@
-import React, { useCallback, useRef, useState } from 'react';
-import { isValidAudioFile, revokeFileUrl } from '../lib/audioUtils';
-import { saveCustomAudio, clearCustomAudio } from '../lib/storage';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { formatFileSize, isValidAudioFile, readAudioDuration, revokeFileUrl } from '../lib/audioUtils';
+import { AudioLibraryItem, addSound, deleteSound, listSounds, loadSound, renameSound } from '../lib/audioLibrary';
 
 type Props = {
-  onFileSelect: (fileUrl: string, fileName: string) => void;
+  onFileSelect: (fileUrl: string, fileName: string, fileId?: string) => void;
   currentFileName?: string;
   currentFileUrl?: string;
+  currentFileId?: string;
   accept?: string;
 };
 
-export default function FileUpload({ onFileSelect, currentFileName, currentFileUrl, accept = "audio/*" }: Props) {
+const smallBtn: React.CSSProperties = { fontSize: '12px', padding: '4px 8px' };
+
+function describeSound(sound: AudioLibraryItem): string {
+  const details = [formatFileSize(sound.sizeBytes)];
+  if (sound.durationSec !== undefined) details.push(`${sound.durationSec.toFixed(1)} s`);
+  return `${sound.name} (${details.join(' · ')})`;
+}
+
+export default function FileUpload({ onFileSelect, currentFileName, currentFileUrl, currentFileId, accept = "audio/*" }: Props) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sounds, setSounds] = useState<AudioLibraryItem[]>([]);
+  const [renameDraft, setRenameDraft] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    let next: AudioLibraryItem[] = [];
+    try {
+      next = await listSounds();
+    } catch {
+      // No IndexedDB (or it failed); uploads still work for this session
+    }
+    // Keep the old array when nothing changed so refreshing doesn't re-render
+    setSounds((prev) => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Revoke the previous blob URL before handing out a new one
+  const select = useCallback((blob: Blob, name: string, id: string) => {
+    revokeFileUrl(currentFileUrl ?? '');
+    onFileSelect(URL.createObjectURL(blob), name, id);
+  }, [onFileSelect, currentFileUrl]);
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -27,36 +59,72 @@ export default function FileUpload({ onFileSelect, currentFileName, currentFileU
     setIsLoading(true);
     setError(null);
 
-    // Revoke previous blob URL to prevent memory leaks
-    if (currentFileUrl && currentFileUrl.startsWith('blob:')) {
-      revokeFileUrl(currentFileUrl);
-    }
-
-    // Save to localStorage and get data URL
-    const result = await saveCustomAudio(file);
-    
-    setIsLoading(false);
-    
-    if (result.success && result.dataUrl) {
-      onFileSelect(result.dataUrl, file.name);
-    } else {
-      setError(result.error || 'Failed to save audio file');
+    try {
+      const durationSec = await readAudioDuration(file);
+      const item = await addSound(file, file.name, durationSec);
+      select(file, item.name, item.id);
+      await refresh();
+    } catch (e) {
+      setError(`Failed to save audio file: ${e instanceof Error ? e.message : 'storage error'}`);
+    } finally {
+      setIsLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
     }
-  }, [onFileSelect, currentFileUrl]);
+  }, [select, refresh]);
 
   const handleClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleClear = useCallback(() => {
-    // Revoke blob URL if it's a blob
-    if (currentFileUrl && currentFileUrl.startsWith('blob:')) {
-      revokeFileUrl(currentFileUrl);
+  const handlePick = useCallback(async (id: string) => {
+    setError(null);
+    setRenameDraft(null);
+    if (!id) return;
+    try {
+      const sound = await loadSound(id);
+      if (!sound) {
+        setError('That sound is no longer in the library.');
+        await refresh();
+        return;
+      }
+      select(sound.blob, sound.name, sound.id);
+    } catch (e) {
+      setError(`Failed to load audio file: ${e instanceof Error ? e.message : 'storage error'}`);
     }
-    // Clear from localStorage
-    clearCustomAudio();
+  }, [select, refresh]);
+
+  const handleRename = useCallback(async () => {
+    const name = renameDraft?.trim();
+    if (!currentFileId || !name) return;
+    try {
+      const renamed = await renameSound(currentFileId, name);
+      if (renamed) onFileSelect(currentFileUrl ?? '', renamed.name, renamed.id);
+      setRenameDraft(null);
+      await refresh();
+    } catch (e) {
+      setError(`Failed to rename: ${e instanceof Error ? e.message : 'storage error'}`);
+    }
+  }, [renameDraft, currentFileId, currentFileUrl, onFileSelect, refresh]);
+
+  const handleDelete = useCallback(async () => {
+    if (!currentFileId) return;
+    try {
+      await deleteSound(currentFileId);
+      revokeFileUrl(currentFileUrl ?? '');
+      onFileSelect('', '');
+      setRenameDraft(null);
+      await refresh();
+    } catch (e) {
+      setError(`Failed to delete: ${e instanceof Error ? e.message : 'storage error'}`);
+    }
+  }, [currentFileId, currentFileUrl, onFileSelect, refresh]);
+
+  const handleClear = useCallback(() => {
+    // Deselect only; the sound stays in the library
+    revokeFileUrl(currentFileUrl ?? '');
     onFileSelect('', '');
     setError(null);
+    setRenameDraft(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -72,28 +140,79 @@ export default function FileUpload({ onFileSelect, currentFileName, currentFileU
         style={{ display: 'none' }}
         aria-label="Upload audio file"
       />
+      {sounds.length > 0 && (
+        <select
+          className="select"
+          aria-label="Audio library"
+          value={currentFileId ?? ''}
+          onChange={(e) => handlePick(e.target.value)}
+          style={{ fontSize: '12px', maxWidth: '220px' }}
+        >
+          <option value="">Choose from library…</option>
+          {sounds.map((sound) => (
+            <option key={sound.id} value={sound.id}>{describeSound(sound)}</option>
+          ))}
+        </select>
+      )}
       <button
         type="button"
         className="btn"
         onClick={handleClick}
         disabled={isLoading}
-        style={{ fontSize: '12px', padding: '4px 8px' }}
+        style={smallBtn}
       >
         {isLoading ? 'Saving...' : currentFileName ? 'Change' : 'Upload'} Audio
       </button>
-      {currentFileName && (
+      {currentFileName && renameDraft === null && (
         <>
           <span className="label" style={{ fontSize: '12px', maxWidth: '150px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
             {currentFileName}
           </span>
+          {currentFileId && (
+            <button type="button" className="btn" onClick={() => setRenameDraft(currentFileName)} style={smallBtn}>
+              Rename
+            </button>
+          )}
           <button
             type="button"
             className="btn"
             onClick={handleClear}
-            style={{ fontSize: '12px', padding: '4px 8px', backgroundColor: '#ff4444', color: 'white' }}
+            style={smallBtn}
           >
             Clear
           </button>
+          {currentFileId && (
+            <button
+              type="button"
+              className="btn"
+              onClick={handleDelete}
+              style={{ ...smallBtn, backgroundColor: '#ff4444', color: 'white' }}
+            >
+              Delete
+            </button>
+          )}
+        </>
+      )}
+      {renameDraft !== null && (
+        <>
+          <input
+            className="input"
+            aria-label="Sound name"
+            value={renameDraft}
+            autoFocus
+            onChange={(e) => setRenameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') setRenameDraft(null);
+            }}
+            style={{ fontSize: '12px', width: '150px' }}
+          />
+          <button type="button" className="btn" onClick={handleRename} disabled={!renameDraft.trim()} style={smallBtn}>
+            Save
+          </button>
+          <button type="button" className="btn" onClick={() => setRenameDraft(null)} style={smallBtn}>
+            Cancel
+          </button>
         </>
       )}
       {error && (
@@ -103,4 +222,4 @@ export default function FileUpload({ onFileSelect, currentFileName, currentFileU
       )}
     </div>
   );
-}
\ No newline at end of file
+}
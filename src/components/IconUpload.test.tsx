@@ -0,0 +1,50 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import IconUpload from './IconUpload';
+
+function upload(file: File) {
+  fireEvent.change(screen.getByLabelText('Upload custom icon'), { target: { files: [file] } });
+}
+
+describe('IconUpload', () => {
+  it('stores the sanitized SVG', async () => {
+    const onIconSelect = vi.fn();
+    render(<IconUpload onIconSelect={onIconSelect} />);
+
+    upload(new File(['<svg xmlns="http://www.w3.org/2000/svg"><script>x()</script></svg>'], 'toy.svg', { type: 'image/svg+xml' }));
+
+    await waitFor(() => expect(onIconSelect).toHaveBeenCalled());
+    const [dataUrl, name] = onIconSelect.mock.calls[0];
+    expect(decodeURIComponent(dataUrl)).toBe('data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"/>');
+    expect(name).toBe('toy.svg');
+  });
+
+  it('shows problems inline instead of alerting', async () => {
+    const alert = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    const onIconSelect = vi.fn();
+    render(<IconUpload onIconSelect={onIconSelect} />);
+
+    upload(new File(['x'], 'notes.txt', { type: 'text/plain' }));
+    expect(await screen.findByText('Please choose a PNG, JPEG, GIF, SVG or WebP image.')).toBeDefined();
+
+    upload(new File(['<html/>'], 'page.svg', { type: 'image/svg+xml' }));
+    expect(await screen.findByText('This SVG file could not be read.')).toBeDefined();
+
+    expect(onIconSelect).not.toHaveBeenCalled();
+    expect(alert).not.toHaveBeenCalled();
+    alert.mockRestore();
+  });
+
+  it('clears the icon and any error', async () => {
+    const onIconSelect = vi.fn();
+    render(<IconUpload onIconSelect={onIconSelect} currentFileName="toy.png" currentIconUrl="data:image/png;base64,AA==" />);
+
+    upload(new File(['x'], 'notes.txt', { type: 'text/plain' }));
+    await screen.findByText(/Please choose/);
+    fireEvent.click(screen.getByLabelText('Remove custom icon'));
+
+    expect(onIconSelect).toHaveBeenCalledWith('', '');
+    expect(screen.queryByText(/Please choose/)).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
-import React, { useCallback, useRef } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
+import { ICON_TYPES, IconError, processIcon } from '../lib/iconProcessing';
 
 type Props = {
   onIconSelect: (dataUrl: string, fileName: string) => void;
@@ -6,42 +7,26 @@ type Props = {
   currentIconUrl?: string;
 };
 
-const MAX_FILE_SIZE = 512 * 1024; // 512KB max
-const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/svg+xml', 'image/webp'];
-
-function isValidImageFile(file: File): boolean {
-  return ALLOWED_TYPES.includes(file.type);
-}
-
 export default function IconUpload({ onIconSelect, currentFileName, currentIconUrl }: Props) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (!isValidImageFile(file)) {
-      alert('Please select a valid image file (PNG, JPEG, GIF, SVG, or WebP).');
-      return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      // SVGs are sanitized and rasters downscaled before anything is stored
+      onIconSelect(await processIcon(file), file.name);
+    } catch (e) {
+      setError(e instanceof IconError ? e.message : 'Failed to read the image file.');
+    } finally {
+      setIsProcessing(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
     }
-
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      alert('Image file is too large. Please select an image under 512KB.');
-      return;
-    }
-
-    // Read file as data URL for localStorage persistence
-    const reader = new FileReader();
-    reader.onload = () => {
-      const dataUrl = reader.result as string;
-      onIconSelect(dataUrl, file.name);
-    };
-    reader.onerror = () => {
-      alert('Failed to read the image file.');
-    };
-    reader.readAsDataURL(file);
   }, [onIconSelect]);
 
   const handleClick = useCallback(() => {
@@ -50,6 +35,7 @@ export default function IconUpload({ onIconSelect, currentFileName, currentIconU
 
   const handleClear = useCallback(() => {
     onIconSelect('', '');
+    setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -60,7 +46,7 @@ export default function IconUpload({ onIconSelect, currentFileName, currentIconU
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/png,image/jpeg,image/gif,image/svg+xml,image/webp"
+        accept={ICON_TYPES.join(',')}
         onChange={handleFileChange}
         style={{ display: 'none' }}
         aria-label="Upload custom icon"
@@ -77,9 +63,10 @@ export default function IconUpload({ onIconSelect, currentFileName, currentIconU
           type="button"
           className="btn"
           onClick={handleClick}
+          disabled={isProcessing}
           style={{ fontSize: '12px', padding: '4px 8px' }}
         >
-          {currentFileName ? 'Change' : 'Upload'} Icon
+          {isProcessing ? 'Processing...' : currentFileName ? 'Change' : 'Upload'} Icon
         </button>
         {currentFileName && (
           <>
@@ -108,6 +95,11 @@ export default function IconUpload({ onIconSelect, currentFileName, currentIconU
           </>
         )}
       </div>
+      {error && (
+        <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+          {error}
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,55 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import LatencyCalibrator from './LatencyCalibrator';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('LatencyCalibrator', () => {
+  it('schedules a steady click track when started', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(0);
+    const clickAt = vi.fn();
+    render(<LatencyCalibrator clickAt={clickAt} onResult={vi.fn()} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Start'));
+
+    expect(clickAt).toHaveBeenCalledTimes(12);
+    expect(clickAt.mock.calls[1][0] - clickAt.mock.calls[0][0]).toBe(1000);
+  });
+
+  it('disables tapping until the track starts', () => {
+    render(<LatencyCalibrator clickAt={vi.fn()} onResult={vi.fn()} onCancel={vi.fn()} />);
+    expect((screen.getByText('Tap') as HTMLButtonElement).disabled).toBe(true);
+    expect((screen.getByText('Use estimate') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('reports the tapped latency', () => {
+    const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+    const clickAt = vi.fn();
+    const onResult = vi.fn();
+    render(<LatencyCalibrator clickAt={clickAt} onResult={onResult} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Start'));
+    const clicks = clickAt.mock.calls.map((c) => c[0] as number);
+    clicks.slice(0, 7).forEach((t) => {
+      now.mockReturnValue(t + 150);
+      fireEvent.click(screen.getByText('Tap'));
+    });
+
+    expect(screen.getByLabelText('Latency estimate').textContent).toBe('7 taps · 150 ms');
+    fireEvent.click(screen.getByText('Use estimate'));
+    expect(onResult).toHaveBeenCalledWith(150);
+  });
+
+  it('accepts Space as a tap', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(0);
+    render(<LatencyCalibrator clickAt={vi.fn()} onResult={vi.fn()} onCancel={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Start'));
+    fireEvent.keyDown(window, { code: 'Space' });
+
+    expect(screen.getByLabelText('Latency estimate').textContent).toBe('1 taps');
+  });
+});
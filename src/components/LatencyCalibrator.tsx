@@ -0,0 +1,82 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { estimateTapLatency } from '../lib/latency';
+
+type Props = {
+  clickAt: (atMs: number) => void;
+  onResult: (latencyMs: number) => void;
+  onCancel: () => void;
+};
+
+// One click per second keeps taps unambiguous for latencies up to 500 ms
+const CLICK_INTERVAL_MS = 1000;
+const CLICK_COUNT = 12;
+const LEAD_IN_MS = 600;
+
+export default function LatencyCalibrator({ clickAt, onResult, onCancel }: Props) {
+  const clicksRef = useRef<number[]>([]);
+  const [taps, setTaps] = useState<number[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const begin = useCallback(() => {
+    const t0 = performance.now() + LEAD_IN_MS;
+    const clicks = Array.from({ length: CLICK_COUNT }, (_, i) => t0 + i * CLICK_INTERVAL_MS);
+    clicks.forEach((t) => clickAt(t));
+    clicksRef.current = clicks;
+    setTaps([]);
+    setRunning(true);
+  }, [clickAt]);
+
+  const tap = useCallback(() => {
+    if (!running) return;
+    setTaps((prev) => [...prev, performance.now()]);
+  }, [running]);
+
+  // Space taps too, so the listener can tap without aiming the mouse
+  useEffect(() => {
+    if (!running) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      // Keep the app-level Space play/stop toggle from firing while calibrating
+      e.stopImmediatePropagation();
+      tap();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [running, tap]);
+
+  const estimate = estimateTapLatency(clicksRef.current, taps);
+
+  return (
+    <div className="dialog-backdrop" role="dialog" aria-modal="true" aria-label="Latency calibration">
+      <div className="dialog">
+        <h2 className="dialog-title">Tap along with the clicks</h2>
+        <span className="label">
+          Put the headphones on, press Start and tap (or press Space) in time with each click you hear.
+        </span>
+        <div className="row">
+          <button type="button" className="btn" onClick={begin}>
+            {running ? 'Restart' : 'Start'}
+          </button>
+          <button type="button" className="btn primary tap-btn" onClick={tap} disabled={!running}>
+            Tap
+          </button>
+          <span className="value" aria-live="polite" aria-label="Latency estimate">
+            {taps.length} taps{estimate !== null ? ` · ${estimate} ms` : ''}
+          </span>
+        </div>
+        <div className="row dialog-actions">
+          <button type="button" className="btn" onClick={onCancel}>Cancel</button>
+          <button
+            type="button"
+            className="btn primary"
+            disabled={estimate === null}
+            onClick={() => estimate !== null && onResult(estimate)}
+          >
+            Use estimate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
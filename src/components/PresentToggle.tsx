@@ -0,0 +1,30 @@
+import React from 'react';
+import type { PresentTools } from '../hooks/usePresentController';
+
+export default function PresentToggle({ supported, displayOpen, blocked, onOpen, onClose }: PresentTools) {
+  if (!supported) return null;
+
+  return (
+    <div className="row" role="group" aria-label="Present mode">
+      {displayOpen ? (
+        <>
+          <button type="button" className="btn" onClick={onClose}>
+            Close client display
+          </button>
+          <span className="label" role="status">Client display connected</span>
+        </>
+      ) : (
+        <>
+          <button type="button" className="btn" onClick={onOpen}>
+            Open client display
+          </button>
+          {blocked && (
+            <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+              The window was blocked; allow pop-ups for this site.
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import PresetPicker, { PresetTools } from './PresetPicker';
+import { FACTORY_PRESETS, Preset } from '../lib/storage';
+import { DEFAULTS } from '../lib/defaults';
+
+const userPreset: Preset = { id: 'preset-a', name: 'Client A', config: DEFAULTS, savedAt: 1 };
+
+function renderPicker(props: Partial<PresetTools> = {}) {
+  const tools: PresetTools = {
+    presets: [...FACTORY_PRESETS, userPreset],
+    modified: false,
+    onLoad: vi.fn(),
+    onSaveAs: vi.fn(),
+    onOverwrite: vi.fn(),
+    onRename: vi.fn(),
+    onDelete: vi.fn(),
+    ...props,
+  };
+  render(<PresetPicker {...tools} />);
+  return tools;
+}
+
+describe('PresetPicker', () => {
+  it('lists factory and user presets and loads the chosen one', () => {
+    const tools = renderPicker();
+
+    fireEvent.change(screen.getByDisplayValue('Unsaved settings'), { target: { value: 'preset-a' } });
+
+    expect(screen.getByRole('group', { name: 'Factory' })).toBeDefined();
+    expect(screen.getByRole('group', { name: 'My presets' })).toBeDefined();
+    expect(tools.onLoad).toHaveBeenCalledWith('preset-a');
+  });
+
+  it('shows when settings differ from the active preset', () => {
+    renderPicker({ activeId: 'preset-a', modified: true });
+
+    expect(screen.getByLabelText('Preset modified')).toBeDefined();
+  });
+
+  it('saves the current settings under a new name', () => {
+    const tools = renderPicker();
+
+    fireEvent.click(screen.getByText('Save as…'));
+    fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: '  Slow RI ' } });
+    fireEvent.click(screen.getByText('Save preset'));
+
+    expect(tools.onSaveAs).toHaveBeenCalledWith('Slow RI');
+  });
+
+  it('keeps factory presets read-only', () => {
+    renderPicker({ activeId: 'factory-standard', modified: true });
+
+    expect((screen.getByText('Save') as HTMLButtonElement).disabled).toBe(true);
+    expect(screen.queryByText('Rename')).toBeNull();
+    expect(screen.queryByText('Delete')).toBeNull();
+  });
+
+  it('overwrites a modified user preset', () => {
+    const tools = renderPicker({ activeId: 'preset-a', modified: true });
+
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(tools.onOverwrite).toHaveBeenCalled();
+  });
+
+  it('renames the active preset', () => {
+    const tools = renderPicker({ activeId: 'preset-a' });
+
+    fireEvent.click(screen.getByText('Rename'));
+    fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Client B' } });
+    fireEvent.keyDown(screen.getByLabelText('Preset name'), { key: 'Enter' });
+
+    expect(tools.onRename).toHaveBeenCalledWith('Client B');
+  });
+
+  it('asks before deleting', () => {
+    const tools = renderPicker({ activeId: 'preset-a' });
+
+    fireEvent.click(screen.getByText('Delete'));
+    expect(tools.onDelete).not.toHaveBeenCalled();
+    expect(screen.getByText('Delete “Client A”?')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Delete'));
+    expect(tools.onDelete).toHaveBeenCalled();
+  });
+});
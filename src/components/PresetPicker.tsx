@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import type { Preset } from '../lib/storage';
+
+export type PresetTools = {
+  presets: Preset[];
+  activeId?: string;
+  modified: boolean; // current settings differ from the active preset
+  onLoad: (id: string) => void;
+  onSaveAs: (name: string) => void;
+  onOverwrite: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+};
+
+type Editing = { kind: 'save-as' | 'rename'; draft: string } | { kind: 'delete' } | null;
+
+export default function PresetPicker({ presets, activeId, modified, onLoad, onSaveAs, onOverwrite, onRename, onDelete }: PresetTools) {
+  const [editing, setEditing] = useState<Editing>(null);
+  const active = presets.find((p) => p.id === activeId);
+  const factory = presets.filter((p) => p.builtIn);
+  const user = presets.filter((p) => !p.builtIn);
+  const editable = !!active && !active.builtIn;
+
+  const commitName = () => {
+    if (editing?.kind !== 'save-as' && editing?.kind !== 'rename') return;
+    const name = editing.draft.trim();
+    if (!name) return;
+    if (editing.kind === 'save-as') onSaveAs(name);
+    else onRename(name);
+    setEditing(null);
+  };
+
+  return (
+    <div className="row" role="group" aria-label="Presets">
+      <label className="row">
+        <span className="label">Preset</span>
+        <select
+          className="select"
+          value={active ? active.id : ''}
+          onChange={(e) => {
+            setEditing(null);
+            if (e.target.value) onLoad(e.target.value);
+          }}
+        >
+          {!active && <option value="">Unsaved settings</option>}
+          <optgroup label="Factory">
+            {factory.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {user.length > 0 && (
+            <optgroup label="My presets">
+              {user.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </label>
+      {active && modified && (
+        <span className="preset-modified" aria-label="Preset modified" title={`Settings differ from “${active.name}”`}>
+          ● Modified
+        </span>
+      )}
+
+      {editing?.kind === 'save-as' || editing?.kind === 'rename' ? (
+        <>
+          <input
+            className="input"
+            aria-label="Preset name"
+            value={editing.draft}
+            autoFocus
+            onChange={(e) => setEditing({ ...editing, draft: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName();
+            }}
+          />
+          <button type="button" className="btn" onClick={commitName} disabled={!editing.draft.trim()}>
+            {editing.kind === 'save-as' ? 'Save preset' : 'Rename preset'}
+          </button>
+          <button type="button" className="btn" onClick={() => setEditing(null)}>Cancel</button>
+        </>
+      ) : editing?.kind === 'delete' && active ? (
+        <>
+          <span className="label">Delete “{active.name}”?</span>
+          <button type="button" className="btn" onClick={() => { onDelete(); setEditing(null); }}>Delete</button>
+          <button type="button" className="btn" onClick={() => setEditing(null)}>Keep</button>
+        </>
+      ) : (
+        <>
+          <button
+            type="button"
+            className="btn"
+            onClick={onOverwrite}
+            disabled={!editable || !modified}
+            title={active?.builtIn ? 'Factory presets are read-only; use Save as' : undefined}
+          >
+            Save
+          </button>
+          <button type="button" className="btn" onClick={() => setEditing({ kind: 'save-as', draft: '' })}>
+            Save as…
+          </button>
+          {active && !active.builtIn && (
+            <>
+              <button type="button" className="btn" onClick={() => setEditing({ kind: 'rename', draft: active.name })}>
+                Rename
+              </button>
+              <button type="button" className="btn" onClick={() => setEditing({ kind: 'delete' })}>
+                Delete
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import RatingPrompt from './RatingPrompt';
+
+function renderPrompt(overrides: Partial<React.ComponentProps<typeof RatingPrompt>> = {}) {
+  const props = {
+    set: 3,
+    askSud: true,
+    askVoc: true,
+    earlierSud: [8, 6],
+    onSave: vi.fn(),
+    onSkip: vi.fn(),
+    ...overrides,
+  };
+  render(<RatingPrompt {...props} />);
+  return props;
+}
+
+describe('RatingPrompt', () => {
+  it('saves the selected scores and cue', () => {
+    const { onSave } = renderPrompt();
+
+    fireEvent.click(within(screen.getByRole('group', { name: /SUD/ })).getByText('4'));
+    fireEvent.click(within(screen.getByRole('group', { name: /VOC/ })).getByText('5'));
+    fireEvent.change(screen.getByLabelText('Cue'), { target: { value: 'lighter now' } });
+    fireEvent.click(screen.getByText('Save rating'));
+
+    expect(onSave).toHaveBeenCalledWith({ sud: 4, voc: 5, cue: 'lighter now' });
+  });
+
+  it('clears a score when it is clicked again', () => {
+    const { onSave } = renderPrompt();
+    const sud = within(screen.getByRole('group', { name: /SUD/ }));
+
+    fireEvent.click(sud.getByText('4'));
+    expect(sud.getByText('4').getAttribute('aria-pressed')).toBe('true');
+    fireEvent.click(sud.getByText('4'));
+    fireEvent.click(screen.getByText('Save rating'));
+
+    expect(onSave).toHaveBeenCalledWith({ sud: undefined, voc: undefined, cue: '' });
+  });
+
+  it('charts SUD across the sets so far', () => {
+    renderPrompt();
+
+    fireEvent.click(within(screen.getByRole('group', { name: /SUD/ })).getByText('3'));
+
+    expect(screen.getByRole('img').getAttribute('aria-label')).toBe('SUD by set: 8, 6, 3');
+  });
+
+  it('asks only for the enabled scales', () => {
+    renderPrompt({ askSud: false, earlierSud: [] });
+
+    expect(screen.queryByRole('group', { name: /SUD/ })).toBeNull();
+    expect(screen.getByRole('group', { name: /VOC/ })).toBeDefined();
+    expect(screen.queryByRole('img')).toBeNull();
+  });
+
+  it('can be skipped', () => {
+    const { onSave, onSkip } = renderPrompt();
+
+    fireEvent.click(screen.getByText('Skip'));
+
+    expect(onSkip).toHaveBeenCalled();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import SudChart from './SudChart';
+import { SetRating, SUD_RANGE, VOC_RANGE } from '../lib/sessionLog';
+
+type Props = {
+  set: number;
+  askSud: boolean;
+  askVoc: boolean;
+  earlierSud: (number | undefined)[]; // SUD of the session's earlier sets, for the chart
+  onSave: (rating: SetRating) => void;
+  onSkip: () => void;
+};
+
+function scale({ min, max }: typeof SUD_RANGE): number[] {
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+function ScalePicker({ label, range, value, onChange }: {
+  label: string;
+  range: typeof SUD_RANGE;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <div className="row rating-scale" role="group" aria-label={label}>
+      <span className="label">{label}</span>
+      {scale(range).map((n) => (
+        <button
+          key={n}
+          type="button"
+          className="btn rating-btn"
+          aria-pressed={value === n}
+          // Clicking the selected score again clears it
+          onClick={() => onChange(value === n ? undefined : n)}
+        >
+          {n}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Between-set prompt for SUD/VOC and a short cue. Floats over the stage without blocking
+ * it, since protocol sessions carry on into the next set.
+ */
+export default function RatingPrompt({ set, askSud, askVoc, earlierSud, onSave, onSkip }: Props) {
+  const [sud, setSud] = useState<number>();
+  const [voc, setVoc] = useState<number>();
+  const [cue, setCue] = useState('');
+
+  return (
+    <div className="dialog rating-prompt" role="dialog" aria-label="Rate set">
+      <h2 className="dialog-title">Set {set} finished</h2>
+      {askSud && (
+        <ScalePicker label={`SUD (${SUD_RANGE.min}–${SUD_RANGE.max})`} range={SUD_RANGE} value={sud} onChange={setSud} />
+      )}
+      {askVoc && (
+        <ScalePicker label={`VOC (${VOC_RANGE.min}–${VOC_RANGE.max})`} range={VOC_RANGE} value={voc} onChange={setVoc} />
+      )}
+      <input
+        className="input"
+        type="text"
+        value={cue}
+        maxLength={200}
+        placeholder="Cue (optional)"
+        aria-label="Cue"
+        onChange={(e) => setCue(e.target.value)}
+      />
+      {askSud && <SudChart values={[...earlierSud, sud]} />}
+      <div className="row dialog-actions">
+        <button type="button" className="btn" onClick={onSkip}>Skip</button>
+        <button type="button" className="btn primary" onClick={() => onSave({ sud, voc, cue })}>
+          Save rating
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useCallback, useState } from 'react';
+import type { RemoteTools } from '../hooks/useRemoteController';
+
+const STATUS_TEXT: Record<RemoteTools['status'], string> = {
+  idle: '',
+  connecting: 'Connecting to the relay…',
+  waiting: 'Waiting for the client to join',
+  connected: 'Client connected',
+  disconnected: 'Disconnected',
+};
+
+export default function RemoteSessionPanel({
+  status,
+  detail,
+  code,
+  clientUrl,
+  clock,
+  relayUrl,
+  onRelayUrlChange,
+  onStart,
+  onEnd,
+}: RemoteTools) {
+  const [copied, setCopied] = useState(false);
+  // Shown when the clipboard isn't available so the link can be copied by hand
+  const [manualUrl, setManualUrl] = useState<string | null>(null);
+
+  const handleCopy = useCallback(async () => {
+    if (!clientUrl) return;
+    setCopied(false);
+    setManualUrl(null);
+    try {
+      await navigator.clipboard.writeText(clientUrl);
+      setCopied(true);
+    } catch {
+      setManualUrl(clientUrl);
+    }
+  }, [clientUrl]);
+
+  if (status === 'idle') {
+    return (
+      <div className="row" role="group" aria-label="Remote session">
+        <input
+          type="text"
+          className="input"
+          aria-label="Relay address"
+          value={relayUrl}
+          onChange={(e) => onRelayUrlChange(e.target.value)}
+          spellCheck={false}
+        />
+        <button type="button" className="btn" onClick={onStart} disabled={!relayUrl}>
+          Start remote session
+        </button>
+      </div>
+    );
+  }
+
+  let statusText = STATUS_TEXT[status];
+  if (status === 'connected' && clock) {
+    statusText += ` · clock offset ${Math.round(clock.offsetMs)} ms, round trip ${Math.round(clock.rttMs)} ms`;
+  }
+  if (status === 'disconnected' && detail) statusText += `: ${detail}`;
+
+  return (
+    <div className="row" role="group" aria-label="Remote session">
+      <span className="label">
+        Join code <strong className="join-code">{code}</strong>
+      </span>
+      <button type="button" className="btn" onClick={handleCopy}>
+        Copy client link
+      </button>
+      {copied && <span className="label">Link copied</span>}
+      {manualUrl && (
+        <input
+          type="text"
+          readOnly
+          value={manualUrl}
+          aria-label="Client link URL"
+          onFocus={(e) => e.target.select()}
+          autoFocus
+        />
+      )}
+      <span
+        className="label"
+        role="status"
+        style={status === 'disconnected' ? { color: '#ff6b6b' } : undefined}
+      >
+        {statusText}
+      </span>
+      {status === 'disconnected' && (
+        <button type="button" className="btn" onClick={onStart}>
+          Reconnect
+        </button>
+      )}
+      <button type="button" className="btn" onClick={onEnd}>
+        End remote session
+      </button>
+    </div>
+  );
+}
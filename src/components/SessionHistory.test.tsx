@@ -0,0 +1,65 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/settingsFile', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/settingsFile')>()),
+  downloadJSON: vi.fn(),
+  downloadText: vi.fn(),
+}));
+
+import SessionHistory from './SessionHistory';
+import { downloadJSON, downloadText } from '../lib/settingsFile';
+import { appendSession, beginSession, finishSession, loadSessionLog } from '../lib/sessionLog';
+import { DEFAULTS } from '../lib/defaults';
+
+function recordSession(reason: 'completed' | 'panic') {
+  appendSession(finishSession(beginSession(DEFAULTS), reason, { elapsedSec: 95, passes: 42 }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  localStorage.clear();
+});
+
+describe('SessionHistory', () => {
+  it('lists recorded sessions', () => {
+    recordSession('completed');
+    recordSession('panic');
+    render(<SessionHistory />);
+
+    fireEvent.click(screen.getByText('Session history'));
+
+    expect(screen.getByRole('dialog', { name: 'Session history' })).toBeDefined();
+    expect(screen.getAllByRole('row')).toHaveLength(3);
+    expect(screen.getByText('Panic stop')).toBeDefined();
+    expect(screen.getAllByText('1:35')).toHaveLength(2);
+  });
+
+  it('exports the log as CSV and JSON', () => {
+    recordSession('completed');
+    render(<SessionHistory />);
+    fireEvent.click(screen.getByText('Session history'));
+
+    fireEvent.click(screen.getByText('Export CSV'));
+    fireEvent.click(screen.getByText('Export JSON'));
+
+    const [csvName, csv, type] = (downloadText as any).mock.calls[0];
+    expect(csvName).toMatch(/^emdr-sessions-.*\.csv$/);
+    expect(csv).toMatch(/^started,/);
+    expect(type).toBe('text/csv');
+    expect((downloadJSON as any).mock.calls[0][1]).toEqual(loadSessionLog());
+  });
+
+  it('clears the history after confirming', () => {
+    recordSession('completed');
+    render(<SessionHistory />);
+    fireEvent.click(screen.getByText('Session history'));
+
+    fireEvent.click(screen.getByText('Clear history'));
+    fireEvent.click(screen.getByText('Delete all'));
+
+    expect(screen.getByText('No sessions recorded yet.')).toBeDefined();
+    expect(loadSessionLog()).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import React, { useCallback, useState } from 'react';
+import SudChart from './SudChart';
+import { downloadJSON, downloadText } from '../lib/settingsFile';
+import {
+  clearSessionLog,
+  loadSessionLog,
+  SessionEndReason,
+  SessionRecord,
+  sessionLogFileName,
+  sessionsToCSV,
+} from '../lib/sessionLog';
+
+const END_LABELS: Record<SessionEndReason, string> = {
+  completed: 'Completed',
+  stopped: 'Reset',
+  panic: 'Panic stop',
+  closed: 'Tab closed',
+};
+
+function formatDuration(sec: number): string {
+  const s = Math.round(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function formatStart(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export default function SessionHistory() {
+  // Loaded when the panel opens; the recorder writes straight to storage
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const close = useCallback(() => {
+    setSessions(null);
+    setConfirmClear(false);
+  }, []);
+
+  const handleClear = useCallback(() => {
+    clearSessionLog();
+    setSessions([]);
+    setConfirmClear(false);
+  }, []);
+
+  return (
+    <>
+      <button type="button" className="btn" onClick={() => setSessions(loadSessionLog())}>
+        Session history
+      </button>
+
+      {sessions && (
+        <div className="dialog-backdrop" role="dialog" aria-modal="true" aria-label="Session history">
+          <div className="dialog">
+            <h2 className="dialog-title">Session history</h2>
+            {sessions.length === 0 ? (
+              <span className="label">No sessions recorded yet.</span>
+            ) : (
+              <div className="history-scroll">
+                <table className="history-table">
+                  <thead>
+                    <tr>
+                      <th>Started</th>
+                      <th>Mode</th>
+                      <th>Planned</th>
+                      <th>Actual</th>
+                      <th>Passes</th>
+                      <th>Pauses</th>
+                      <th>Ended</th>
+                      <th>SUD</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sessions.map((s) => (
+                      <tr key={s.id}>
+                        <td>{formatStart(s.startedAt)}</td>
+                        <td>{s.sessionMode}</td>
+                        <td>{s.plannedPasses !== undefined ? `${s.plannedPasses} passes` : formatDuration(s.plannedSec)}</td>
+                        <td>{formatDuration(s.actualSec)}</td>
+                        <td>{s.passes}</td>
+                        <td>{s.pauses}</td>
+                        <td className={s.endReason === 'panic' ? 'warning' : undefined}>
+                          {s.endReason ? END_LABELS[s.endReason] : '—'}
+                        </td>
+                        <td>
+                          {s.sets?.some((set) => set.sud !== undefined)
+                            ? <SudChart values={s.sets.map((set) => set.sud)} width={80} height={24} />
+                            : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="row dialog-actions">
+              {confirmClear ? (
+                <>
+                  <span className="label warning">Delete all {sessions.length} session(s)?</span>
+                  <button type="button" className="btn" onClick={() => setConfirmClear(false)}>Keep</button>
+                  <button type="button" className="btn" onClick={handleClear}>Delete all</button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="btn"
+                    onClick={() => downloadText(sessionLogFileName('csv'), sessionsToCSV(sessions), 'text/csv')}
+                    disabled={sessions.length === 0}
+                  >
+                    Export CSV
+                  </button>
+                  <button
+                    type="button"
+                    className="btn"
+                    onClick={() => downloadJSON(sessionLogFileName('json'), sessions)}
+                    disabled={sessions.length === 0}
+                  >
+                    Export JSON
+                  </button>
+                  <button type="button" className="btn" onClick={() => setConfirmClear(true)} disabled={sessions.length === 0}>
+                    Clear history
+                  </button>
+                  <button type="button" className="btn primary" onClick={close}>Close</button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/settingsFile', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/settingsFile')>()),
+  downloadJSON: vi.fn(),
+}));
+
+import SettingsTransfer from './SettingsTransfer';
+import { downloadJSON } from '../lib/settingsFile';
+import { DEFAULTS } from '../lib/defaults';
+import { SCHEMA_VERSION } from '../lib/configSchema';
+
+const calibrated = { ...DEFAULTS, calibration: { pxPerCm: 38, viewingDistanceCm: 57 } };
+
+function importFile(content: string, name = 'clinic.json') {
+  const input = screen.getByLabelText('Import settings file') as HTMLInputElement;
+  fireEvent.change(input, { target: { files: [new File([content], name, { type: 'application/json' })] } });
+}
+
+function exported(config: unknown) {
+  return JSON.stringify({ format: 'emdr-settings', schemaVersion: SCHEMA_VERSION, exportedAt: '', config });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('SettingsTransfer', () => {
+  it('exports the current settings as a JSON download', async () => {
+    render(<SettingsTransfer config={calibrated} onImport={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Export settings'));
+
+    await waitFor(() => expect(downloadJSON).toHaveBeenCalled());
+    const [fileName, data] = (downloadJSON as any).mock.calls[0];
+    expect(fileName).toMatch(/^emdr-settings-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(data).toMatchObject({ format: 'emdr-settings', config: { durationSec: 120 } });
+    expect(data.config).not.toHaveProperty('calibration');
+  });
+
+  it('summarises the changes and applies them on confirm', async () => {
+    const onImport = vi.fn();
+    render(<SettingsTransfer config={calibrated} onImport={onImport} />);
+
+    importFile(exported({ ...DEFAULTS, durationSec: 300, audio: { ...DEFAULTS.audio, volume: 5 } }));
+
+    const changes = await screen.findByLabelText('Changes');
+    expect(changes.textContent).toContain('durationSec: 120 → 300');
+    expect(screen.getByLabelText('Repairs').textContent).toContain('audio.volume: 5 → 1');
+    expect(onImport).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Apply'));
+
+    await waitFor(() => expect(onImport).toHaveBeenCalled());
+    expect(onImport.mock.calls[0][0]).toMatchObject({
+      durationSec: 300,
+      calibration: calibrated.calibration,
+      audio: { volume: 1 },
+    });
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('discards the import on cancel', async () => {
+    const onImport = vi.fn();
+    render(<SettingsTransfer config={calibrated} onImport={onImport} />);
+
+    importFile(exported({ ...DEFAULTS, durationSec: 300 }));
+    fireEvent.click(await screen.findByText('Cancel'));
+
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(onImport).not.toHaveBeenCalled();
+  });
+
+  it('shows an inline error for files that are not settings exports', async () => {
+    render(<SettingsTransfer config={calibrated} onImport={vi.fn()} />);
+
+    importFile('{"hello": "world"}');
+
+    expect(await screen.findByText('This file is not an exported settings file.')).toBeDefined();
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
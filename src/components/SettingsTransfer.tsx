@@ -0,0 +1,139 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { AppConfig } from '../types';
+import {
+  buildSettingsFile,
+  downloadJSON,
+  ParsedSettings,
+  parseSettingsFile,
+  resolveImport,
+  settingsFileName,
+  summarizeChanges,
+} from '../lib/settingsFile';
+import { fileToText } from '../lib/storage';
+
+type Props = {
+  config: AppConfig;
+  onImport: (config: AppConfig) => void;
+};
+
+type Pending = ParsedSettings & { fileName: string; changes: string[] };
+
+export default function SettingsTransfer({ config, onImport }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [includeIcon, setIncludeIcon] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<Pending | null>(null);
+
+  const handleExport = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      downloadJSON(settingsFileName(), await buildSettingsFile(config, { includeAudio, includeIcon }));
+    } catch (e) {
+      setError(`Export failed: ${e instanceof Error ? e.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [config, includeAudio, includeIcon]);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = parseSettingsFile(await fileToText(file));
+      setPending({ ...parsed, fileName: file.name, changes: summarizeChanges(config, parsed.config) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the settings file.');
+    }
+  }, [config]);
+
+  const handleApply = useCallback(async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      onImport(await resolveImport(config, pending));
+      setPending(null);
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [config, pending, onImport]);
+
+  const missingAudio = pending && pending.config.audio.mode === 'file' && !pending.audio;
+
+  return (
+    <div className="row" role="group" aria-label="Settings file">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        aria-label="Import settings file"
+      />
+      <button type="button" className="btn" onClick={handleExport} disabled={busy}>
+        Export settings
+      </button>
+      <label className="row control-item-checkbox">
+        <input type="checkbox" checked={includeAudio} onChange={(e) => setIncludeAudio(e.target.checked)} />
+        <span className="label">Include audio</span>
+      </label>
+      <label className="row control-item-checkbox">
+        <input type="checkbox" checked={includeIcon} onChange={(e) => setIncludeIcon(e.target.checked)} />
+        <span className="label">Include icon</span>
+      </label>
+      <button type="button" className="btn" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+        Import settings
+      </button>
+      {error && (
+        <span style={{ fontSize: '11px', color: '#ff6b6b' }}>
+          {error}
+        </span>
+      )}
+
+      {pending && (
+        <div className="dialog-backdrop" role="dialog" aria-modal="true" aria-label="Import settings">
+          <div className="dialog">
+            <h2 className="dialog-title">Import “{pending.fileName}”</h2>
+            {pending.changes.length === 0 ? (
+              <span className="label">These settings match the current ones.</span>
+            ) : (
+              <>
+                <span className="label">{pending.changes.length} setting(s) will change:</span>
+                <ul className="change-list" aria-label="Changes">
+                  {pending.changes.map((change) => <li key={change}>{change}</li>)}
+                </ul>
+              </>
+            )}
+            {pending.fixes.length > 0 && (
+              <>
+                <span className="label warning">Invalid values in the file were repaired:</span>
+                <ul className="change-list" aria-label="Repairs">
+                  {pending.fixes.map((fix) => <li key={fix}>{fix}</li>)}
+                </ul>
+              </>
+            )}
+            {pending.audio && <span className="label">Adds “{pending.audio.name}” to the audio library.</span>}
+            {missingAudio && (
+              <span className="label warning">
+                The audio file isn’t embedded; it plays only if this machine’s library has it.
+              </span>
+            )}
+            <div className="row dialog-actions">
+              <button type="button" className="btn" onClick={() => setPending(null)}>Cancel</button>
+              <button type="button" className="btn primary" onClick={handleApply} disabled={busy}>
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import ShareLink from './ShareLink';
+import { DEFAULTS } from '../lib/defaults';
+import { decodeShareHash } from '../lib/shareLink';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ShareLink', () => {
+  it('copies a link that carries the settings', async () => {
+    const writeText = vi.fn(() => Promise.resolve());
+    vi.stubGlobal('navigator', { clipboard: { writeText } });
+    render(<ShareLink config={{ ...DEFAULTS, durationSec: 300 }} />);
+
+    fireEvent.click(screen.getByLabelText('Client view'));
+    fireEvent.click(screen.getByText('Copy share link'));
+
+    expect(await screen.findByText('Link copied')).toBeDefined();
+    const url = new URL((writeText.mock.calls[0] as unknown as [string])[0]);
+    const shared = await decodeShareHash(url.hash);
+    expect(shared?.config.durationSec).toBe(300);
+    expect(shared?.clientView).toBe(true);
+  });
+
+  it('shows the link for manual copying when the clipboard is unavailable', async () => {
+    vi.stubGlobal('navigator', { clipboard: { writeText: vi.fn(() => Promise.reject(new Error('denied'))) } });
+    render(<ShareLink config={DEFAULTS} />);
+
+    fireEvent.click(screen.getByText('Copy share link'));
+
+    await waitFor(() => expect(screen.getByLabelText('Share link URL')).toBeDefined());
+    expect((screen.getByLabelText('Share link URL') as HTMLInputElement).value).toMatch(/#s=z/);
+    expect(screen.queryByText('Link copied')).toBeNull();
+  });
+});
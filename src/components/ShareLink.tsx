@@ -0,0 +1,55 @@
+import React, { useCallback, useState } from 'react';
+import { AppConfig } from '../types';
+import { buildShareUrl } from '../lib/shareLink';
+
+type Props = {
+  config: AppConfig;
+};
+
+export default function ShareLink({ config }: Props) {
+  const [clientView, setClientView] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  // Shown when the clipboard isn't available so the link can be copied by hand
+  const [manualUrl, setManualUrl] = useState<string | null>(null);
+
+  const handleCopy = useCallback(async () => {
+    setStatus(null);
+    setManualUrl(null);
+    let url: string;
+    try {
+      url = await buildShareUrl(config, clientView);
+    } catch {
+      setStatus('Could not build the link.');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus('Link copied');
+    } catch {
+      setManualUrl(url);
+    }
+  }, [config, clientView]);
+
+  return (
+    <div className="row" role="group" aria-label="Share link">
+      <button type="button" className="btn" onClick={handleCopy}>
+        Copy share link
+      </button>
+      <label className="row control-item-checkbox">
+        <input type="checkbox" checked={clientView} onChange={(e) => setClientView(e.target.checked)} />
+        <span className="label">Client view</span>
+      </label>
+      {status && <span className="label">{status}</span>}
+      {manualUrl && (
+        <input
+          type="text"
+          readOnly
+          value={manualUrl}
+          aria-label="Share link URL"
+          onFocus={(e) => e.target.select()}
+          autoFocus
+        />
+      )}
+    </div>
+  );
+}
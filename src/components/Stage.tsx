@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import Target from './Target';
+import { AppConfig } from '../types';
+import { EdgeAnchor, EdgeForecast, tempoFromLegacySpeed } from '../lib/motion';
+import { resolveTargetGeometry } from '../lib/visualAngle';
+
+type Props = {
+  config: AppConfig;
+  playing: boolean;
+  startPosition: AppConfig['target']['startPosition'];
+  onPosition?: (normalized: number) => void;
+  onEdge?: (side: 'left' | 'right', atMs: number) => void;
+  onEdgeForecast?: (forecast: EdgeForecast) => void;
+  edgeAnchor?: EdgeAnchor;
+};
+
+/**
+ * The visual stage for a config; shared by the main window and the present-mode display
+ */
+export default function Stage({ config, playing, startPosition, onPosition, onEdge, onEdgeForecast, edgeAnchor }: Props) {
+  const geometry = useMemo(
+    () => resolveTargetGeometry(config.target, config.calibration),
+    [config.target, config.calibration],
+  );
+
+  return (
+    <main className="stage">
+      <Target
+        color={config.target.color}
+        sizePx={geometry.sizePx}
+        shape={config.target.shape ?? 'circle'}
+        emoji={config.target.emoji}
+        customIconUrl={config.target.customIconUrl}
+        tintIcon={config.target.customIconTint ?? false}
+        customPath={config.target.customPath}
+        rotate={config.target.rotate ?? false}
+        speedPxPerSec={config.target.speedPxPerSec}
+        visualMode={config.target.visualMode ?? 'motion'}
+        lightbar={config.target.lightbar}
+        passesPerMin={geometry.passesPerMin ?? tempoFromLegacySpeed(config.target.speedPxPerSec)}
+        path={config.target.path ?? 'horizontal'}
+        easing={config.target.easing ?? 'linear'}
+        edgePaddingPx={config.target.edgePaddingPx}
+        amplitudePx={geometry.amplitudePx}
+        edgePauseMs={config.target.edgePauseMs}
+        startPosition={startPosition}
+        playing={playing}
+        onPosition={onPosition}
+        onEdge={onEdge}
+        onEdgeForecast={onEdgeForecast}
+        edgeAnchor={edgeAnchor}
+      />
+    </main>
+  );
+}
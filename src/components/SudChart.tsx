@@ -0,0 +1,41 @@
+import React from 'react';
+import { SUD_RANGE } from '../lib/sessionLog';
+
+type Props = {
+  values: (number | undefined)[]; // SUD per set in order; unrated sets leave a gap
+  width?: number;
+  height?: number;
+};
+
+const PAD = 4;
+
+/**
+ * Small line chart of SUD across a session's sets
+ */
+export default function SudChart({ values, width = 160, height = 48 }: Props) {
+  const rated = values.filter((v): v is number => v !== undefined);
+  if (rated.length === 0) return null;
+
+  const x = (i: number) => (values.length === 1 ? width / 2 : PAD + (i * (width - 2 * PAD)) / (values.length - 1));
+  const y = (v: number) => height - PAD - ((v - SUD_RANGE.min) * (height - 2 * PAD)) / (SUD_RANGE.max - SUD_RANGE.min);
+  const points = values.flatMap((v, i) => (v === undefined ? [] : [{ i, v }]));
+
+  return (
+    <svg
+      className="sud-chart"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`SUD by set: ${values.map((v) => v ?? '–').join(', ')}`}
+    >
+      <line className="sud-chart-axis" x1={PAD} x2={width - PAD} y1={y(SUD_RANGE.min)} y2={y(SUD_RANGE.min)} />
+      <polyline className="sud-chart-line" points={points.map(({ i, v }) => `${x(i)},${y(v)}`).join(' ')} />
+      {points.map(({ i, v }) => (
+        <circle key={i} className="sud-chart-point" cx={x(i)} cy={y(v)} r={2.5}>
+          <title>Set {i + 1}: SUD {v}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -1,7 +1,9 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import Target from './Target';
+import { MAX_FLASHES_PER_SEC } from '../lib/motion';
+import type { ShapeId } from '../types';
 
 // Mock requestAnimationFrame
 const mockRaf = vi.fn();
@@ -216,8 +218,56 @@ describe('Target', () => {
     expect(target.style.width).toBe('30px');
   });
 
+  it('renders an uploaded icon at the target size', () => {
+    render(<Target {...defaultProps} shape="custom" customIconUrl="data:image/png;base64,AA==" />);
+    const target = screen.getByLabelText('moving target');
+    const img = target.querySelector('img');
+
+    expect(img?.getAttribute('src')).toBe('data:image/png;base64,AA==');
+    expect(target.style.width).toBe('24px');
+    expect(target.style.background).toBe('transparent');
+  });
+
+  it('paints a tinted icon in the target color through its mask', () => {
+    render(<Target {...defaultProps} shape="custom" customIconUrl="data:image/png;base64,AA==" tintIcon color="#ff0000" />);
+    const target = screen.getByLabelText('moving target');
+    const glyph = target.querySelector('span') as HTMLElement;
+
+    expect(target.querySelector('img')).toBeNull();
+    expect(glyph.style.background).toBe('rgb(255, 0, 0)');
+    expect(glyph.getAttribute('style')).toContain('data:image/png;base64,AA==');
+  });
+
+  it('falls back to a circle when the custom icon is missing', () => {
+    render(<Target {...defaultProps} shape="custom" />);
+    const target = screen.getByLabelText('moving target');
+
+    expect(target.querySelector('img')).toBeNull();
+    expect(target.style.borderRadius).toBe('999px');
+  });
+
+  it('draws the user-defined path shape', () => {
+    render(<Target {...defaultProps} shape="path" customPath="M50 0 L100 100 L0 100 Z" />);
+    const target = screen.getByLabelText('moving target');
+
+    expect(target.querySelector('path')?.getAttribute('d')).toBe('M50 0 L100 100 L0 100 Z');
+    expect(target.style.background).toBe('transparent');
+  });
+
+  it('turns the diamond by its registered base rotation', () => {
+    render(<Target {...defaultProps} shape="diamond" />);
+
+    expect(screen.getByLabelText('moving target').style.transform).toContain('rotate(45deg)');
+  });
+
+  it('falls back to a circle for an unregistered shape', () => {
+    render(<Target {...defaultProps} shape={'blob' as ShapeId} />);
+
+    expect(screen.getByLabelText('moving target').style.borderRadius).toBe('999px');
+  });
+
   it('handles all shape types without errors', () => {
-    const shapes = ['circle', 'square', 'diamond', 'smiley', 'triangle', 'star', 'hexagon', 'ring', 'bullseye', 'cross', 'heart'] as const;
+    const shapes = ['circle', 'square', 'diamond', 'smiley', 'triangle', 'star', 'hexagon', 'ring', 'bullseye', 'cross', 'heart', 'moon', 'flower', 'paw', 'path'] as const;
     
     shapes.forEach(shape => {
       render(<Target {...defaultProps} shape={shape} />);
@@ -233,4 +283,141 @@ describe('Target', () => {
     // Position callback should be called during animation
     expect(onPosition).toBeDefined();
   });
-});
\ No newline at end of file
+
+  describe('flash mode', () => {
+    // The ResizeObserver polyfill reports clientWidth/Height; give the stage a real size
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(424);
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(200);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function frame(ts: number) {
+      act(() => mockRaf.mock.calls[mockRaf.mock.calls.length - 1][0](ts));
+    }
+
+    const flashProps = { ...defaultProps, visualMode: 'flash' as const, passesPerMin: 60 };
+
+    it('shows a fixed target at each side instead of the moving one', () => {
+      render(<Target {...flashProps} shape="star" startPosition="left" />);
+      const left = screen.getByLabelText('left flash target');
+      const right = screen.getByLabelText('right flash target');
+
+      expect(screen.queryByLabelText('moving target')).toBeNull();
+      expect(left.querySelector('polygon')).not.toBeNull();
+      expect(left.style.transform).toContain('translateX(16px)');
+      expect(right.style.transform).toContain('translateX(384px)');
+      expect(left.dataset.lit).toBe('true');
+      expect(right.dataset.lit).toBe('false');
+    });
+
+    it('lights nothing until the first edge when starting at the center', () => {
+      render(<Target {...flashProps} />);
+
+      expect(screen.getByLabelText('left flash target').dataset.lit).toBe('false');
+      expect(screen.getByLabelText('right flash target').dataset.lit).toBe('false');
+    });
+
+    it('lights each side on its edge hit and pans hard to it', () => {
+      const onEdge = vi.fn();
+      const onPosition = vi.fn();
+      const { rerender } = render(<Target {...flashProps} onEdge={onEdge} onPosition={onPosition} />);
+      rerender(<Target {...flashProps} playing onEdge={onEdge} onPosition={onPosition} />);
+
+      frame(1000);
+      frame(1600); // half a pass from the center reaches the right edge at 1500
+
+      expect(onEdge).toHaveBeenCalledWith('right', 1600);
+      expect(onPosition).toHaveBeenLastCalledWith(1);
+      expect(screen.getByLabelText('right flash target').dataset.lit).toBe('true');
+      expect(screen.getByLabelText('left flash target').dataset.lit).toBe('false');
+    });
+
+    it('caps the flash rate whatever tempo is asked for', () => {
+      const onEdge = vi.fn();
+      const props = { ...flashProps, passesPerMin: 180, startPosition: 'left' as const, onEdge };
+      const { rerender } = render(<Target {...props} />);
+      rerender(<Target {...props} playing />);
+
+      frame(1000);
+      frame(1400); // 180/min would have flashed at 1333
+
+      expect(onEdge).not.toHaveBeenCalled();
+      frame(1000 + 1000 / MAX_FLASHES_PER_SEC + 10);
+      expect(onEdge).toHaveBeenCalledWith('right', expect.any(Number));
+    });
+  });
+
+  describe('light bar mode', () => {
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(424);
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(200);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function frame(ts: number) {
+      act(() => mockRaf.mock.calls[mockRaf.mock.calls.length - 1][0](ts));
+    }
+
+    function levels() {
+      return Array.from(document.querySelectorAll<HTMLElement>('.lamp-light')).map((el) => el.style.opacity);
+    }
+
+    const barProps = {
+      ...defaultProps,
+      visualMode: 'lightbar' as const,
+      passesPerMin: 60,
+      lightbar: { lamps: 5, offColor: '#111111', fade: false },
+    };
+
+    it('spreads the lamps evenly across the sweep', () => {
+      render(<Target {...barProps} />);
+      const lamps = Array.from(document.querySelectorAll<HTMLElement>('.lamp'));
+
+      expect(screen.getByLabelText('light bar')).toBeDefined();
+      expect(screen.queryByLabelText('moving target')).toBeNull();
+      expect(lamps).toHaveLength(5);
+      // 368px sweep from x=16: lamp boxes every 92px
+      expect(lamps[0].style.transform).toContain('translateX(16px)');
+      expect(lamps[4].style.transform).toContain('translateX(384px)');
+      expect(lamps[0].style.background).toBe('rgb(17, 17, 17)');
+    });
+
+    it('lights the lamp nearest the start position', () => {
+      const { rerender } = render(<Target {...barProps} />);
+      expect(levels()).toEqual(['0', '0', '1', '0', '0']);
+
+      rerender(<Target {...barProps} startPosition="right" />);
+      expect(levels()).toEqual(['0', '0', '0', '0', '1']);
+    });
+
+    it('dims the neighbours when fading is on', () => {
+      render(<Target {...barProps} lightbar={{ ...barProps.lightbar, fade: true }} />);
+
+      expect(levels()).toEqual(['0.12', '0.35', '1', '0.35', '0.12']);
+    });
+
+    it('moves the light with the motion and pans to the lit lamp', () => {
+      const onPosition = vi.fn();
+      const onEdge = vi.fn();
+      const { rerender } = render(<Target {...barProps} onPosition={onPosition} onEdge={onEdge} />);
+      rerender(<Target {...barProps} playing onPosition={onPosition} onEdge={onEdge} />);
+
+      frame(1000);
+      frame(1250); // center + a quarter pass = three quarters of the way across
+
+      expect(levels()).toEqual(['0', '0', '0', '1', '0']);
+      expect(onPosition).toHaveBeenLastCalledWith(0.75);
+
+      frame(1500);
+      expect(onEdge).toHaveBeenCalledWith('right', 1500);
+      expect(levels()).toEqual(['0', '0', '0', '0', '1']);
+    });
+  });
+});
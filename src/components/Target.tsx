@@ -1,21 +1,44 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { advancePosition, MotionState } from '../lib/motion';
-import type { BuiltinShape } from '../types';
+import {
+  advancePosition,
+  capFlashSpeed,
+  easePhase,
+  EdgeAnchor,
+  EdgeForecast,
+  MotionState,
+  pathPoint,
+  phaseFromProgress,
+  predictNextEdge,
+  speedForTempo,
+  stateFromEdge,
+} from '../lib/motion';
+import { getShape } from '../lib/shapes';
+import type { AppConfig, MotionEasing, MotionPath, ShapeId, VisualMode } from '../types';
 
 type Props = {
   color: string;
   sizePx: number;
-  shape: BuiltinShape | 'emoji' | 'custom';
+  shape: ShapeId | 'emoji' | 'custom';
   emoji?: string;
   customIconUrl?: string;
+  tintIcon?: boolean; // draw the custom icon's silhouette in the target color
+  customPath?: string; // path data for the 'path' shape
   rotate: boolean;
   speedPxPerSec: number;
+  visualMode?: VisualMode; // 'flash' / 'lightbar': fixed targets or lamps lit by the same motion model
+  lightbar?: AppConfig['target']['lightbar'];
+  passesPerMin?: number; // when set, overrides speedPxPerSec for the current stage width
+  path?: MotionPath;
+  easing?: MotionEasing;
   edgePaddingPx: number;
+  amplitudePx?: number; // caps the sweep, centred on the stage
   edgePauseMs: number;
   startPosition: 'center' | 'left' | 'right';
   playing: boolean;
   onPosition?: (normalized: number) => void; // 0..1
-  onEdge?: (side: 'left' | 'right') => void;
+  onEdge?: (side: 'left' | 'right', atMs: number) => void; // atMs: rAF timestamp of the hit frame
+  onEdgeForecast?: (forecast: EdgeForecast) => void; // next predicted edge, reported every frame
+  edgeAnchor?: EdgeAnchor; // latest edge hit of another window's target to follow (performance.now clock)
 };
 
 function useMeasure(ref: React.RefObject<HTMLElement>) {
@@ -33,6 +56,18 @@ function useMeasure(ref: React.RefObject<HTMLElement>) {
   return rect;
 }
 
+/**
+ * Padded travel bounds along one stage axis, optionally narrowed to a centred amplitude.
+ */
+function sweepBounds(extent: number, sizePx: number, edgePaddingPx: number, amplitudePx?: number): [number, number] {
+  const min = Math.max(0, Math.min(edgePaddingPx, Math.max(0, extent - sizePx)));
+  const max = Math.max(min, extent - sizePx - edgePaddingPx);
+  if (amplitudePx === undefined || amplitudePx >= max - min) return [min, max];
+  const mid = (min + max) / 2;
+  const half = Math.max(0, amplitudePx) / 2;
+  return [mid - half, mid + half];
+}
+
 function parseHexColor(hex: string): { r: number; g: number; b: number } | null {
   const m = /^#?([\da-fA-F]{2})([\da-fA-F]{2})([\da-fA-F]{2})$/.exec(hex.trim());
   if (!m) return null;
@@ -54,9 +89,147 @@ function isLight(hex: string): boolean {
   return lum > 0.6;
 }
 
-function Target({ color, sizePx, shape, emoji, customIconUrl, rotate, speedPxPerSec, edgePaddingPx, edgePauseMs, startPosition, playing, onPosition, onEdge }: Props) {
+/**
+ * Inner markup of a target: emoji, uploaded icon or the registered SVG for shapes that aren't plain CSS boxes
+ */
+function ShapeGlyph({ shape, emoji, customIconUrl, tintIcon, customPath, color }: Pick<Props, 'shape' | 'emoji' | 'customIconUrl' | 'tintIcon' | 'customPath' | 'color'>) {
+  const def = getShape(shape);
+  return (
+    <>
+    {shape === 'emoji' && emoji && (
+      <span aria-hidden style={{ display: 'block' }}>{emoji}</span>
+    )}
+
+    {shape === 'custom' && customIconUrl && tintIcon && (
+      // The icon's alpha masks a block of the target color; opaque images fill their whole box
+      <span
+        aria-hidden
+        style={{
+          display: 'block',
+          width: '100%',
+          height: '100%',
+          background: color,
+          WebkitMaskImage: `url("${customIconUrl}")`,
+          maskImage: `url("${customIconUrl}")`,
+          WebkitMaskSize: 'contain',
+          maskSize: 'contain',
+          WebkitMaskRepeat: 'no-repeat',
+          maskRepeat: 'no-repeat',
+          WebkitMaskPosition: 'center',
+          maskPosition: 'center',
+        }}
+      />
+    )}
+
+    {shape === 'custom' && customIconUrl && !tintIcon && (
+      <img
+        src={customIconUrl}
+        alt=""
+        aria-hidden
+        draggable={false}
+        style={{ display: 'block', width: '100%', height: '100%', objectFit: 'contain' }}
+      />
+    )}
+
+    {def?.render && (
+      <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
+        {def.render({ color, customPath })}
+      </svg>
+    )}
+    </>
+  );
+}
+
+/**
+ * Size, fill and corner styling of one target element for its shape.
+ */
+function applyShapeStyle(el: HTMLDivElement, sizePx: number, color: string, shape: Props['shape']) {
+  el.style.top = '0px';
+  el.style.width = `${sizePx}px`;
+  el.style.height = `${sizePx}px`;
+
+  // Handle emoji, custom icon, or built-in shapes
+  if (shape === 'emoji') {
+    el.style.background = 'transparent';
+    el.style.borderRadius = '0px';
+    el.style.fontSize = `${sizePx * 0.85}px`;
+    el.style.lineHeight = `${sizePx}px`;
+    el.style.textAlign = 'center';
+  } else if (shape === 'custom') {
+    el.style.background = 'transparent';
+    el.style.borderRadius = '0px';
+  } else {
+    const def = getShape(shape);
+    // Fill color for non-SVG shapes
+    el.style.background = def?.render ? 'transparent' : color;
+    el.style.borderRadius = def?.round ? '999px' : '0px';
+    // Feature color for svg shapes that use currentColor (e.g., smiley)
+    el.style.color = isLight(color) ? '#000' : '#fff';
+  }
+}
+
+type LightBarProps = {
+  lamps: number;
+  minX: number;
+  range: number;
+  centerY: number; // top of a sizePx box centred on the stage
+  sizePx: number;
+  color: string;
+  offColor: string;
+  lightRefs: React.MutableRefObject<(HTMLDivElement | null)[]>;
+};
+
+/**
+ * Row of lamps spread over the sweep. Only the layout renders here; which lamps glow is
+ * set straight on the light elements each frame, like the moving target's transform.
+ */
+function LightBar({ lamps, minX, range, centerY, sizePx, color, offColor, lightRefs }: LightBarProps) {
+  const spacing = range / (lamps - 1);
+  // Lamps keep a gap between them on narrow stages
+  const lampPx = Math.max(2, Math.min(sizePx, spacing * 0.8 || sizePx));
+  const inset = (sizePx - lampPx) / 2;
+  lightRefs.current.length = lamps;
+
+  return (
+    <div className="lightbar" role="img" aria-label="light bar">
+      {Array.from({ length: lamps }, (_, i) => (
+        <div
+          key={i}
+          className="lamp"
+          style={{
+            width: lampPx,
+            height: lampPx,
+            background: offColor,
+            transform: `translateX(${minX + i * spacing + inset}px) translateY(${centerY + inset}px)`,
+          }}
+        >
+          <div
+            ref={(el) => { lightRefs.current[i] = el; }}
+            className="lamp-light"
+            style={{ background: color, boxShadow: `0 0 ${lampPx}px ${color}` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Light bar lamps either side of the lit one, by distance, when fading is on
+const LAMP_FADE = [1, 0.35, 0.12];
+const DEFAULT_LAMPS = 24;
+
+function Target({ color, sizePx, shape: requestedShape, emoji, customIconUrl, tintIcon = false, customPath, rotate, speedPxPerSec, visualMode = 'motion', lightbar, passesPerMin, path = 'horizontal', easing = 'linear', edgePaddingPx, amplitudePx, edgePauseMs, startPosition, playing, onPosition, onEdge, onEdgeForecast, edgeAnchor }: Props) {
+  // A custom shape whose icon was stripped (e.g. from a share link), or a shape that is
+  // no longer registered, falls back to a circle
+  const missing = requestedShape === 'custom'
+    ? !customIconUrl
+    : requestedShape !== 'emoji' && !getShape(requestedShape);
+  const shape = missing ? 'circle' : requestedShape;
   const containerRef = useRef<HTMLDivElement>(null);
   const dotRef = useRef<HTMLDivElement>(null);
+  const leftRef = useRef<HTMLDivElement>(null); // flash mode targets
+  const rightRef = useRef<HTMLDivElement>(null);
+  const lampLightRefs = useRef<(HTMLDivElement | null)[]>([]); // light bar mode
   const { width, height } = useMeasure(containerRef);
   // Use refs for animation state to avoid triggering React re-renders
   const dirRef = useRef<1 | -1>(1);
@@ -69,53 +242,93 @@ function Target({ color, sizePx, shape, emoji, customIconUrl, rotate, speedPxPer
   const rotateRef = useRef<boolean>(rotate);
   useEffect(() => { rotateRef.current = rotate; }, [rotate]);
   const rotAngleDegRef = useRef<number>(0);
+  const pathRef = useRef<MotionPath>(path);
+  useEffect(() => { pathRef.current = path; }, [path]);
+  const easingRef = useRef<MotionEasing>(easing);
+  useEffect(() => { easingRef.current = easing; }, [easing]);
+  // Flash mode: the side lit by the latest edge hit; null before the first one
+  const litRef = useRef<'left' | 'right' | null>(null);
+  const lamps = Math.max(2, lightbar?.lamps ?? DEFAULT_LAMPS);
+  const fadeRef = useRef(lightbar?.fade ?? true);
+  fadeRef.current = lightbar?.fade ?? true;
 
   // Keep latest callbacks in refs so rAF effect doesn't restart each render
   const onPositionRef = useRef<Props['onPosition']>(onPosition);
   const onEdgeRef = useRef<Props['onEdge']>(onEdge);
   useEffect(() => { onPositionRef.current = onPosition; }, [onPosition]);
   useEffect(() => { onEdgeRef.current = onEdge; }, [onEdge]);
+  const onEdgeForecastRef = useRef<Props['onEdgeForecast']>(onEdgeForecast);
+  useEffect(() => { onEdgeForecastRef.current = onEdgeForecast; }, [onEdgeForecast]);
 
-  const minX = Math.max(0, Math.min(edgePaddingPx, Math.max(0, width - sizePx)));
-  const maxX = Math.max(minX, width - sizePx - edgePaddingPx);
+  const [minX, maxX] = sweepBounds(width, sizePx, edgePaddingPx, amplitudePx);
   const range = Math.max(0, maxX - minX);
+  const [minY, maxY] = sweepBounds(height, sizePx, edgePaddingPx, amplitudePx);
+  const rangeY = Math.max(0, maxY - minY);
+  // Tempo is resolved against the measured range so resizing keeps passes/min constant
+  const requestedSpeed = passesPerMin ? speedForTempo(range, passesPerMin, edgePauseMs) : speedPxPerSec;
+  const flashing = visualMode === 'flash';
+  const lighting = visualMode === 'lightbar';
+  const speed = flashing ? capFlashSpeed(requestedSpeed, range, edgePauseMs) : requestedSpeed;
+
+  // Horizontal traversal progress (0..1) of the 1D model, eased and mapped onto the path
+  const pointAt = (x: number) => {
+    const progress = range > 0 ? (x - minX) / range : 0.5;
+    const phase = easePhase(easingRef.current, phaseFromProgress(progress, dirRef.current));
+    return pathPoint(pathRef.current, phase);
+  };
+
+  // Light bar: the lamp nearest the eased position along a straight bar
+  const lampAt = (x: number) => {
+    const progress = range > 0 ? (x - minX) / range : 0.5;
+    const phase = easePhase(easingRef.current, phaseFromProgress(progress, dirRef.current));
+    return Math.round(pathPoint('horizontal', phase).x * (lamps - 1));
+  };
+
+  // Flash and light bar modes pan to what is lit; the virtual position only keeps the timing
+  const panAt = (x: number) => {
+    if (lighting) return lampAt(x) / (lamps - 1);
+    if (!flashing) return pointAt(x).pan;
+    return litRef.current === null ? 0.5 : litRef.current === 'left' ? 0 : 1;
+  };
 
   const setTransform = (x: number) => {
-    if (!dotRef.current) return;
-    const baseRot = shapeRef.current === 'diamond' ? 45 : 0;
+    const baseRot = getShape(shapeRef.current)?.baseRotationDeg ?? 0;
     const spin = rotateRef.current ? rotAngleDegRef.current : 0;
     const total = baseRot + spin;
     const rot = total !== 0 ? ` rotate(${total}deg)` : '';
-    dotRef.current.style.transform = `translateX(${x}px)${rot}`;
+    if (lighting) {
+      const lit = lampAt(x);
+      lampLightRefs.current.forEach((el, i) => {
+        if (!el) return;
+        const distance = Math.abs(i - lit);
+        const level = distance === 0 ? 1 : fadeRef.current ? LAMP_FADE[distance] ?? 0 : 0;
+        el.style.opacity = String(level);
+      });
+      return;
+    }
+    if (flashing) {
+      const py = minY + rangeY / 2;
+      const sides = [[leftRef.current, 'left', minX], [rightRef.current, 'right', maxX]] as const;
+      for (const [el, side, px] of sides) {
+        if (!el) continue;
+        el.style.transform = `translateX(${px}px) translateY(${py}px)${rot}`;
+        el.dataset.lit = String(litRef.current === side);
+      }
+      return;
+    }
+    if (!dotRef.current) return;
+    const pt = pointAt(x);
+    const px = minX + pt.x * range;
+    const py = minY + pt.y * rangeY;
+    dotRef.current.style.transform = `translateX(${px}px) translateY(${py}px)${rot}`;
   };
 
   useEffect(() => {
-    // center vertically, apply size/color/shape
-    if (dotRef.current) {
-      dotRef.current.style.top = `${Math.max(0, (height - sizePx) / 2)}px`;
-      dotRef.current.style.width = `${sizePx}px`;
-      dotRef.current.style.height = `${sizePx}px`;
-      
-      // Handle emoji, custom icon, or built-in shapes
-      if (shape === 'emoji') {
-        dotRef.current.style.background = 'transparent';
-        dotRef.current.style.borderRadius = '0px';
-        dotRef.current.style.fontSize = `${sizePx * 0.85}px`;
-        dotRef.current.style.lineHeight = `${sizePx}px`;
-        dotRef.current.style.textAlign = 'center';
-      } else if (shape === 'custom') {
-        dotRef.current.style.background = 'transparent';
-        dotRef.current.style.borderRadius = '0px';
-      } else {
-        const usesSvg = shape !== 'circle' && shape !== 'square' && shape !== 'diamond';
-        // Fill color for non-SVG shapes
-        dotRef.current.style.background = usesSvg ? 'transparent' : color;
-        dotRef.current.style.borderRadius = (shape === 'circle' || shape === 'smiley') ? '999px' : '0px';
-        // Feature color for svg shapes that use currentColor (e.g., smiley)
-        dotRef.current.style.color = isLight(color) ? '#000' : '#fff';
-      }
+    // apply size/color/shape; vertical placement comes from the path transform
+    for (const el of [dotRef.current, leftRef.current, rightRef.current]) {
+      if (el) applyShapeStyle(el, sizePx, color, shape);
     }
-  }, [height, sizePx, color, shape]);
+  }, [height, sizePx, color, shape, visualMode]);
 
   // Initialize start position when dimensions or config change and not running
   useEffect(() => {
@@ -124,17 +337,21 @@ function Target({ color, sizePx, shape, emoji, customIconUrl, rotate, speedPxPer
     if (startPosition === 'left') startX = minX;
     if (startPosition === 'right') startX = maxX;
     posRef.current = startX;
+    // A side start counts as having just hit that edge
+    litRef.current = startPosition === 'center' ? null : startPosition;
     setTransform(posRef.current);
-  }, [playing, minX, maxX, range, startPosition]);
+  }, [playing, minX, maxX, range, minY, maxY, startPosition, path, easing, visualMode, lamps, lightbar?.fade]);
 
   useEffect(() => {
     const step = (ts: number) => {
       if (!lastTsRef.current) lastTsRef.current = ts;
-      const dt = (ts - lastTsRef.current) / 1000;
+      // A sync jump can set lastTs a little past this frame's timestamp
+      const dt = Math.max(0, (ts - lastTsRef.current) / 1000);
       lastTsRef.current = ts;
+      const params = { minX, maxX, speedPxPerSec: speed, edgePauseMs };
       const next = advancePosition(
         { x: posRef.current, dir: dirRef.current, pausedUntilMs: pausedUntilRef.current } as MotionState,
-        { minX, maxX, speedPxPerSec, edgePauseMs },
+        params,
         dt,
         ts,
       );
@@ -146,9 +363,15 @@ function Target({ color, sizePx, shape, emoji, customIconUrl, rotate, speedPxPer
         const ROT_SPEED = 180; // deg/s
         rotAngleDegRef.current = (rotAngleDegRef.current + ROT_SPEED * dt) % 360;
       }
-      if (next.hitEdge) onEdgeRef.current?.(next.hitEdge);
-      const norm = range > 0 ? (posRef.current - minX) / range : 0.5;
-      onPositionRef.current?.(norm);
+      if (next.hitEdge) {
+        litRef.current = next.hitEdge;
+        onEdgeRef.current?.(next.hitEdge, ts);
+      }
+      if (onEdgeForecastRef.current) {
+        const forecast = predictNextEdge(next, params, ts);
+        if (forecast) onEdgeForecastRef.current(forecast);
+      }
+      onPositionRef.current?.(panAt(posRef.current));
       setTransform(posRef.current);
       rafRef.current = requestAnimationFrame(step);
     };
@@ -161,70 +384,49 @@ function Target({ color, sizePx, shape, emoji, customIconUrl, rotate, speedPxPer
       rafRef.current = null;
       lastTsRef.current = null;
     };
-  }, [playing, speedPxPerSec, minX, maxX, range, edgePauseMs]);
+  }, [playing, speed, minX, maxX, range, minY, maxY, edgePauseMs, visualMode, lamps]);
+
+  // Re-anchor on each edge the followed window reports, so the two never drift apart
+  useEffect(() => {
+    if (!playing || !edgeAnchor) return;
+    const now = performance.now();
+    const next = stateFromEdge(edgeAnchor, { minX, maxX, speedPxPerSec: speed, edgePauseMs }, now);
+    posRef.current = next.x;
+    dirRef.current = next.dir;
+    pausedUntilRef.current = next.pausedUntilMs;
+    // Heading right means the left edge was the last one hit
+    litRef.current = next.dir === 1 ? 'left' : 'right';
+    lastTsRef.current = now;
+    setTransform(posRef.current);
+  }, [edgeAnchor]);
 
   return (
     <div ref={containerRef} className="stage-inner" aria-label="Bilateral visual stage">
-      <div ref={dotRef} className="target" role="img" aria-label="moving target">
-        {shape === 'emoji' && emoji && (
-          <span aria-hidden style={{ display: 'block' }}>{emoji}</span>
-        )}
-
-        {shape === 'smiley' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <circle cx="50" cy="50" r="50" fill={color} />
-            <circle cx="35" cy="38" r="6" fill="currentColor" />
-            <circle cx="65" cy="38" r="6" fill="currentColor" />
-            <path d="M30 60 C 40 78, 60 78, 70 60" fill="none" stroke="currentColor" strokeWidth="6" strokeLinecap="round" />
-          </svg>
-        )}
-
-        {shape === 'triangle' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <polygon points="50,8 92,92 8,92" fill={color} />
-          </svg>
-        )}
-
-        {shape === 'star' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <polygon fill={color}
-              points="50,5 61,35 93,38 68,58 76,90 50,72 24,90 32,58 7,38 39,35" />
-          </svg>
-        )}
-
-        {shape === 'hexagon' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <polygon fill={color} points="25,10 75,10 95,50 75,90 25,90 5,50" />
-          </svg>
-        )}
-
-        {shape === 'ring' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <circle cx="50" cy="50" r="40" fill="none" stroke={color} strokeWidth="16" />
-          </svg>
-        )}
-
-        {shape === 'bullseye' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <circle cx="50" cy="50" r="45" fill="none" stroke={color} strokeWidth="10" />
-            <circle cx="50" cy="50" r="28" fill="none" stroke={color} strokeWidth="10" />
-            <circle cx="50" cy="50" r="12" fill={color} />
-          </svg>
-        )}
-
-        {shape === 'cross' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <rect x="42" y="10" width="16" height="80" fill={color} />
-            <rect x="10" y="42" width="80" height="16" fill={color} />
-          </svg>
-        )}
-
-        {shape === 'heart' && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet" aria-hidden>
-            <path fill={color} d="M50 85 L15 50 C5 40 5 25 18 16 C31 7 45 13 50 23 C55 13 69 7 82 16 C95 25 95 40 85 50 Z" />
-          </svg>
-        )}
-      </div>
+      {lighting ? (
+        <LightBar
+          lamps={lamps}
+          minX={minX}
+          range={range}
+          centerY={minY + rangeY / 2}
+          sizePx={sizePx}
+          color={color}
+          offColor={lightbar?.offColor ?? '#202224'}
+          lightRefs={lampLightRefs}
+        />
+      ) : flashing ? (
+        <>
+          <div ref={leftRef} className="target flash-target" role="img" aria-label="left flash target">
+            <ShapeGlyph shape={shape} emoji={emoji} customIconUrl={customIconUrl} tintIcon={tintIcon} customPath={customPath} color={color} />
+          </div>
+          <div ref={rightRef} className="target flash-target" role="img" aria-label="right flash target">
+            <ShapeGlyph shape={shape} emoji={emoji} customIconUrl={customIconUrl} tintIcon={tintIcon} customPath={customPath} color={color} />
+          </div>
+        </>
+      ) : (
+        <div ref={dotRef} className="target" role="img" aria-label="moving target">
+          <ShapeGlyph shape={shape} emoji={emoji} customIconUrl={customIconUrl} tintIcon={tintIcon} customPath={customPath} color={color} />
+        </div>
+      )}
     </div>
   );
 }
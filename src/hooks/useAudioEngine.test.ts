@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useAudioEngine } from './useAudioEngine';
+import { registerSoundGenerator } from '../lib/soundGenerators';
+import type { SoundId } from '../types';
 
 // Mock AudioContext and related APIs
 const mockOscillator = {
@@ -18,6 +20,7 @@ const mockGainNode = {
     setValueAtTime: vi.fn(),
     linearRampToValueAtTime: vi.fn(),
     exponentialRampToValueAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
   },
 };
 
@@ -29,7 +32,9 @@ const mockStereoPannerNode = {
 const mockBufferSource = {
   connect: vi.fn(),
   start: vi.fn(),
+  stop: vi.fn(),
   buffer: null,
+  loop: false,
 };
 
 const mockBiquadFilter = {
@@ -147,6 +152,42 @@ describe('useAudioEngine', () => {
     expect(mockAudioContext.createBiquadFilter).toHaveBeenCalled();
   });
 
+  it('plays registered sounds into the panner', async () => {
+    const play = vi.fn(() => []);
+    registerSoundGenerator({ id: 'test-bell' as SoundId, label: 'Bell', play });
+    const { result } = renderHook(() =>
+      useAudioEngine(true, 0.5, 'sawtooth', 'test-bell' as SoundId, undefined, 'high', 1, 40)
+    );
+
+    await act(async () => {
+      result.current.start();
+      result.current.click();
+    });
+
+    expect(play).toHaveBeenCalledWith({
+      ctx: mockAudioContext,
+      destination: mockStereoPannerNode,
+      at: 0,
+      pitchHz: 950,
+      waveform: 'sawtooth',
+      fadeInSec: 0.04,
+    });
+  });
+
+  it('falls back to the click for an unknown sound', async () => {
+    const { result } = renderHook(() =>
+      useAudioEngine(true, 0.5, 'square', 'gong' as SoundId)
+    );
+
+    await act(async () => {
+      result.current.start();
+      result.current.click();
+    });
+
+    expect(mockOscillator.type).toBe('square');
+    expect(mockOscillator.stop).toHaveBeenCalledWith(0.03);
+  });
+
   it('sets pan value correctly', async () => {
     const { result } = renderHook(() => 
       useAudioEngine(true, 0.5, 'square', 'click')
@@ -258,4 +299,325 @@ describe('useAudioEngine', () => {
 
     expect(mockGainNode.gain.value).toBe(0);
   });
-});
\ No newline at end of file
+
+  describe('edge scheduling', () => {
+    beforeEach(() => {
+      vi.spyOn(performance, 'now').mockReturnValue(1000);
+    });
+
+    it('queues an edge sound ahead on the audio clock', async () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockOscillator.start).toHaveBeenCalledTimes(1);
+      expect(mockOscillator.start.mock.calls[0][0]).toBeCloseTo(0.05, 5);
+    });
+
+    it('does not queue the same edge twice when re-predicted', async () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+        result.current.scheduleEdges({ atMs: 1053, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockOscillator.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves edges beyond the lookahead window for later', async () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1500, side: 'left', periodMs: 1000 });
+      });
+
+      expect(mockOscillator.start).not.toHaveBeenCalled();
+    });
+
+    it('silences queued edge sounds on stop', async () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+      });
+      mockOscillator.stop.mockClear();
+      act(() => result.current.stop());
+
+      expect(mockOscillator.stop).toHaveBeenCalledTimes(1);
+      expect(mockOscillator.stop.mock.calls[0]).toEqual([]);
+    });
+
+    it('measures drift between the visual hit and the queued sound', async () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+        result.current.markVisualEdge(1062);
+      });
+
+      expect(result.current.getDrift()).toEqual({ lastMs: 12, meanAbsMs: 12, maxAbsMs: 12, samples: 1 });
+    });
+
+    it('queues edges early by the latency offset', async () => {
+      const { result } = renderHook(() =>
+        useAudioEngine(true, 0.5, 'square', 'click', undefined, 'medium', 1, 0, 200)
+      );
+
+      await act(async () => {
+        result.current.start();
+        // Heard at 1250 ms, so it has to be queued for 1050 ms
+        result.current.scheduleEdges({ atMs: 1250, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockOscillator.start).toHaveBeenCalledTimes(1);
+      expect(mockOscillator.start.mock.calls[0][0]).toBeCloseTo(0.05, 5);
+    });
+
+    it('applies the offset once, ignoring the output timestamp', async () => {
+      // A browser whose output clock already runs 190 ms behind currentTime
+      (mockAudioContext as any).getOutputTimestamp = () => ({ contextTime: -0.19, performanceTime: 1000 });
+      const { result } = renderHook(() =>
+        useAudioEngine(true, 0.5, 'square', 'click', undefined, 'medium', 1, 0, 190)
+      );
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1240, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockOscillator.start.mock.calls[0][0]).toBeCloseTo(0.05, 5);
+      delete (mockAudioContext as any).getOutputTimestamp;
+    });
+
+    it('estimates output latency from the context', async () => {
+      (mockAudioContext as any).outputLatency = 0.18;
+      (mockAudioContext as any).baseLatency = 0.01;
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+
+      let ms: number | null = null;
+      await act(async () => {
+        ms = await result.current.estimateLatencyMs();
+      });
+
+      expect(ms).toBe(190);
+      delete (mockAudioContext as any).outputLatency;
+      delete (mockAudioContext as any).baseLatency;
+    });
+
+    it('reports no drift before any edge is queued', () => {
+      const { result } = renderHook(() => useAudioEngine(true, 0.5, 'square', 'click'));
+      result.current.markVisualEdge(1000);
+      expect(result.current.getDrift().samples).toBe(0);
+    });
+  });
+
+  describe('continuous mode', () => {
+    const continuous = (sound: 'tone' | 'noise' = 'tone') =>
+      renderHook(() =>
+        useAudioEngine(true, 0.5, 'sine', 'continuous', undefined, 'medium', 1, 0, 0, sound)
+      );
+
+    it('fades in a sustained tone on start', async () => {
+      const { result } = continuous();
+
+      await act(async () => {
+        result.current.start();
+      });
+
+      expect(mockAudioContext.createOscillator).toHaveBeenCalledTimes(1);
+      expect(mockOscillator.frequency.value).toBe(600);
+      expect(mockOscillator.start).toHaveBeenCalled();
+      expect(mockGainNode.gain.linearRampToValueAtTime).toHaveBeenCalledWith(0.3, expect.any(Number));
+    });
+
+    it('plays no edge sounds', async () => {
+      const { result } = continuous();
+
+      await act(async () => {
+        result.current.start();
+      });
+      result.current.click();
+
+      expect(mockAudioContext.createOscillator).toHaveBeenCalledTimes(1);
+    });
+
+    it('still ticks for the tap test', async () => {
+      const { result } = continuous();
+
+      await act(async () => {
+        result.current.start();
+      });
+      await act(async () => {
+        result.current.clickAt(performance.now());
+      });
+
+      expect(mockAudioContext.createOscillator).toHaveBeenCalledTimes(2);
+      expect(mockOscillator.stop).toHaveBeenCalled();
+    });
+
+    it('loops filtered noise for the noise bed', async () => {
+      const { result } = continuous('noise');
+
+      await act(async () => {
+        result.current.start();
+      });
+
+      expect(mockAudioContext.createBufferSource).toHaveBeenCalled();
+      expect(mockBufferSource.loop).toBe(true);
+      expect(mockBiquadFilter.type).toBe('lowpass');
+      mockBufferSource.loop = false;
+      mockBiquadFilter.type = 'highpass';
+    });
+
+    it('fades out before suspending on stop', async () => {
+      const { result } = continuous();
+
+      await act(async () => {
+        result.current.start();
+      });
+
+      vi.useFakeTimers();
+      try {
+        result.current.stop();
+        expect(mockGainNode.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0, expect.any(Number));
+        expect(mockOscillator.stop).toHaveBeenCalled();
+        expect(mockAudioContext.suspend).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(400);
+        expect(mockAudioContext.suspend).toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('file playback', () => {
+    const loadFile = async (playback: 'one-shot' | 'fit-pass' | 'loop') => {
+      (globalThis.fetch as any).mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
+      });
+      const hook = renderHook(() =>
+        useAudioEngine(true, 0.5, 'sine', 'file', 'blob:test-url', 'medium', 1, 0, 0, 'tone', playback)
+      );
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+      return hook;
+    };
+
+    beforeEach(() => {
+      vi.spyOn(performance, 'now').mockReturnValue(1000);
+    });
+
+    it('trims a long file to the pass length', async () => {
+      // Decoded mock buffer lasts 1.5 s; passes here are 1 s apart
+      const { result } = await loadFile('fit-pass');
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockBufferSource.start).toHaveBeenCalledTimes(1);
+      expect(mockBufferSource.stop.mock.calls[0][0]).toBeCloseTo(1.05, 5);
+      expect(mockGainNode.gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0, expect.closeTo(1.05, 5));
+    });
+
+    it('plays the whole file in one-shot mode', async () => {
+      const { result } = await loadFile('one-shot');
+
+      await act(async () => {
+        result.current.start();
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockBufferSource.start).toHaveBeenCalledTimes(1);
+      expect(mockBufferSource.stop).not.toHaveBeenCalled();
+    });
+
+    it('loops the file as a bed instead of firing it at edges', async () => {
+      const { result } = await loadFile('loop');
+
+      await act(async () => {
+        result.current.start();
+      });
+      await act(async () => {
+        result.current.scheduleEdges({ atMs: 1050, side: 'right', periodMs: 1000 });
+      });
+
+      expect(mockBufferSource.start).toHaveBeenCalledTimes(1);
+      expect(mockBufferSource.loop).toBe(true);
+      mockBufferSource.loop = false;
+    });
+
+    const loopHook = (initialUrl: string) =>
+      renderHook(({ url }) =>
+        useAudioEngine(true, 0.5, 'sine', 'file', url, 'medium', 1, 0, 0, 'tone', 'loop'), { initialProps: { url: initialUrl } }
+      );
+    const flush = () => act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    it('starts the loop once a file decodes after play was pressed', async () => {
+      let respond: (value: unknown) => void = () => {};
+      (globalThis.fetch as any).mockReturnValue(new Promise((resolve) => { respond = resolve; }));
+      const { result } = loopHook('blob:slow');
+
+      await act(async () => {
+        result.current.start();
+      });
+      expect(mockBufferSource.start).not.toHaveBeenCalled();
+
+      respond({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+      await flush();
+
+      expect(mockBufferSource.start).toHaveBeenCalledTimes(1);
+      expect(mockBufferSource.loop).toBe(true);
+      mockBufferSource.loop = false;
+    });
+
+    it('swaps the looping buffer when another file is picked', async () => {
+      (globalThis.fetch as any).mockResolvedValue({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) });
+      const { result, rerender } = loopHook('blob:first');
+      await flush();
+      await act(async () => {
+        result.current.start();
+      });
+      const firstBuffer = mockBufferSource.buffer;
+
+      rerender({ url: 'blob:second' });
+      await flush();
+
+      expect(mockBufferSource.start).toHaveBeenCalledTimes(2);
+      expect(mockBufferSource.stop).toHaveBeenCalled(); // old loop faded out
+      expect(mockBufferSource.buffer).not.toBe(firstBuffer);
+      mockBufferSource.loop = false;
+    });
+
+    it('keeps the newest file when loads overlap', async () => {
+      let respondFirst: (value: unknown) => void = () => {};
+      const arrayBuffer = () => Promise.resolve(new ArrayBuffer(8));
+      (globalThis.fetch as any)
+        .mockReturnValueOnce(new Promise((resolve) => { respondFirst = resolve; }))
+        .mockResolvedValueOnce({ ok: true, arrayBuffer });
+      const { rerender } = loopHook('blob:first');
+
+      rerender({ url: 'blob:second' });
+      await flush();
+      respondFirst({ ok: true, arrayBuffer });
+      await flush();
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('blob:second');
+      expect(mockAudioContext.decodeAudioData).toHaveBeenCalledTimes(1);
+    });
+  });
+});
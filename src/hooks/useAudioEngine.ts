@@ -1,35 +1,96 @@
-import { useEffect, useMemo, useRef } from 'react';
-import type { PitchPreset } from '../types';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { EdgeForecast } from '../lib/motion';
+import { getSoundGenerator, PITCH_HZ } from '../lib/soundGenerators';
+import type { AudioMode, ContinuousSound, FilePlayback, PitchPreset } from '../types';
+
+export interface DriftStats {
+  lastMs: number | null; // visual hit minus scheduled sound, latest edge
+  meanAbsMs: number;
+  maxAbsMs: number;
+  samples: number;
+}
 
 interface AudioEngineAPI {
   start: () => void;
   stop: () => void;
   setPan: (p: number) => void; // -1..1
   setVolume: (v: number) => void; // 0..1
-  click: () => void; // short audible click
+  click: () => void; // short audible click, played immediately
+  scheduleEdges: (forecast: EdgeForecast) => void; // queue edge sounds ahead on the audio clock
+  markVisualEdge: (atMs: number) => void; // record when the target visibly hit an edge
+  getDrift: () => DriftStats;
+  clickAt: (atMs: number) => void; // play the sound at a performance.now() time, uncompensated
+  estimateLatencyMs: () => Promise<number | null>; // output latency reported by the browser
+}
+
+// Sounds are queued this far ahead of the audio clock; comfortably more than one frame
+const LOOKAHEAD_MS = 100;
+// Scheduled edge times kept around to match against visual hits
+const SCHEDULE_HISTORY = 8;
+
+// Continuous bed: level under the master gain and the fade used on play/stop
+const BED_LEVEL = 0.3;
+const BED_RAMP_SEC = 0.4;
+
+// Fade applied when a file is trimmed to the pass length
+const FILE_FADE_SEC = 0.05;
+
+interface Bed {
+  kind: ContinuousSound | 'file';
+  source: OscillatorNode | AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+const EMPTY_DRIFT: DriftStats = { lastMs: null, meanAbsMs: 0, maxAbsMs: 0, samples: 0 };
+
+/**
+ * Ramp a continuous bed to silence and stop its source once the ramp ends.
+ */
+function fadeOutBed(ctx: AudioContext, bed: Bed) {
+  const now = ctx.currentTime;
+  bed.gain.gain.cancelScheduledValues(now);
+  bed.gain.gain.setValueAtTime(bed.gain.gain.value, now);
+  bed.gain.gain.linearRampToValueAtTime(0, now + BED_RAMP_SEC);
+  bed.source.stop(now + BED_RAMP_SEC);
 }
 
-const PITCH_HZ: Record<PitchPreset, number> = {
-  low: 300,
-  medium: 600,
-  high: 950,
-};
+/**
+ * Map a performance.now() timestamp onto the AudioContext clock.
+ * Goes through currentTime, i.e. when the sound is rendered rather than heard: output
+ * latency is left to audio.latencyOffsetMs (by hand, Auto or the tap test), so it is
+ * compensated exactly once.
+ */
+function perfToContextTime(ctx: AudioContext, perfMs: number): number {
+  return ctx.currentTime + (perfMs - performance.now()) / 1000;
+}
 
 export function useAudioEngine(
   enabled: boolean, 
   volume: number, 
   waveform: OscillatorType = 'sine',
-  audioMode: 'click' | 'beep' | 'hiss' | 'chirp' | 'pulse' | 'file' = 'click',
+  audioMode: AudioMode = 'click',
   fileUrl?: string,
   pitch: PitchPreset = 'medium',
   panDepth: number = 1,
-  fadeInMs: number = 0
+  fadeInMs: number = 0,
+  latencyOffsetMs: number = 0,
+  continuousSound: ContinuousSound = 'tone',
+  filePlayback: FilePlayback = 'fit-pass'
 ): AudioEngineAPI {
   const ctxRef = useRef<AudioContext | null>(null);
   const gainRef = useRef<GainNode | null>(null);
   const panRef = useRef<StereoPannerNode | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
-  const loadingRef = useRef<boolean>(false);
+  // Bumped when a file finishes decoding so a looping bed waiting on it can start
+  const [bufferVersion, setBufferVersion] = useState(0);
+  const activeRef = useRef(false); // between start() and stop()
+  // perf-clock times of edge sounds already queued, newest last
+  const scheduledRef = useRef<number[]>([]);
+  // Source nodes of queued edge sounds that haven't finished; stop() silences them
+  const queuedRef = useRef(new Set<AudioScheduledSourceNode>());
+  const driftRef = useRef<DriftStats>(EMPTY_DRIFT);
+  const bedRef = useRef<Bed | null>(null);
+  const suspendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     if (!enabled) return;
@@ -38,6 +99,18 @@ export function useAudioEngine(
     if (g) g.gain.value = volume;
   }, [enabled, volume]);
 
+  const sustained = audioMode === 'continuous' || (audioMode === 'file' && filePlayback === 'loop');
+
+  // Fade the continuous bed out when switching to an edge-triggered mode
+  useEffect(() => {
+    if (sustained) return;
+    const ctx = ctxRef.current;
+    const bed = bedRef.current;
+    if (!ctx || !bed) return;
+    fadeOutBed(ctx, bed);
+    bedRef.current = null;
+  }, [sustained]);
+
   // Load audio file when fileUrl changes
   useEffect(() => {
     if (audioMode !== 'file' || !fileUrl || !enabled) {
@@ -45,10 +118,9 @@ export function useAudioEngine(
       return;
     }
 
+    // A newer fileUrl (or mode change) supersedes a load still in flight
+    let cancelled = false;
     const loadAudio = async () => {
-      if (loadingRef.current) return;
-      loadingRef.current = true;
-
       try {
         const response = await fetch(fileUrl);
         if (!response.ok) {
@@ -56,6 +128,7 @@ export function useAudioEngine(
         }
         
         const arrayBuffer = await response.arrayBuffer();
+        if (cancelled) return;
         
         if (!ctxRef.current) {
           const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -63,21 +136,25 @@ export function useAudioEngine(
         }
 
         const audioBuffer = await ctxRef.current.decodeAudioData(arrayBuffer);
+        if (cancelled) return;
         audioBufferRef.current = audioBuffer;
+        setBufferVersion((v) => v + 1);
       } catch {
-        audioBufferRef.current = null;
-      } finally {
-        loadingRef.current = false;
+        if (!cancelled) audioBufferRef.current = null;
       }
     };
 
     loadAudio();
+    return () => {
+      cancelled = true;
+    };
   }, [audioMode, fileUrl, enabled]);
 
-  return useMemo(() => {
+  const api = useMemo(() => {
     const ensure = async () => {
-      if (!ctxRef.current) {
-        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      // The file loader may already have created the context without the output graph
+      if (!ctxRef.current || !gainRef.current) {
+        const ctx = ctxRef.current ?? new (window.AudioContext || (window as any).webkitAudioContext)();
         const gain = ctx.createGain();
         const pan = ctx.createStereoPanner();
         gain.gain.value = Math.max(0, Math.min(1, volume));
@@ -91,9 +168,150 @@ export function useAudioEngine(
       if (ctxRef.current?.state === 'suspended') await ctxRef.current.resume();
     };
 
+    const fadeInSec = Math.max(0, fadeInMs) / 1000;
+    const baseFreq = PITCH_HZ[pitch] || PITCH_HZ.medium;
+
+    // Start (or retune) the sustained bed; it pans with setPan like the edge sounds
+    const startBed = (ctx: AudioContext, pan: StereoPannerNode) => {
+      const kind = audioMode === 'file' ? 'file' : continuousSound;
+      const current = bedRef.current;
+      // A different file restarts the loop; anything else just retunes the running bed
+      const staleFile = current?.kind === 'file' && (current.source as AudioBufferSourceNode).buffer !== audioBufferRef.current;
+      if (current && current.kind === kind && !staleFile) {
+        if ('frequency' in current.source) {
+          current.source.type = waveform;
+          current.source.frequency.value = baseFreq;
+        }
+        return;
+      }
+      if (current) fadeOutBed(ctx, current);
+
+      const now = ctx.currentTime;
+      const gain = ctx.createGain();
+      let source: OscillatorNode | AudioBufferSourceNode;
+      if (kind === 'file') {
+        // Looping upload; nothing to play until it has decoded
+        if (!audioBufferRef.current) return;
+        const loop = ctx.createBufferSource();
+        loop.buffer = audioBufferRef.current;
+        loop.loop = true;
+        loop.connect(gain);
+        source = loop;
+      } else if (kind === 'noise') {
+        // Looping noise softened by a lowpass that follows the pitch preset
+        const length = ctx.sampleRate * 2;
+        const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+        const data = buffer.getChannelData(0);
+        for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+        const noise = ctx.createBufferSource();
+        noise.buffer = buffer;
+        noise.loop = true;
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = baseFreq * 2;
+        noise.connect(filter);
+        filter.connect(gain);
+        source = noise;
+      } else {
+        const osc = ctx.createOscillator();
+        osc.type = waveform;
+        osc.frequency.value = baseFreq;
+        osc.connect(gain);
+        source = osc;
+      }
+      gain.gain.setValueAtTime(0, now);
+      // Files are mixed at their own level; generated beds sit lower
+      gain.gain.linearRampToValueAtTime(kind === 'file' ? 1 : BED_LEVEL, now + BED_RAMP_SEC);
+      gain.connect(pan);
+      source.start(now);
+      bedRef.current = { kind, source, gain };
+    };
+
+    // Registered edge sound; unknown ids (including the sustained modes and files that
+    // fail to play) fall back to the click
+    const playGeneratedSound = (ctx: AudioContext, pan: StereoPannerNode, now: number): AudioScheduledSourceNode[] => {
+      const generator = getSoundGenerator(audioMode) ?? getSoundGenerator('click')!;
+      return generator.play({ ctx, destination: pan, at: now, pitchHz: baseFreq, waveform, fadeInSec });
+    };
+
+    // Play the configured sound at an AudioContext time (seconds) and return its source nodes;
+    // passSec, when known, is the time until the next edge
+    const playAt = (ctx: AudioContext, pan: StereoPannerNode, now: number, passSec?: number): AudioScheduledSourceNode[] => {
+      // Sustained beds have no edge sound
+      if (sustained) return [];
+
+      if (audioMode === 'file' && audioBufferRef.current) {
+        // Play custom audio file
+        try {
+          const buffer = audioBufferRef.current;
+          const source = ctx.createBufferSource();
+          source.buffer = buffer;
+          const trimSec = filePlayback === 'fit-pass' && passSec && buffer.duration > passSec ? passSec : 0;
+          if (trimSec > 0) {
+            // Trim to the pass with a short fade so consecutive edges never overlap
+            const fileGain = ctx.createGain();
+            const fade = Math.min(FILE_FADE_SEC, trimSec / 2);
+            fileGain.gain.setValueAtTime(1, now + trimSec - fade);
+            fileGain.gain.linearRampToValueAtTime(0, now + trimSec);
+            source.connect(fileGain);
+            fileGain.connect(pan);
+          } else {
+            source.connect(pan);
+          }
+          source.start(now);
+          if (trimSec > 0) source.stop(now + trimSec);
+          return [source];
+        } catch {
+          // Fallback to generated click if custom audio fails
+          return playGeneratedSound(ctx, pan, now);
+        }
+      }
+      // Play generated sound
+      return playGeneratedSound(ctx, pan, now);
+    };
+
     const api: AudioEngineAPI = {
-      start: () => { if (enabled) ensure(); },
-      stop: () => { ctxRef.current?.suspend(); },
+      start: () => {
+        if (!enabled) return;
+        activeRef.current = true;
+        if (suspendTimerRef.current) {
+          clearTimeout(suspendTimerRef.current);
+          suspendTimerRef.current = null;
+        }
+        ensure().then(() => {
+          const ctx = ctxRef.current;
+          const pan = panRef.current;
+          if (sustained && ctx && pan) startBed(ctx, pan);
+        });
+      },
+      stop: () => {
+        activeRef.current = false;
+        scheduledRef.current = [];
+        // Edges queued ahead would otherwise still sound after Stop
+        queuedRef.current.forEach((node) => {
+          try {
+            node.stop();
+          } catch {
+            // already stopped
+          }
+        });
+        queuedRef.current.clear();
+        const ctx = ctxRef.current;
+        const bed = bedRef.current;
+        if (!ctx) return;
+        if (!bed) {
+          ctx.suspend();
+          return;
+        }
+        // Let the bed fade out before the context is suspended
+        fadeOutBed(ctx, bed);
+        bedRef.current = null;
+        if (suspendTimerRef.current) clearTimeout(suspendTimerRef.current);
+        suspendTimerRef.current = setTimeout(() => {
+          suspendTimerRef.current = null;
+          ctx.suspend();
+        }, BED_RAMP_SEC * 1000);
+      },
       setPan: (p: number) => {
         // Apply panDepth to scale the stereo spread
         const scaled = p * Math.max(0, Math.min(1, panDepth));
@@ -113,153 +331,76 @@ export function useAudioEngine(
         const pan = panRef.current;
         const gain = gainRef.current;
         if (!ctx || !pan || !gain) return;
-
-        const fadeInSec = Math.max(0, fadeInMs) / 1000;
-        const baseFreq = PITCH_HZ[pitch] || PITCH_HZ.medium;
-
-        const playGeneratedSound = () => {
-          const now = ctx.currentTime;
-          
-          switch (audioMode) {
-            case 'click': {
-              // Short tick sound using pitch preset
-              const osc = ctx.createOscillator();
-              const oscGain = ctx.createGain();
-              osc.type = waveform;
-              osc.frequency.value = baseFreq;
-              // Apply fade-in if configured
-              if (fadeInSec > 0) {
-                oscGain.gain.setValueAtTime(0, now);
-                oscGain.gain.linearRampToValueAtTime(0.5, now + Math.min(fadeInSec, 0.02));
-              } else {
-                oscGain.gain.value = 0.5;
-              }
-              osc.connect(oscGain);
-              oscGain.connect(pan);
-              osc.start(now);
-              osc.stop(now + 0.03 + fadeInSec);
-              break;
-            }
-            
-            case 'beep': {
-              // Classic beep sound using pitch preset
-              const osc = ctx.createOscillator();
-              const oscGain = ctx.createGain();
-              osc.type = 'sine';
-              osc.frequency.value = baseFreq;
-              oscGain.gain.setValueAtTime(0, now);
-              oscGain.gain.linearRampToValueAtTime(0.3, now + Math.max(0.01, fadeInSec));
-              oscGain.gain.exponentialRampToValueAtTime(0.001, now + 0.15 + fadeInSec);
-              osc.connect(oscGain);
-              oscGain.connect(pan);
-              osc.start(now);
-              osc.stop(now + 0.15 + fadeInSec);
-              break;
-            }
-            
-            case 'hiss': {
-              // White noise burst with fade-in
-              const bufferSize = ctx.sampleRate * 0.1; // 100ms
-              const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
-              const data = buffer.getChannelData(0);
-              for (let i = 0; i < bufferSize; i++) {
-                data[i] = (Math.random() * 2 - 1) * 0.3;
-              }
-              const source = ctx.createBufferSource();
-              const hissGain = ctx.createGain();
-              const filter = ctx.createBiquadFilter();
-              filter.type = 'highpass';
-              filter.frequency.value = baseFreq * 3; // Scale with pitch
-              source.buffer = buffer;
-              hissGain.gain.setValueAtTime(0, now);
-              hissGain.gain.linearRampToValueAtTime(0.4, now + Math.max(0.01, fadeInSec));
-              hissGain.gain.exponentialRampToValueAtTime(0.001, now + 0.08 + fadeInSec);
-              source.connect(filter);
-              filter.connect(hissGain);
-              hissGain.connect(pan);
-              source.start(now);
-              break;
-            }
-            
-            case 'chirp': {
-              // Frequency sweep based on pitch preset
-              const osc = ctx.createOscillator();
-              const oscGain = ctx.createGain();
-              osc.type = 'sine';
-              const startFreq = baseFreq * 0.3;
-              const endFreq = baseFreq * 2;
-              osc.frequency.setValueAtTime(startFreq, now);
-              osc.frequency.exponentialRampToValueAtTime(endFreq, now + 0.12 + fadeInSec);
-              oscGain.gain.setValueAtTime(0, now);
-              oscGain.gain.linearRampToValueAtTime(0.25, now + Math.max(0.01, fadeInSec));
-              oscGain.gain.exponentialRampToValueAtTime(0.001, now + 0.12 + fadeInSec);
-              osc.connect(oscGain);
-              oscGain.connect(pan);
-              osc.start(now);
-              osc.stop(now + 0.12 + fadeInSec);
-              break;
-            }
-            
-            case 'pulse': {
-              // Rhythmic pulse using pitch preset
-              const osc = ctx.createOscillator();
-              const oscGain = ctx.createGain();
-              osc.type = 'square';
-              osc.frequency.value = baseFreq * 0.25;
-              oscGain.gain.setValueAtTime(0, now);
-              // Create pulse pattern with fade-in
-              const attackTime = Math.max(0.01, fadeInSec);
-              oscGain.gain.linearRampToValueAtTime(0.3, now + attackTime);
-              oscGain.gain.linearRampToValueAtTime(0.3, now + 0.05);
-              oscGain.gain.linearRampToValueAtTime(0, now + 0.06);
-              oscGain.gain.linearRampToValueAtTime(0, now + 0.08);
-              oscGain.gain.linearRampToValueAtTime(0.3, now + 0.09);
-              oscGain.gain.linearRampToValueAtTime(0.3, now + 0.13);
-              oscGain.gain.linearRampToValueAtTime(0, now + 0.14);
-              osc.connect(oscGain);
-              oscGain.connect(pan);
-              osc.start(now);
-              osc.stop(now + 0.2 + fadeInSec);
-              break;
-            }
-            
-            default: {
-              // Fallback to click using pitch
-              const osc = ctx.createOscillator();
-              const oscGain = ctx.createGain();
-              osc.type = waveform;
-              osc.frequency.value = baseFreq;
-              if (fadeInSec > 0) {
-                oscGain.gain.setValueAtTime(0, now);
-                oscGain.gain.linearRampToValueAtTime(0.5, now + Math.min(fadeInSec, 0.02));
-              } else {
-                oscGain.gain.value = 0.5;
-              }
-              osc.connect(oscGain);
-              oscGain.connect(pan);
-              osc.start(now);
-              osc.stop(now + 0.03 + fadeInSec);
-            }
-          }
-        };
-
-        if (audioMode === 'file' && audioBufferRef.current) {
-          // Play custom audio file
-          try {
-            const source = ctx.createBufferSource();
-            source.buffer = audioBufferRef.current;
-            source.connect(pan);
-            source.start(ctx.currentTime);
-          } catch {
-            // Fallback to generated click if custom audio fails
-            playGeneratedSound();
-          }
-        } else {
-          // Play generated sound
-          playGeneratedSound();
+        playAt(ctx, pan, ctx.currentTime);
+      },
+      scheduleEdges: (forecast: EdgeForecast) => {
+        if (!enabled) return;
+        const ctx = ctxRef.current;
+        const pan = panRef.current;
+        if (!ctx || !pan || forecast.periodMs <= 0) return;
+        const nowMs = performance.now();
+        const scheduled = scheduledRef.current;
+        // Queue early by the output latency so the sound is heard when the target arrives;
+        // `scheduled` keeps the perceived (uncompensated) times for dedupe and drift
+        const leadMs = Math.max(0, latencyOffsetMs);
+        for (let at = forecast.atMs; at <= nowMs + LOOKAHEAD_MS + leadMs; at += forecast.periodMs) {
+          // Forecasts arrive every frame; anything within half a period of the
+          // last queued edge is the same edge re-predicted, not a new one
+          const last = scheduled[scheduled.length - 1];
+          if (last !== undefined && at < last + forecast.periodMs / 2) continue;
+          const nodes = playAt(ctx, pan, Math.max(ctx.currentTime, perfToContextTime(ctx, at - leadMs)), forecast.periodMs / 1000);
+          nodes.forEach((node) => {
+            queuedRef.current.add(node);
+            node.onended = () => queuedRef.current.delete(node);
+          });
+          scheduled.push(at);
+          if (scheduled.length > SCHEDULE_HISTORY) scheduled.shift();
         }
       },
+      markVisualEdge: (atMs: number) => {
+        const scheduled = scheduledRef.current;
+        if (scheduled.length === 0) return;
+        const nearest = scheduled.reduce((best, t) => (Math.abs(t - atMs) < Math.abs(best - atMs) ? t : best));
+        const drift = atMs - nearest;
+        const prev = driftRef.current;
+        const samples = prev.samples + 1;
+        driftRef.current = {
+          lastMs: drift,
+          meanAbsMs: prev.meanAbsMs + (Math.abs(drift) - prev.meanAbsMs) / samples,
+          maxAbsMs: Math.max(prev.maxAbsMs, Math.abs(drift)),
+          samples,
+        };
+      },
+      getDrift: () => driftRef.current,
+      clickAt: (atMs: number) => {
+        if (!enabled) return;
+        ensure().then(() => {
+          const ctx = ctxRef.current;
+          const pan = panRef.current;
+          if (!ctx || !pan) return;
+          const at = Math.max(ctx.currentTime, perfToContextTime(ctx, atMs));
+          // The tap test needs an audible tick even while a bed is playing
+          if (sustained) playGeneratedSound(ctx, pan, at);
+          else playAt(ctx, pan, at);
+        });
+      },
+      estimateLatencyMs: async () => {
+        if (!enabled) return null;
+        await ensure();
+        const ctx = ctxRef.current;
+        if (!ctx) return null;
+        // outputLatency is missing in some browsers; baseLatency alone underestimates Bluetooth
+        const seconds = (ctx.outputLatency ?? 0) + (ctx.baseLatency ?? 0);
+        return seconds > 0 ? Math.round(seconds * 1000) : null;
+      },
     };
     return api;
-  }, [enabled, volume, waveform, audioMode, fileUrl, pitch, panDepth, fadeInMs]);
+  }, [enabled, volume, waveform, audioMode, fileUrl, pitch, panDepth, fadeInMs, latencyOffsetMs, continuousSound, filePlayback, sustained]);
+
+  // A looping file that decodes (or changes) while playing starts, or replaces, the bed
+  useEffect(() => {
+    if (bufferVersion > 0 && activeRef.current && sustained) api.start();
+  }, [bufferVersion]);
+
+  return api;
 }
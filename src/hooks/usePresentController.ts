@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  displayWindowUrl,
+  openPresentChannel,
+  PresentChannel,
+  PresentState,
+  toEpochMs,
+} from '../lib/presentChannel';
+
+export interface PresentTools {
+  supported: boolean; // BroadcastChannel available
+  displayOpen: boolean; // a display window has checked in and not closed
+  blocked: boolean; // the last open attempt was stopped by a popup blocker
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+interface PresentControllerAPI {
+  tools: PresentTools;
+  postEdge: (side: 'left' | 'right', atMs: number) => void; // atMs on the performance.now clock
+  postPanic: () => void;
+}
+
+// Calibration describes the controller's screen; the display sits on another monitor or
+// projector, so it leaves calibration out (degree sizes fall back to pixels) just like a remote client
+function displayState({ config, playing, startPosition }: PresentState): PresentState {
+  return { config: { ...config, calibration: undefined }, playing, startPosition };
+}
+
+/**
+ * Controller side of present mode. State and edge hits are broadcast whether or not a
+ * display is open, so a display opened by hand (or reloaded) picks up straight away.
+ */
+export function usePresentController(state: PresentState, onPanic: () => void): PresentControllerAPI {
+  const channelRef = useRef<PresentChannel | null>(null);
+  const windowRef = useRef<Window | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onPanicRef = useRef(onPanic);
+  onPanicRef.current = onPanic;
+  const [supported, setSupported] = useState(false);
+  const [displayOpen, setDisplayOpen] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+
+  useEffect(() => {
+    const channel = openPresentChannel((message) => {
+      if (message.type === 'hello') {
+        setDisplayOpen(true);
+        channel?.post({ type: 'state', ...displayState(stateRef.current) });
+      } else if (message.type === 'panic') {
+        onPanicRef.current();
+      } else if (message.type === 'bye' && message.from === 'display') {
+        setDisplayOpen(false);
+      }
+    });
+    channelRef.current = channel;
+    setSupported(!!channel);
+    // A display left behind by a closed controller must not keep running
+    const handleUnload = () => channel?.post({ type: 'bye', from: 'controller' });
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  const { config, playing, startPosition } = state;
+  useEffect(() => {
+    channelRef.current?.post({ type: 'state', ...displayState({ config, playing, startPosition }) });
+  }, [config, playing, startPosition]);
+
+  const postEdge = useCallback((side: 'left' | 'right', atMs: number) => {
+    channelRef.current?.post({ type: 'edge', side, atEpochMs: toEpochMs(atMs) });
+  }, []);
+
+  const postPanic = useCallback(() => {
+    channelRef.current?.post({ type: 'panic' });
+  }, []);
+
+  const onOpen = useCallback(() => {
+    const win = window.open(displayWindowUrl(), 'emdr-present-display', 'popup');
+    windowRef.current = win;
+    setBlocked(!win);
+  }, []);
+
+  const onClose = useCallback(() => {
+    channelRef.current?.post({ type: 'bye', from: 'controller' });
+    windowRef.current?.close();
+    windowRef.current = null;
+    setDisplayOpen(false);
+  }, []);
+
+  const tools = useMemo<PresentTools>(
+    () => ({ supported, displayOpen, blocked, onOpen, onClose }),
+    [supported, displayOpen, blocked, onOpen, onClose],
+  );
+
+  return { tools, postEdge, postPanic };
+}
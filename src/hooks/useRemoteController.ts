@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PresentState } from '../lib/presentChannel';
+import {
+  ClockOffset,
+  connectRemote,
+  createJoinCode,
+  HEARTBEAT_MS,
+  loadRelayUrl,
+  remoteClientUrl,
+  RemoteConnection,
+  RemoteStatus,
+  saveRelayUrl,
+  toServerMs,
+} from '../lib/remoteSession';
+
+export interface RemoteTools {
+  status: RemoteStatus | 'idle'; // idle: no remote session started
+  detail?: string; // why the last connection ended, when the relay or socket said
+  code: string | null;
+  clientUrl: string | null; // link for the client to open
+  clock: ClockOffset | null;
+  relayUrl: string;
+  onRelayUrlChange: (url: string) => void;
+  onStart: () => void;
+  onEnd: () => void;
+}
+
+interface RemoteControllerAPI {
+  tools: RemoteTools;
+  postEdge: (side: 'left' | 'right', atMs: number) => void; // atMs on the performance.now clock
+  postPanic: () => void;
+}
+
+/**
+ * Clinician side of remote mode. While a client is connected the state goes out on every
+ * change and as a heartbeat; if the client drops, onLost stops local playback so the
+ * clinician never runs a set the client isn't receiving.
+ */
+export function useRemoteController(
+  state: PresentState,
+  onPanic: () => void,
+  onLost: () => void,
+): RemoteControllerAPI {
+  const connectionRef = useRef<RemoteConnection | null>(null);
+  const generationRef = useRef(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onPanicRef = useRef(onPanic);
+  onPanicRef.current = onPanic;
+  const onLostRef = useRef(onLost);
+  onLostRef.current = onLost;
+  const [status, setStatus] = useState<RemoteTools['status']>('idle');
+  const [detail, setDetail] = useState<string>();
+  const [session, setSession] = useState<{ code: string; relayUrl: string } | null>(null);
+  const [clock, setClock] = useState<ClockOffset | null>(null);
+  const [relayUrl, setRelayUrl] = useState(loadRelayUrl);
+
+  const sendState = useCallback(() => {
+    connectionRef.current?.send({ type: 'state', ...stateRef.current });
+  }, []);
+
+  const onStart = useCallback(() => {
+    // Callbacks from a connection that has since been replaced or ended are ignored
+    const generation = ++generationRef.current;
+    connectionRef.current?.close();
+    // Reconnecting keeps the code so the client's link still works
+    const nextCode = session?.code ?? createJoinCode();
+    let connected = false;
+    setSession({ code: nextCode, relayUrl });
+    setClock(null);
+    saveRelayUrl(relayUrl);
+    connectionRef.current = connectRemote({
+      url: relayUrl,
+      code: nextCode,
+      role: 'clinician',
+      onMessage: (message) => {
+        if (message.type === 'panic') onPanicRef.current();
+      },
+      onStatus: (next, why) => {
+        if (generation !== generationRef.current) return;
+        if (connected && next !== 'connected') onLostRef.current();
+        connected = next === 'connected';
+        setStatus(next);
+        setDetail(why);
+      },
+      onClock: (next) => {
+        if (generation === generationRef.current) setClock(next);
+      },
+    });
+  }, [session, relayUrl]);
+
+  const onEnd = useCallback(() => {
+    generationRef.current++;
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setStatus('idle');
+    setSession(null);
+    setClock(null);
+    setDetail(undefined);
+  }, []);
+
+  const onRelayUrlChange = useCallback((url: string) => setRelayUrl(url.trim()), []);
+
+  useEffect(() => () => {
+    generationRef.current++;
+    connectionRef.current?.close();
+  }, []);
+
+  const { config, playing, startPosition } = state;
+  useEffect(() => {
+    if (status === 'connected') sendState();
+  }, [status, config, playing, startPosition, sendState]);
+
+  useEffect(() => {
+    if (status !== 'connected') return;
+    const id = setInterval(sendState, HEARTBEAT_MS);
+    return () => clearInterval(id);
+  }, [status, sendState]);
+
+  const postEdge = useCallback((side: 'left' | 'right', atMs: number) => {
+    const connection = connectionRef.current;
+    connection?.send({ type: 'edge', side, atServerMs: toServerMs(atMs, connection.clock()) });
+  }, []);
+
+  const postPanic = useCallback(() => {
+    connectionRef.current?.send({ type: 'panic' });
+  }, []);
+
+  const code = session?.code ?? null;
+  const clientUrl = session ? remoteClientUrl(session.relayUrl, session.code) : null;
+  const tools = useMemo<RemoteTools>(
+    () => ({ status, detail, code, clientUrl, clock, relayUrl, onRelayUrlChange, onStart, onEnd }),
+    [status, detail, code, clientUrl, clock, relayUrl, onRelayUrlChange, onStart, onEnd],
+  );
+
+  return { tools, postEdge, postPanic };
+}
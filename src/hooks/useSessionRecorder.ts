@@ -0,0 +1,89 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { AppConfig } from '../types';
+import {
+  addSessionEvent,
+  addSet,
+  appendSession,
+  beginSession,
+  finishSession,
+  rateSet,
+  SessionEndReason,
+  SessionProgress,
+  SessionRecord,
+  SetRating,
+  SetRecord,
+  updateStoredSession,
+} from '../lib/sessionLog';
+
+/** A finished set, for rating it later (possibly after its session was stored) */
+export interface FinishedSet {
+  sessionId: string;
+  set: number;
+  earlierSets: SetRecord[]; // sets before this one in the same session
+}
+
+interface SessionRecorderAPI {
+  play: () => void; // starts a new record, or logs a resume on the open one
+  pause: () => void;
+  endSet: () => FinishedSet | null; // marks the end of a stimulation set in the open record
+  rate: (set: FinishedSet, rating: SetRating) => void;
+  end: (reason: SessionEndReason) => void; // closes and stores the open record
+}
+
+function lastEvent(record: SessionRecord) {
+  return record.events[record.events.length - 1].type;
+}
+
+/**
+ * Records runs into the session log. The open record lives in a ref so recording never
+ * re-renders the app; the latest config and progress are read at each event.
+ */
+export function useSessionRecorder(config: AppConfig, progress: SessionProgress): SessionRecorderAPI {
+  const recordRef = useRef<SessionRecord | null>(null);
+  const latestRef = useRef({ config, progress });
+  latestRef.current = { config, progress };
+
+  const api = useMemo<SessionRecorderAPI>(() => ({
+    play: () => {
+      const { config: c, progress: p } = latestRef.current;
+      const record = recordRef.current;
+      if (!record) recordRef.current = beginSession(c);
+      // Only a paused record resumes; settings changes while running aren't a resume
+      else if (lastEvent(record) === 'pause') recordRef.current = addSessionEvent(record, 'resume', p);
+    },
+    pause: () => {
+      const record = recordRef.current;
+      // Pausing twice (e.g. Stop while already stopped) isn't a new pause
+      if (!record || lastEvent(record) === 'pause') return;
+      recordRef.current = addSessionEvent(record, 'pause', latestRef.current.progress);
+    },
+    endSet: () => {
+      if (!recordRef.current) return null;
+      const record = addSet(recordRef.current, latestRef.current.progress);
+      recordRef.current = record;
+      const sets = record.sets!;
+      return { sessionId: record.id, set: sets.length, earlierSets: sets.slice(0, -1) };
+    },
+    rate: ({ sessionId, set }, rating) => {
+      if (recordRef.current?.id === sessionId) {
+        recordRef.current = rateSet(recordRef.current, set, rating);
+      } else {
+        updateStoredSession(sessionId, (record) => rateSet(record, set, rating));
+      }
+    },
+    end: (reason) => {
+      if (!recordRef.current) return;
+      appendSession(finishSession(recordRef.current, reason, latestRef.current.progress));
+      recordRef.current = null;
+    },
+  }), []);
+
+  // Keep a session cut short by closing the tab
+  useEffect(() => {
+    const handleUnload = () => api.end('closed');
+    window.addEventListener('beforeunload', handleUnload);
+    return () => window.removeEventListener('beforeunload', handleUnload);
+  }, [api]);
+
+  return api;
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Minimal in-memory IndexedDB: enough of open/transaction/objectStore for the library
+function createFakeIndexedDB() {
+  const stores = new Map<string, Map<string, any>>();
+
+  const makeRequest = (tx: any, run: () => any) => {
+    const request: any = {};
+    tx.pending++;
+    setTimeout(() => {
+      try {
+        request.result = run();
+        request.onsuccess?.();
+      } catch (e) {
+        request.error = e;
+        tx.error = e;
+        tx.onerror?.();
+        return;
+      }
+      if (--tx.pending === 0) setTimeout(() => tx.oncomplete?.(), 0);
+    }, 0);
+    return request;
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => {
+      const tx: any = { pending: 0 };
+      const store = stores.get(name)!;
+      tx.objectStore = () => ({
+        get: (id: string) => makeRequest(tx, () => store.get(id)),
+        getAll: () => makeRequest(tx, () => [...store.values()]),
+        put: (value: any) => makeRequest(tx, () => { store.set(value.id, { ...value }); return value.id; }),
+        delete: (id: string) => makeRequest(tx, () => { store.delete(id); }),
+      });
+      return tx;
+    },
+    close: vi.fn(),
+  };
+
+  return {
+    stores,
+    open: vi.fn(() => {
+      const request: any = { result: db };
+      setTimeout(() => {
+        if (!stores.size) request.onupgradeneeded?.();
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    }),
+  };
+}
+
+const localStorageMock = {
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
+  clear: vi.fn(),
+};
+
+let fakeDb: ReturnType<typeof createFakeIndexedDB>;
+
+// The module memoises migration, so load a fresh copy per test
+async function loadLibrary() {
+  vi.resetModules();
+  return import('./audioLibrary');
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fakeDb = createFakeIndexedDB();
+  vi.stubGlobal('indexedDB', fakeDb);
+  Object.defineProperty(window, 'localStorage', { value: localStorageMock, writable: true });
+  localStorageMock.getItem.mockReturnValue(null);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('audioLibrary', () => {
+  it('stores sounds as blobs with size and duration metadata', async () => {
+    const { addSound, listSounds, loadSound } = await loadLibrary();
+    const blob = new Blob(['abcd'], { type: 'audio/wav' });
+
+    const item = await addSound(blob, 'rain.wav', 2.5);
+
+    expect(item).toMatchObject({ name: 'rain.wav', mimeType: 'audio/wav', sizeBytes: 4, durationSec: 2.5 });
+    expect(await listSounds()).toEqual([item]);
+    expect((await loadSound(item.id))?.blob).toBe(blob);
+  });
+
+  it('keeps many sounds, newest first', async () => {
+    const { addSound, listSounds } = await loadLibrary();
+    const now = vi.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await addSound(new Blob(['a']), 'first.mp3');
+    now.mockReturnValue(2000);
+    await addSound(new Blob(['b']), 'second.mp3');
+
+    expect((await listSounds()).map((s) => s.name)).toEqual(['second.mp3', 'first.mp3']);
+    now.mockRestore();
+  });
+
+  it('renames and deletes sounds', async () => {
+    const { addSound, renameSound, deleteSound, listSounds, loadSound } = await loadLibrary();
+    const item = await addSound(new Blob(['a']), 'take1.mp3');
+
+    expect(await renameSound(item.id, 'Soft chime')).toMatchObject({ id: item.id, name: 'Soft chime' });
+    expect((await listSounds())[0].name).toBe('Soft chime');
+
+    await deleteSound(item.id);
+    expect(await listSounds()).toEqual([]);
+    expect(await loadSound(item.id)).toBeNull();
+    expect(await renameSound(item.id, 'gone')).toBeNull();
+  });
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const { listSounds } = await loadLibrary();
+
+    await expect(listSounds()).rejects.toThrow(/not available/);
+  });
+
+  describe('migrateLegacyAudio', () => {
+    it('moves the old localStorage upload into the library once', async () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        dataUrl: 'data:audio/mpeg;base64,AQIDBA==',
+        fileName: 'old.mp3',
+      }));
+      const { migrateLegacyAudio, loadSound } = await loadLibrary();
+
+      const [first, second] = await Promise.all([migrateLegacyAudio(), migrateLegacyAudio()]);
+
+      expect(first).toMatchObject({ name: 'old.mp3', mimeType: 'audio/mpeg', sizeBytes: 4 });
+      expect(second).toBe(first);
+      expect(fakeDb.stores.get('sounds')!.size).toBe(1);
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('emdr-custom-audio-v1');
+      expect((await loadSound(first!.id))?.blob.size).toBe(4);
+    });
+
+    it('returns null when there is nothing to migrate', async () => {
+      const { migrateLegacyAudio } = await loadLibrary();
+
+      expect(await migrateLegacyAudio()).toBeNull();
+      expect(fakeDb.open).not.toHaveBeenCalled();
+    });
+
+    it('keeps the old entry when the library cannot be written', async () => {
+      vi.stubGlobal('indexedDB', undefined);
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        dataUrl: 'data:audio/mpeg;base64,AQIDBA==',
+        fileName: 'old.mp3',
+      }));
+      const { migrateLegacyAudio } = await loadLibrary();
+
+      expect(await migrateLegacyAudio()).toBeNull();
+      expect(localStorageMock.removeItem).not.toHaveBeenCalled();
+    });
+  });
+
+  it('decodes data URLs to typed blobs', async () => {
+    const { dataUrlToBlob } = await loadLibrary();
+    const blob = dataUrlToBlob('data:audio/wav;base64,AQID');
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(3);
+  });
+});
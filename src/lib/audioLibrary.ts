@@ -0,0 +1,142 @@
+// IndexedDB-backed library of uploaded sounds, stored as binary Blobs
+import { clearCustomAudio, loadCustomAudio } from './storage';
+
+const DB_NAME = 'emdr-audio-library';
+const DB_VERSION = 1;
+const STORE = 'sounds';
+
+export type AudioLibraryItem = {
+  id: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSec?: number;
+  savedAt: number;
+};
+
+export type LibrarySound = AudioLibraryItem & { blob: Blob };
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request in its own transaction and resolve once the transaction commits
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error ?? request.error);
+      tx.onabort = () => reject(tx.error ?? new Error('Audio library transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function toItem({ blob: _blob, ...item }: LibrarySound): AudioLibraryItem {
+  return item;
+}
+
+/**
+ * List stored sounds (metadata only), newest first
+ */
+export async function listSounds(): Promise<AudioLibraryItem[]> {
+  const all = await withStore<LibrarySound[]>('readonly', (store) => store.getAll());
+  return all.map(toItem).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Store a sound; rejects with the browser's error (e.g. quota exceeded) on failure
+ */
+export async function addSound(blob: Blob, name: string, durationSec?: number): Promise<AudioLibraryItem> {
+  const sound: LibrarySound = {
+    id: newId(),
+    name,
+    mimeType: blob.type,
+    sizeBytes: blob.size,
+    durationSec,
+    savedAt: Date.now(),
+    blob,
+  };
+  await withStore('readwrite', (store) => store.put(sound));
+  return toItem(sound);
+}
+
+/**
+ * Load a sound with its audio data, or null if it has been deleted
+ */
+export async function loadSound(id: string): Promise<LibrarySound | null> {
+  const sound = await withStore<LibrarySound | undefined>('readonly', (store) => store.get(id));
+  return sound ?? null;
+}
+
+export async function renameSound(id: string, name: string): Promise<AudioLibraryItem | null> {
+  const sound = await loadSound(id);
+  if (!sound) return null;
+  const renamed = { ...sound, name };
+  await withStore('readwrite', (store) => store.put(renamed));
+  return toItem(renamed);
+}
+
+export async function deleteSound(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Decode a base64 data URL without going through fetch
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',');
+  const mimeType = /^data:([^;,]+)/.exec(header)?.[1] ?? 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+async function migrateLegacySlot(): Promise<AudioLibraryItem | null> {
+  const legacy = loadCustomAudio();
+  if (!legacy?.dataUrl) return null;
+  try {
+    const item = await addSound(dataUrlToBlob(legacy.dataUrl), legacy.fileName || 'Uploaded sound');
+    clearCustomAudio();
+    return item;
+  } catch {
+    // Leave the old entry in place so nothing is lost; we retry on the next load
+    return null;
+  }
+}
+
+let migration: Promise<AudioLibraryItem | null> | null = null;
+
+/**
+ * Move the old single localStorage upload into the library.
+ * Shared across callers so a remounting app doesn't race itself.
+ */
+export function migrateLegacyAudio(): Promise<AudioLibraryItem | null> {
+  migration ??= migrateLegacySlot();
+  return migration;
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { isValidAudioFile, revokeFileUrl, formatFileSize } from './audioUtils';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isValidAudioFile, revokeFileUrl, formatFileSize, readAudioDuration } from './audioUtils';
 
 describe('audioUtils', () => {
   describe('isValidAudioFile', () => {
@@ -117,4 +117,42 @@ describe('audioUtils', () => {
       expect(() => revokeFileUrl(null as any)).not.toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('readAudioDuration', () => {
+    const originalCreate = URL.createObjectURL;
+    const originalRevoke = URL.revokeObjectURL;
+
+    beforeEach(() => {
+      URL.createObjectURL = vi.fn(() => 'blob:duration-probe');
+      URL.revokeObjectURL = vi.fn();
+    });
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreate;
+      URL.revokeObjectURL = originalRevoke;
+      vi.restoreAllMocks();
+    });
+
+    it('resolves the duration once metadata loads and frees the URL', async () => {
+      const audio = document.createElement('audio');
+      Object.defineProperty(audio, 'duration', { value: 2.5 });
+      vi.spyOn(document, 'createElement').mockReturnValue(audio);
+
+      const pending = readAudioDuration(new Blob(['x'], { type: 'audio/wav' }));
+      audio.dispatchEvent(new Event('loadedmetadata'));
+
+      await expect(pending).resolves.toBe(2.5);
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:duration-probe');
+    });
+
+    it('resolves undefined when the browser cannot read the file', async () => {
+      const audio = document.createElement('audio');
+      vi.spyOn(document, 'createElement').mockReturnValue(audio);
+
+      const pending = readAudioDuration(new Blob(['x'], { type: 'audio/wav' }));
+      audio.dispatchEvent(new Event('error'));
+
+      await expect(pending).resolves.toBeUndefined();
+    });
+  });
+});
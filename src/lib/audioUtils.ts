@@ -25,4 +25,28 @@ export function formatFileSize(bytes: number): string {
   const sizes = ['Bytes', 'KB', 'MB', 'GB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-}
\ No newline at end of file
+}
+
+/**
+ * Reads the duration of an audio Blob from its metadata.
+ * Resolves undefined if the browser can't read it in time.
+ */
+export function readAudioDuration(blob: Blob, timeoutMs = 3000): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = document.createElement('audio');
+    let settled = false;
+    const finish = (duration?: number) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+    };
+    const timer = setTimeout(() => finish(), timeoutMs);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish();
+    audio.src = url;
+  });
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { migrateConfig, SCHEMA_VERSION, validateConfig } from './configSchema';
+import { DEFAULTS } from './defaults';
+import { svgDataUrl } from './iconProcessing';
+
+describe('configSchema', () => {
+  describe('migrateConfig', () => {
+    it('treats unversioned configs as version 1 and upgrades them', () => {
+      const migrated = migrateConfig({
+        target: { speedPxPerSec: 1200 },
+        audio: { mode: 'file', fileUrl: 'data:audio/mpeg;base64,AA==' },
+      });
+
+      expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+      // Same tempo the old slider showed for this pixel speed
+      expect(migrated.target).toMatchObject({ passesPerMin: 30 });
+      // Inline audio moved to the library; the data URL is dropped
+      expect(migrated.audio).toMatchObject({ fileUrl: undefined });
+    });
+
+    it('keeps an explicit tempo over the legacy speed', () => {
+      expect(migrateConfig({ target: { speedPxPerSec: 1200, passesPerMin: 90 } }).target).toMatchObject({ passesPerMin: 90 });
+    });
+
+    it('leaves current configs untouched', () => {
+      const current = { schemaVersion: SCHEMA_VERSION, target: { speedPxPerSec: 1200 } };
+      expect(migrateConfig(current)).toEqual(current);
+    });
+
+    it('treats a version below 1 as unversioned', () => {
+      for (const schemaVersion of [0, -1]) {
+        const migrated = migrateConfig({ schemaVersion, target: { speedPxPerSec: 1200 } });
+
+        expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(migrated.target).toMatchObject({ passesPerMin: 30 });
+        expect(validateConfig({ schemaVersion }).config.schemaVersion).toBe(SCHEMA_VERSION);
+      }
+    });
+
+    it('does not mutate its input', () => {
+      const raw = { target: { speedPxPerSec: 1200 } };
+      migrateConfig(raw);
+      expect(raw).toEqual({ target: { speedPxPerSec: 1200 } });
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('reports a config saved by a newer version', () => {
+      const { config, fixes } = validateConfig({ ...DEFAULTS, schemaVersion: SCHEMA_VERSION + 1 });
+
+      expect(config.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(fixes).toEqual([
+        `schemaVersion: ${SCHEMA_VERSION + 1} → ${SCHEMA_VERSION} (saved by a newer version; settings it added were dropped)`,
+      ]);
+    });
+
+    it('accepts the defaults without fixes', () => {
+      const { config, fixes } = validateConfig(DEFAULTS);
+
+      expect(fixes).toEqual([]);
+      expect(config).toMatchObject({ ...DEFAULTS, schemaVersion: SCHEMA_VERSION });
+    });
+
+    it('fills missing fields from the defaults quietly', () => {
+      const { config, fixes } = validateConfig({ durationSec: 60, target: { color: '#ff0000' } });
+
+      expect(fixes).toEqual([]);
+      expect(config.durationSec).toBe(60);
+      expect(config.target.color).toBe('#ff0000');
+      expect(config.target.sizePx).toBe(DEFAULTS.target.sizePx);
+      expect(config.audio).toMatchObject(DEFAULTS.audio);
+    });
+
+    it('falls back to defaults for null or non-object input', () => {
+      expect(validateConfig(null)).toMatchObject({ fixes: [] });
+      expect(validateConfig('garbage').fixes).toEqual(['config: "garbage" → defaults']);
+      expect(validateConfig([1, 2]).config.durationSec).toBe(DEFAULTS.durationSec);
+    });
+
+    it('clamps out-of-range numbers and reports each fix', () => {
+      const { config, fixes } = validateConfig({
+        schemaVersion: SCHEMA_VERSION,
+        target: { sizePx: 9999, passesPerMin: 2 },
+        audio: { volume: 3, latencyOffsetMs: -20 },
+      });
+
+      expect(config.target.sizePx).toBe(120);
+      expect(config.target.passesPerMin).toBe(10);
+      expect(config.audio.volume).toBe(1);
+      expect(config.audio.latencyOffsetMs).toBe(0);
+      expect(fixes).toEqual([
+        'target.sizePx: 9999 → 120',
+        'target.passesPerMin: 2 → 10',
+        'audio.volume: 3 → 1',
+        'audio.latencyOffsetMs: -20 → 0',
+      ]);
+    });
+
+    it('replaces NaN and wrong types with defaults', () => {
+      const { config, fixes } = validateConfig({
+        schemaVersion: SCHEMA_VERSION,
+        target: { speedPxPerSec: NaN, rotate: 'yes', edgePauseMs: null },
+      });
+
+      expect(config.target.speedPxPerSec).toBe(DEFAULTS.target.speedPxPerSec);
+      expect(config.target.rotate).toBe(DEFAULTS.target.rotate);
+      expect(config.target.edgePauseMs).toBe(DEFAULTS.target.edgePauseMs);
+      expect(fixes).toContain('target.speedPxPerSec: NaN → 2400');
+      expect(fixes).toContain('target.rotate: "yes" → false');
+    });
+
+    it('resets unknown enum values', () => {
+      const { config, fixes } = validateConfig({
+        sessionMode: 'forever',
+        target: { shape: 'blob', path: 'zigzag', visualMode: 'strobe' },
+        audio: { mode: 'theremin', waveform: 'noise' },
+      });
+
+      expect(config.sessionMode).toBe('time');
+      expect(config.target.shape).toBe('circle');
+      expect(config.target.path).toBe('horizontal');
+      expect(config.target.visualMode).toBe('motion');
+      expect(config.audio.mode).toBe('click');
+      expect(config.audio.waveform).toBe('sine');
+      expect(fixes).toHaveLength(6);
+    });
+
+    it('repairs light bar settings', () => {
+      const { config, fixes } = validateConfig({
+        target: { visualMode: 'lightbar', lightbar: { lamps: 500, offColor: 'grey' } },
+      });
+
+      expect(config.target.lightbar).toEqual({ lamps: 60, offColor: '#202224', fade: true });
+      expect(fixes).toEqual(['target.lightbar.lamps: 500 → 60', 'target.lightbar.offColor: "grey" → "#202224"']);
+    });
+
+    it('snaps duration to 15 second steps', () => {
+      expect(validateConfig({ durationSec: 100 }).config.durationSec).toBe(105);
+    });
+
+    it('rejects colours that are not hex', () => {
+      const { config, fixes } = validateConfig({ target: { color: 'url(javascript:1)' } });
+
+      expect(config.target.color).toBe(DEFAULTS.target.color);
+      expect(fixes).toHaveLength(1);
+    });
+
+    it('drops optional fields that are invalid', () => {
+      const { config, fixes } = validateConfig({
+        target: { customIconUrl: 'https://example.com/x.svg', sizeDeg: 'big', units: 'cm' },
+      });
+
+      expect(config.target.customIconUrl).toBeUndefined();
+      expect(config.target.sizeDeg).toBeUndefined();
+      expect(config.target.units).toBeUndefined();
+      expect(fixes).toEqual([
+        'target.customIconUrl: "https://example.com/x.svg" → removed',
+        'target.units: "cm" → removed',
+        'target.sizeDeg: "big" → removed',
+      ]);
+    });
+
+    it('sanitizes SVG icons from stored settings and presets', () => {
+      const stored = validateConfig({
+        target: { shape: 'custom', customIconUrl: svgDataUrl('<svg xmlns="http://www.w3.org/2000/svg" onload="x()"/>'), customIconName: 'toy.svg' },
+      });
+      expect(stored.config.target.customIconUrl).toBe(svgDataUrl('<svg xmlns="http://www.w3.org/2000/svg"/>'));
+      expect(stored.fixes).toEqual([]);
+
+      const unreadable = validateConfig({ target: { customIconUrl: 'data:image/svg+xml,%3Chtml%2F%3E', customIconName: 'page.svg' } });
+      expect(unreadable.config.target).toMatchObject({ customIconUrl: undefined, customIconName: undefined });
+      expect(unreadable.fixes).toEqual(['target.customIconUrl: embedded icon could not be read → removed']);
+    });
+
+    it('only accepts object URLs for the audio file', () => {
+      expect(validateConfig({ audio: { mode: 'file', fileUrl: 'blob:http://localhost/abc' } }).config.audio.fileUrl)
+        .toBe('blob:http://localhost/abc');
+
+      const remote = validateConfig({ audio: { mode: 'file', fileUrl: 'https://tracker.example/ping.mp3' } });
+      expect(remote.config.audio.fileUrl).toBeUndefined();
+      expect(remote.fixes).toEqual(['audio.fileUrl: "https://tracker.example/ping.mp3" → removed']);
+    });
+
+    it('keeps a valid calibration and removes a broken one', () => {
+      expect(validateConfig({ calibration: { pxPerCm: 38, viewingDistanceCm: 57 } }).config.calibration)
+        .toEqual({ pxPerCm: 38, viewingDistanceCm: 57 });
+
+      const broken = validateConfig({ calibration: { pxPerCm: 0, viewingDistanceCm: 57 } });
+      expect(broken.config.calibration).toBeUndefined();
+      expect(broken.fixes).toEqual(['calibration.pxPerCm: 0 → removed']);
+      // A missing distance takes the one the calibration dialog suggests
+      expect(validateConfig({ calibration: { pxPerCm: 38 } }).config.calibration).toEqual({ pxPerCm: 38, viewingDistanceCm: 57 });
+    });
+
+    it('drops unknown fields', () => {
+      const { config } = validateConfig({ bogus: true, target: { wobble: 3 } });
+
+      expect(config).not.toHaveProperty('bogus');
+      expect(config.target).not.toHaveProperty('wobble');
+    });
+  });
+});
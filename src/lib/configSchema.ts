@@ -0,0 +1,246 @@
+// Versioned AppConfig schema: migrations for stored configs plus a validator that repairs bad values
+import {
+  AppConfig,
+  AudioWaveform,
+  ContinuousSound,
+  FilePlayback,
+  MotionEasing,
+  MotionPath,
+  PitchPreset,
+  SessionMode,
+  TargetUnits,
+  VisualMode,
+} from '../types';
+import { DEFAULTS } from './defaults';
+import { tempoFromLegacySpeed } from './motion';
+import { MAX_LATENCY_MS } from './latency';
+import { DEFAULT_VIEWING_DISTANCE_CM } from './visualAngle';
+import { sanitizeIconUrl } from './iconProcessing';
+import { isValidPathData, listShapes } from './shapes';
+import { listSoundGenerators } from './soundGenerators';
+
+/**
+ * Version written into every validated config.
+ * 1: unversioned configs (pixel speed only, audio file inlined as a data URL)
+ * 2: tempo in passes per minute, audio files live in the IndexedDB library
+ */
+export const SCHEMA_VERSION = 2;
+
+type RawConfig = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n+1 config to version n+2
+const MIGRATIONS: Array<(raw: RawConfig) => RawConfig> = [
+  (raw) => {
+    const target = isObject(raw.target) ? { ...raw.target } : raw.target;
+    if (isObject(target) && target.passesPerMin === undefined && typeof target.speedPxPerSec === 'number' && Number.isFinite(target.speedPxPerSec)) {
+      target.passesPerMin = tempoFromLegacySpeed(target.speedPxPerSec);
+    }
+    const audio = isObject(raw.audio) ? { ...raw.audio } : raw.audio;
+    if (isObject(audio) && typeof audio.fileUrl === 'string' && audio.fileUrl.startsWith('data:')) {
+      audio.fileUrl = undefined;
+    }
+    return { ...raw, target, audio };
+  },
+];
+
+/**
+ * Bring a stored config of any older version up to SCHEMA_VERSION
+ */
+export function migrateConfig(raw: RawConfig): RawConfig {
+  // Anything that isn't a real version (missing, fractional, 0 or negative) is treated as unversioned
+  const stored = raw.schemaVersion;
+  let version = typeof stored === 'number' && Number.isInteger(stored) && stored >= 1 ? stored : 1;
+  let migrated = raw;
+  while (version < SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version - 1](migrated);
+    version++;
+  }
+  // A newer version is left as is; validateConfig reports it
+  return { ...migrated, schemaVersion: version };
+}
+
+const SESSION_MODES: readonly SessionMode[] = ['time', 'passes', 'protocol'];
+const VISUAL_MODES: readonly VisualMode[] = ['motion', 'flash', 'lightbar'];
+const PATHS: readonly MotionPath[] = ['horizontal', 'vertical', 'diagonal-down', 'diagonal-up', 'circle', 'figure-eight'];
+const EASINGS: readonly MotionEasing[] = ['linear', 'sine', 'ease-in-out'];
+const UNITS: readonly TargetUnits[] = ['px', 'deg'];
+const START_POSITIONS: readonly AppConfig['target']['startPosition'][] = ['center', 'left', 'right'];
+const FILE_PLAYBACKS: readonly FilePlayback[] = ['one-shot', 'fit-pass', 'loop'];
+const WAVEFORMS: readonly AudioWaveform[] = ['sine', 'square', 'sawtooth', 'triangle'];
+const PITCHES: readonly PitchPreset[] = ['low', 'medium', 'high'];
+const CONTINUOUS_SOUNDS: readonly ContinuousSound[] = ['tone', 'noise'];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function isObject(value: unknown): value is RawConfig {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function show(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Collects repairs as "path: old → new" lines while checking fields
+ */
+class Repairer {
+  fixes: string[] = [];
+
+  private fix<T>(path: string, from: unknown, to: T): T {
+    this.fixes.push(`${path}: ${show(from)} → ${to === undefined ? 'removed' : show(to)}`);
+    return to;
+  }
+
+  number(path: string, value: unknown, fallback: number, min: number, max: number, step = 0): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.fix(path, value, fallback);
+    let next = Math.max(min, Math.min(max, value));
+    if (step > 0) next = Math.round(next / step) * step;
+    return next === value ? value : this.fix(path, value, next);
+  }
+
+  optionalNumber(path: string, value: unknown, min: number, max: number): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.fix(path, value, undefined);
+    return this.number(path, value, min, min, max);
+  }
+
+  oneOf<T extends string>(path: string, value: unknown, options: readonly T[], fallback: T): T {
+    return options.includes(value as T) ? (value as T) : this.fix(path, value, fallback);
+  }
+
+  optionalOneOf<T extends string>(path: string, value: unknown, options: readonly T[]): T | undefined {
+    if (value === undefined) return undefined;
+    return options.includes(value as T) ? (value as T) : this.fix(path, value, undefined);
+  }
+
+  color(path: string, value: unknown, fallback: string): string {
+    return typeof value === 'string' && HEX_COLOR.test(value) ? value : this.fix(path, value, fallback);
+  }
+
+  boolean(path: string, value: unknown, fallback: boolean): boolean {
+    return typeof value === 'boolean' ? value : this.fix(path, value, fallback);
+  }
+
+  optionalString(path: string, value: unknown, valid: (s: string) => boolean = () => true): string | undefined {
+    if (value === undefined) return undefined;
+    return typeof value === 'string' && valid(value) ? value : this.fix(path, value, undefined);
+  }
+}
+
+export type ValidationResult = {
+  config: AppConfig;
+  fixes: string[]; // human-readable list of repaired fields, empty when the input was valid
+};
+
+/**
+ * Migrate and validate an untrusted config (localStorage, import, preset).
+ * Missing fields quietly take their defaults; present but invalid ones are clamped or
+ * reset and listed in `fixes`. Unknown fields are dropped.
+ */
+export function validateConfig(input: unknown): ValidationResult {
+  const r = new Repairer();
+  if (input != null && !isObject(input)) r.fixes.push(`config: ${show(input)} → defaults`);
+  const raw = migrateConfig(isObject(input) ? input : {});
+  // Settings this version doesn't know are dropped below, so say so rather than load quietly
+  if (typeof raw.schemaVersion === 'number' && raw.schemaVersion > SCHEMA_VERSION) {
+    r.fixes.push(`schemaVersion: ${raw.schemaVersion} → ${SCHEMA_VERSION} (saved by a newer version; settings it added were dropped)`);
+  }
+  const t: RawConfig = isObject(raw.target) ? raw.target : {};
+  const l: RawConfig = isObject(t.lightbar) ? t.lightbar : {};
+  const a: RawConfig = isObject(raw.audio) ? raw.audio : {};
+  const p: RawConfig = isObject(raw.protocol) ? raw.protocol : {};
+  const q: RawConfig = isObject(raw.ratings) ? raw.ratings : {};
+  const c = isObject(raw.calibration) ? raw.calibration : undefined;
+  const d = DEFAULTS;
+  const pick = <T,>(value: T | undefined, fallback: T): T => (value === undefined ? fallback : value);
+
+  const config: AppConfig = {
+    schemaVersion: SCHEMA_VERSION,
+    durationSec: r.number('durationSec', pick(raw.durationSec, d.durationSec), d.durationSec, 0, 3600, 15),
+    sessionMode: r.oneOf('sessionMode', pick(raw.sessionMode, d.sessionMode!), SESSION_MODES, d.sessionMode!),
+    passCount: r.number('passCount', pick(raw.passCount, d.passCount!), d.passCount!, 1, 200, 1),
+    protocol: {
+      sets: r.number('protocol.sets', pick(p.sets, d.protocol!.sets), d.protocol!.sets, 1, 50, 1),
+      setSec: r.number('protocol.setSec', pick(p.setSec, d.protocol!.setSec), d.protocol!.setSec, 5, 300, 1),
+      restSec: r.number('protocol.restSec', pick(p.restSec, d.protocol!.restSec), d.protocol!.restSec, 0, 300, 1),
+    },
+    ratings: {
+      sud: r.boolean('ratings.sud', pick(q.sud, d.ratings!.sud), d.ratings!.sud),
+      voc: r.boolean('ratings.voc', pick(q.voc, d.ratings!.voc), d.ratings!.voc),
+    },
+    target: {
+      sizePx: r.number('target.sizePx', pick(t.sizePx, d.target.sizePx), d.target.sizePx, 8, 120),
+      color: r.color('target.color', pick(t.color, d.target.color), d.target.color),
+      // Read at validation time so shapes registered after load are accepted
+      shape: r.oneOf<NonNullable<AppConfig['target']['shape']>>('target.shape', pick(t.shape, d.target.shape!), [...listShapes().map((s) => s.id), 'emoji', 'custom'], d.target.shape!),
+      emoji: r.optionalString('target.emoji', t.emoji, (s) => s.length > 0 && s.length <= 16),
+      customIconUrl: r.optionalString('target.customIconUrl', t.customIconUrl, (s) => s.startsWith('data:image/')),
+      customIconName: r.optionalString('target.customIconName', t.customIconName),
+      customIconTint: r.boolean('target.customIconTint', pick(t.customIconTint, d.target.customIconTint!), d.target.customIconTint!),
+      customPath: r.optionalString('target.customPath', t.customPath, isValidPathData),
+      rotate: r.boolean('target.rotate', pick(t.rotate, d.target.rotate!), d.target.rotate!),
+      speedPxPerSec: r.number('target.speedPxPerSec', pick(t.speedPxPerSec, d.target.speedPxPerSec), d.target.speedPxPerSec, 1, 10000),
+      passesPerMin: r.number('target.passesPerMin', pick(t.passesPerMin, d.target.passesPerMin!), d.target.passesPerMin!, 10, 180),
+      visualMode: r.oneOf('target.visualMode', pick(t.visualMode, d.target.visualMode!), VISUAL_MODES, d.target.visualMode!),
+      lightbar: {
+        lamps: r.number('target.lightbar.lamps', pick(l.lamps, d.target.lightbar!.lamps), d.target.lightbar!.lamps, 3, 60, 1),
+        offColor: r.color('target.lightbar.offColor', pick(l.offColor, d.target.lightbar!.offColor), d.target.lightbar!.offColor),
+        fade: r.boolean('target.lightbar.fade', pick(l.fade, d.target.lightbar!.fade), d.target.lightbar!.fade),
+      },
+      path: r.oneOf('target.path', pick(t.path, d.target.path!), PATHS, d.target.path!),
+      easing: r.oneOf('target.easing', pick(t.easing, d.target.easing!), EASINGS, d.target.easing!),
+      edgePaddingPx: r.number('target.edgePaddingPx', pick(t.edgePaddingPx, d.target.edgePaddingPx), d.target.edgePaddingPx, 0, 200),
+      units: r.optionalOneOf('target.units', t.units, UNITS),
+      sizeDeg: r.optionalNumber('target.sizeDeg', t.sizeDeg, 0.2, 5),
+      amplitudeDeg: r.optionalNumber('target.amplitudeDeg', t.amplitudeDeg, 5, 60),
+      speedDegPerSec: r.optionalNumber('target.speedDegPerSec', t.speedDegPerSec, 5, 120),
+      edgePauseMs: r.number('target.edgePauseMs', pick(t.edgePauseMs, d.target.edgePauseMs), d.target.edgePauseMs, 0, 2000),
+      startPosition: r.oneOf('target.startPosition', pick(t.startPosition, d.target.startPosition), START_POSITIONS, d.target.startPosition),
+    },
+    audio: {
+      mode: r.oneOf('audio.mode', pick(a.mode, d.audio.mode), [...listSoundGenerators().map((g) => g.id), 'continuous', 'file'], d.audio.mode),
+      // Only this page's own object URLs; anything else would have the engine fetch from elsewhere
+      fileUrl: r.optionalString('audio.fileUrl', a.fileUrl, (s) => s.startsWith('blob:')),
+      fileName: r.optionalString('audio.fileName', a.fileName),
+      fileId: r.optionalString('audio.fileId', a.fileId),
+      filePlayback: r.oneOf('audio.filePlayback', pick(a.filePlayback, d.audio.filePlayback!), FILE_PLAYBACKS, d.audio.filePlayback!),
+      volume: r.number('audio.volume', pick(a.volume, d.audio.volume), d.audio.volume, 0, 1),
+      muted: r.boolean('audio.muted', pick(a.muted, d.audio.muted), d.audio.muted),
+      waveform: r.oneOf('audio.waveform', pick(a.waveform, d.audio.waveform!), WAVEFORMS, d.audio.waveform!),
+      pitch: r.oneOf('audio.pitch', pick(a.pitch, d.audio.pitch!), PITCHES, d.audio.pitch!),
+      panDepth: r.number('audio.panDepth', pick(a.panDepth, d.audio.panDepth!), d.audio.panDepth!, 0, 1),
+      fadeInMs: r.number('audio.fadeInMs', pick(a.fadeInMs, d.audio.fadeInMs!), d.audio.fadeInMs!, 0, 100),
+      continuousSound: r.oneOf('audio.continuousSound', pick(a.continuousSound, d.audio.continuousSound!), CONTINUOUS_SOUNDS, d.audio.continuousSound!),
+      latencyOffsetMs: r.number('audio.latencyOffsetMs', pick(a.latencyOffsetMs, d.audio.latencyOffsetMs!), d.audio.latencyOffsetMs!, 0, MAX_LATENCY_MS),
+    },
+  };
+
+  // Icons can come from anywhere a config does, so SVGs get the same sanitizing as uploads
+  const iconUrl = config.target.customIconUrl;
+  if (iconUrl) {
+    try {
+      config.target.customIconUrl = sanitizeIconUrl(iconUrl);
+    } catch {
+      config.target.customIconUrl = undefined;
+      config.target.customIconName = undefined;
+      r.fixes.push('target.customIconUrl: embedded icon could not be read → removed');
+    }
+  }
+
+  if (c) {
+    const pxPerCm = c.pxPerCm;
+    const viewingDistanceCm = c.viewingDistanceCm;
+    if (typeof pxPerCm === 'number' && pxPerCm > 0 && Number.isFinite(pxPerCm)) {
+      config.calibration = {
+        pxPerCm,
+        viewingDistanceCm: r.number('calibration.viewingDistanceCm', viewingDistanceCm, DEFAULT_VIEWING_DISTANCE_CM, 10, 1000),
+      };
+    } else {
+      r.fixes.push(`calibration.pxPerCm: ${show(pxPerCm)} → removed`);
+    }
+  }
+
+  return { config, fixes: r.fixes };
+}
@@ -0,0 +1,43 @@
+import { AppConfig } from '../types';
+
+export const DEFAULTS: AppConfig = {
+  durationSec: 120,
+  sessionMode: 'time',
+  passCount: 24,
+  protocol: { sets: 8, setSec: 30, restSec: 20 },
+  ratings: { sud: true, voc: false },
+  target: {
+    sizePx: 24,
+    color: '#00FF88',
+    shape: 'circle',
+    customIconTint: false,
+    rotate: false,
+    speedPxPerSec: 2400, // legacy fallback; passesPerMin drives motion
+    passesPerMin: 60,
+    visualMode: 'motion',
+    lightbar: { lamps: 24, offColor: '#202224', fade: true },
+    path: 'horizontal',
+    easing: 'linear',
+    edgePaddingPx: 16,
+    edgePauseMs: 0,
+    startPosition: 'center',
+  },
+  audio: {
+    mode: 'click',
+    volume: 0.15, // Start low per AGENTS.md (10-20%)
+    muted: false,
+    waveform: 'sine', // Softer waveform per AGENTS.md
+    pitch: 'medium',
+    panDepth: 1,
+    fadeInMs: 0,
+    latencyOffsetMs: 0,
+    continuousSound: 'tone',
+    filePlayback: 'fit-pass',
+  },
+};
+
+/** A config where any field, including nested target/audio fields, may be missing */
+export type ConfigPatch = Omit<Partial<AppConfig>, 'target' | 'audio'> & {
+  target?: Partial<AppConfig['target']>;
+  audio?: Partial<AppConfig['audio']>;
+};
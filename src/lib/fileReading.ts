@@ -0,0 +1,24 @@
+// FileReader wrappers; kept free of app imports so any module can read files
+/**
+ * Convert a File/Blob to a base64 data URL for localStorage storage
+ */
+export function fileToDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Read a File/Blob as UTF-8 text (e.g. an imported settings file)
+ */
+export function fileToText(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IconError, MAX_ICON_PX, downscaleIconUrl, fitWithin, processIcon, sanitizeIconUrl, sanitizeSvg, svgDataUrl } from './iconProcessing';
+
+function parse(svg: string): Document {
+  return new DOMParser().parseFromString(svg, 'image/svg+xml');
+}
+
+describe('sanitizeSvg', () => {
+  it('removes scripts and event handlers', () => {
+    const out = sanitizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script><circle r="5" onclick="alert(3)" fill="red"/></svg>'
+    );
+    const doc = parse(out);
+
+    expect(doc.querySelector('script')).toBeNull();
+    expect(doc.documentElement.hasAttribute('onload')).toBe(false);
+    expect(doc.querySelector('circle')?.hasAttribute('onclick')).toBe(false);
+    expect(doc.querySelector('circle')?.getAttribute('fill')).toBe('red');
+  });
+
+  it('removes external references but keeps internal ones', () => {
+    const out = sanitizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+        '<defs><circle id="dot" r="4"/></defs>' +
+        '<use xlink:href="#dot"/>' +
+        '<use href="https://evil.test/sprite.svg#x"/>' +
+        '<image href="https://evil.test/track.png"/>' +
+        '<a href="javascript:alert(1)"><rect width="2" height="2"/></a>' +
+        '<rect fill="url(https://evil.test/p.svg#g)" style="fill: url(#ok)"/>' +
+        '</svg>'
+    );
+    const doc = parse(out);
+    const uses = doc.querySelectorAll('use');
+
+    expect(uses[0].getAttribute('xlink:href')).toBe('#dot');
+    expect(uses[1].hasAttribute('href')).toBe(false);
+    expect(doc.querySelector('image')?.hasAttribute('href')).toBe(false);
+    expect(doc.querySelector('a')?.hasAttribute('href')).toBe(false);
+    expect(doc.querySelector('rect[style]')?.hasAttribute('fill')).toBe(false);
+    expect(doc.querySelector('rect[style]')?.getAttribute('style')).toBe('fill: url(#ok)');
+  });
+
+  it('drops embedded documents, remote stylesheets and href animations', () => {
+    const out = sanitizeSvg(
+      '<?xml-stylesheet href="https://evil.test/s.css"?>' +
+        '<svg xmlns="http://www.w3.org/2000/svg">' +
+        '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">hi</div></foreignObject>' +
+        '<style>@import url(https://evil.test/s.css);</style>' +
+        '<style>circle { fill: teal; }</style>' +
+        '<a><set attributeName="href" to="javascript:alert(1)"/></a>' +
+        '<circle r="3"><animate attributeName="r" from="3" to="5"/></circle>' +
+        '</svg>'
+    );
+    const doc = parse(out);
+
+    expect(out).not.toContain('xml-stylesheet');
+    expect(doc.querySelector('foreignObject')).toBeNull();
+    expect(doc.querySelectorAll('style')).toHaveLength(1);
+    expect(doc.querySelector('style')?.textContent).toContain('teal');
+    expect(doc.querySelector('set')).toBeNull();
+    expect(doc.querySelector('animate')).not.toBeNull();
+  });
+
+  it('rejects text that is not an SVG', () => {
+    expect(() => sanitizeSvg('<html><body/></html>')).toThrow(IconError);
+    expect(() => sanitizeSvg('<svg><unclosed></svg>')).toThrow(IconError);
+  });
+});
+
+describe('sanitizeIconUrl', () => {
+  it('sanitizes base64 and percent-encoded SVG data URLs', () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>';
+
+    for (const url of [`data:image/svg+xml;base64,${btoa(svg)}`, `data:image/svg+xml,${encodeURIComponent(svg)}`]) {
+      const out = sanitizeIconUrl(url);
+      expect(out.startsWith('data:image/svg+xml,')).toBe(true);
+      expect(decodeURIComponent(out)).not.toContain('script');
+    }
+  });
+
+  it('leaves raster data URLs alone', () => {
+    expect(sanitizeIconUrl('data:image/png;base64,AA==')).toBe('data:image/png;base64,AA==');
+  });
+
+  it('throws on an unreadable SVG', () => {
+    expect(() => sanitizeIconUrl('data:image/svg+xml;base64,!!!')).toThrow(IconError);
+  });
+});
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the limit', () => {
+    expect(fitWithin(1024, 512, 256)).toEqual({ width: 256, height: 128 });
+    expect(fitWithin(300, 900, 256)).toEqual({ width: 85, height: 256 });
+  });
+
+  it('never scales up', () => {
+    expect(fitWithin(64, 32, 256)).toEqual({ width: 64, height: 32 });
+  });
+});
+
+describe('processIcon', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects unsupported types and oversized files', async () => {
+    await expect(processIcon(new File(['x'], 'a.bmp', { type: 'image/bmp' }))).rejects.toThrow('PNG, JPEG, GIF, SVG or WebP');
+
+    const big = new File([new Uint8Array(600 * 1024)], 'big.svg', { type: 'image/svg+xml' });
+    await expect(processIcon(big)).rejects.toThrow('too large');
+  });
+
+  it('returns a sanitized SVG data URL', async () => {
+    const file = new File(['<svg xmlns="http://www.w3.org/2000/svg" onload="x()"><path d="M0 0"/></svg>'], 'toy.svg', { type: 'image/svg+xml' });
+
+    expect(await processIcon(file)).toBe(svgDataUrl('<svg xmlns="http://www.w3.org/2000/svg"><path d="M0 0"/></svg>'));
+  });
+
+  it('downscales rasters and re-encodes them as PNG', async () => {
+    class FakeImage {
+      naturalWidth = 1200;
+      naturalHeight = 600;
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      set src(_url: string) {
+        setTimeout(() => this.onload?.());
+      }
+    }
+    vi.stubGlobal('Image', FakeImage);
+    vi.stubGlobal('URL', { ...URL, createObjectURL: vi.fn(() => 'blob:icon'), revokeObjectURL: vi.fn() });
+    const drawImage = vi.fn();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage } as any);
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,SMALL');
+
+    const out = await processIcon(new File(['jpeg'], 'toy.jpg', { type: 'image/jpeg' }));
+
+    expect(out).toBe('data:image/png;base64,SMALL');
+    expect(drawImage).toHaveBeenCalledWith(expect.any(FakeImage), 0, 0, MAX_ICON_PX, MAX_ICON_PX / 2);
+    expect(toDataURL).toHaveBeenCalledWith('image/png');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:icon');
+  });
+
+  it('reports images the browser cannot decode', async () => {
+    class BrokenImage {
+      onerror: (() => void) | null = null;
+      set src(_url: string) {
+        setTimeout(() => this.onerror?.());
+      }
+    }
+    vi.stubGlobal('Image', BrokenImage);
+    vi.stubGlobal('URL', { ...URL, createObjectURL: vi.fn(() => 'blob:icon'), revokeObjectURL: vi.fn() });
+
+    await expect(processIcon(new File(['??'], 'toy.png', { type: 'image/png' }))).rejects.toThrow('could not be read');
+  });
+});
+
+describe('downscaleIconUrl', () => {
+  function stubImage(width: number, height: number) {
+    class FakeImage {
+      naturalWidth = width;
+      naturalHeight = height;
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      set src(_url: string) {
+        setTimeout(() => this.onload?.());
+      }
+    }
+    vi.stubGlobal('Image', FakeImage);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: vi.fn() } as any);
+    return vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,SMALL');
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('shrinks a stored raster that is larger than an icon', async () => {
+    stubImage(2000, 1000);
+
+    expect(await downscaleIconUrl('data:image/jpeg;base64,BIG')).toBe('data:image/png;base64,SMALL');
+  });
+
+  it('leaves icons that already fit, and SVGs, as they are', async () => {
+    const toDataURL = stubImage(MAX_ICON_PX, 100);
+
+    expect(await downscaleIconUrl('data:image/png;base64,FITS')).toBe('data:image/png;base64,FITS');
+    expect(await downscaleIconUrl(svgDataUrl('<svg/>'))).toBe(svgDataUrl('<svg/>'));
+    expect(toDataURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { fileToText } from './fileReading';
+
+/**
+ * Uploaded target icons. SVGs are sanitized and rasters are downscaled and re-encoded,
+ * so what ends up in settings (and in exports) is small and inert.
+ */
+
+export const ICON_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/svg+xml', 'image/webp'];
+export const MAX_ICON_PX = 256; // longest side of a stored raster; targets top out at 120px
+export const MAX_SVG_BYTES = 512 * 1024;
+export const MAX_RASTER_BYTES = 8 * 1024 * 1024; // before downscaling
+
+export class IconError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IconError';
+  }
+}
+
+// Elements that run script, embed other documents or play media
+const BLOCKED_ELEMENTS = new Set(['script', 'foreignobject', 'iframe', 'object', 'embed', 'audio', 'video', 'handler', 'listener']);
+
+/**
+ * References an icon may keep: fragments within the SVG itself and inline rasters
+ */
+function isSafeRef(value: string): boolean {
+  const v = value.trim();
+  return v.startsWith('#') || /^data:image\/(png|jpeg|gif|webp)[;,]/i.test(v);
+}
+
+/**
+ * True for CSS (a style attribute, a <style> element or a presentation attribute) that
+ * imports stylesheets, reaches outside the document or runs script
+ */
+function hasUnsafeCss(css: string): boolean {
+  if (/@import|expression\s*\(|javascript:/i.test(css)) return true;
+  for (const m of css.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)) {
+    if (!isSafeRef(m[2])) return true;
+  }
+  return false;
+}
+
+function sanitizeElement(el: Element): void {
+  for (const child of Array.from(el.children)) {
+    const name = child.localName.toLowerCase();
+    // <set>/<animate> can swap an href or handler in after the fact
+    const animatesRef = (name === 'set' || name.startsWith('animate'))
+      && /href|^on/i.test(child.getAttribute('attributeName') ?? '');
+    if (BLOCKED_ELEMENTS.has(name) || animatesRef || (name === 'style' && hasUnsafeCss(child.textContent ?? ''))) {
+      child.remove();
+    } else {
+      sanitizeElement(child);
+    }
+  }
+
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.localName.toLowerCase();
+    const unsafe = name.startsWith('on')
+      || ((name === 'href' || name === 'src') && !isSafeRef(attr.value))
+      || hasUnsafeCss(attr.value);
+    if (unsafe) el.removeAttributeNode(attr);
+  }
+}
+
+/**
+ * Strip scripts, event handlers and external references from SVG markup.
+ * Throws IconError when the text isn't an SVG document.
+ */
+export function sanitizeSvg(text: string): string {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new IconError('This SVG file could not be read.');
+  }
+  sanitizeElement(root);
+  // Serializing the root alone also drops the doctype and <?xml-stylesheet?> instructions
+  return new XMLSerializer().serializeToString(root);
+}
+
+export function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Re-sanitize an SVG data URL that came from elsewhere (stored settings, an import or a preset).
+ * Other image data URLs pass through untouched; throws IconError if the SVG can't be read.
+ */
+export function sanitizeIconUrl(dataUrl: string): string {
+  const m = /^data:image\/svg\+xml(;[^,]*)?,(.*)$/is.exec(dataUrl);
+  if (!m) return dataUrl;
+  let text: string;
+  try {
+    if (/;base64/i.test(m[1] ?? '')) {
+      const binary = atob(m[2]);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      text = new TextDecoder().decode(bytes);
+    } else {
+      text = decodeURIComponent(m[2]);
+    }
+  } catch {
+    throw new IconError('This SVG file could not be read.');
+  }
+  return svgDataUrl(sanitizeSvg(text));
+}
+
+/**
+ * Scale a width/height down (never up) so the longest side fits maxPx
+ */
+export function fitWithin(width: number, height: number, maxPx: number): { width: number; height: number } {
+  const scale = Math.min(1, maxPx / Math.max(width, height, 1));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new IconError('This image could not be read.'));
+    img.src = url;
+  });
+}
+
+/**
+ * Draw a loaded image at icon size and re-encode it as PNG, which keeps transparency for
+ * tinting. Animated GIFs keep their first frame.
+ */
+function drawAtIconSize(img: HTMLImageElement): string {
+  const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, MAX_ICON_PX);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new IconError('This browser cannot resize images.');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
+
+async function downscaleRaster(file: Blob): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    return drawAtIconSize(await loadImage(url));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Shrink a raster icon data URL that skipped upload processing (settings from before it,
+ * an import or a preset). Returns the URL unchanged when it already fits or isn't a raster.
+ */
+export async function downscaleIconUrl(dataUrl: string): Promise<string> {
+  if (!/^data:image\/(png|jpeg|gif|webp)[;,]/i.test(dataUrl)) return dataUrl;
+  const img = await loadImage(dataUrl);
+  if (Math.max(img.naturalWidth, img.naturalHeight) <= MAX_ICON_PX) return dataUrl;
+  return drawAtIconSize(img);
+}
+
+/**
+ * Validate an uploaded icon and turn it into a data URL that is safe to store and render.
+ * Throws IconError with a message meant for the user.
+ */
+export async function processIcon(file: File): Promise<string> {
+  if (!ICON_TYPES.includes(file.type)) {
+    throw new IconError('Please choose a PNG, JPEG, GIF, SVG or WebP image.');
+  }
+  if (file.type === 'image/svg+xml') {
+    if (file.size > MAX_SVG_BYTES) throw new IconError('This SVG is too large. Please choose one under 512 KB.');
+    return svgDataUrl(sanitizeSvg(await fileToText(file)));
+  }
+  if (file.size > MAX_RASTER_BYTES) throw new IconError('This image is too large. Please choose one under 8 MB.');
+  return downscaleRaster(file);
+}
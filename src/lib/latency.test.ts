@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTapLatency, MAX_LATENCY_MS } from './latency';
+
+const clicks = Array.from({ length: 10 }, (_, i) => 1000 + i * 1000);
+
+describe('estimateTapLatency', () => {
+  it('returns the median offset after the settle taps', () => {
+    // First two taps are ignored; the rest sit ~200 ms late with one outlier
+    const taps = [1500, 2400, 3200, 4190, 5210, 6200, 7600];
+    expect(estimateTapLatency(clicks, taps)).toBe(200);
+  });
+
+  it('waits for enough taps', () => {
+    expect(estimateTapLatency(clicks, [1200, 2200, 3200, 4200])).toBeNull();
+  });
+
+  it('returns null without a click track', () => {
+    expect(estimateTapLatency([], [1, 2, 3, 4, 5, 6, 7])).toBeNull();
+  });
+
+  it('clamps early taps to zero', () => {
+    const taps = [1000, 2000, 2950, 3950, 4950, 5950];
+    expect(estimateTapLatency(clicks, taps)).toBe(0);
+  });
+
+  it('never exceeds the maximum offset', () => {
+    const taps = [1000, 2000, 3499, 4499, 5499, 6499];
+    expect(estimateTapLatency(clicks, taps)).toBeLessThanOrEqual(MAX_LATENCY_MS);
+  });
+});
@@ -0,0 +1,24 @@
+// Tap-along output latency calibration
+
+// Early taps are the listener finding the beat, not measuring it
+const SETTLE_TAPS = 2;
+export const MAX_LATENCY_MS = 500;
+
+/**
+ * Estimate output latency from taps made in time with a steady click track.
+ * Tapping along (rather than reacting) cancels reaction time, so the typical
+ * offset between each tap and the click it belongs to is what the audio path adds.
+ * Returns null until enough taps have been collected.
+ */
+export function estimateTapLatency(clickTimesMs: number[], tapTimesMs: number[], minTaps = 4): number | null {
+  if (clickTimesMs.length === 0) return null;
+  const offsets = tapTimesMs.slice(SETTLE_TAPS).map((tap) => {
+    const nearest = clickTimesMs.reduce((best, t) => (Math.abs(t - tap) < Math.abs(best - tap) ? t : best));
+    return tap - nearest;
+  });
+  if (offsets.length < minTaps) return null;
+  const sorted = [...offsets].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(Math.max(0, Math.min(MAX_LATENCY_MS, median)));
+}
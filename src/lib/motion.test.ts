@@ -1,5 +1,18 @@
 import { describe, it, expect } from 'vitest';
-import { advancePosition, MotionState } from './motion';
+import {
+  advancePosition,
+  capFlashSpeed,
+  easePhase,
+  easeProgress,
+  MAX_FLASHES_PER_SEC,
+  MotionState,
+  pathPoint,
+  phaseFromProgress,
+  predictNextEdge,
+  speedForTempo,
+  stateFromEdge,
+  tempoFromLegacySpeed,
+} from './motion';
 
 const params = {
   minX: 0,
@@ -49,3 +62,175 @@ describe('advancePosition', () => {
     expect(out3.dir).toBe(-1);
   });
 });
+
+describe('phaseFromProgress', () => {
+  it('maps the rightward sweep to the first half of the cycle', () => {
+    expect(phaseFromProgress(0, 1)).toBe(0);
+    expect(phaseFromProgress(0.5, 1)).toBe(0.25);
+    expect(phaseFromProgress(1, 1)).toBe(0.5);
+  });
+
+  it('maps the leftward sweep to the second half of the cycle', () => {
+    expect(phaseFromProgress(1, -1)).toBe(0.5);
+    expect(phaseFromProgress(0.5, -1)).toBe(0.75);
+  });
+});
+
+describe('pathPoint', () => {
+  it('keeps horizontal motion vertically centered', () => {
+    const pt = pathPoint('horizontal', 0.25);
+    expect(pt.x).toBeCloseTo(0.5, 5);
+    expect(pt.y).toBe(0.5);
+    expect(pt.pan).toBeCloseTo(0.5, 5);
+  });
+
+  it('moves vertically while still reporting pan progress', () => {
+    const pt = pathPoint('vertical', 0.5);
+    expect(pt.x).toBe(0.5);
+    expect(pt.y).toBeCloseTo(1, 5);
+    expect(pt.pan).toBeCloseTo(1, 5);
+  });
+
+  it('runs diagonals corner to corner', () => {
+    expect(pathPoint('diagonal-down', 0.5)).toMatchObject({ x: 1, y: 1 });
+    expect(pathPoint('diagonal-up', 0.5)).toMatchObject({ x: 1, y: 0 });
+  });
+
+  it.each(['horizontal', 'vertical', 'diagonal-down', 'diagonal-up', 'circle', 'figure-eight'] as const)(
+    '%s reaches the left and right pan extremes at the edge phases',
+    (path) => {
+      expect(pathPoint(path, 0).pan).toBeCloseTo(0, 5);
+      expect(pathPoint(path, 0.5).pan).toBeCloseTo(1, 5);
+    },
+  );
+
+  it('traces a circle through the top and bottom of the stage', () => {
+    const bottom = pathPoint('circle', 0.25);
+    const top = pathPoint('circle', 0.75);
+    expect(bottom.x).toBeCloseTo(0.5, 5);
+    expect(bottom.y).toBeCloseTo(1, 5);
+    expect(top.y).toBeCloseTo(0, 5);
+  });
+
+  it('crosses the center twice on a figure eight', () => {
+    const a = pathPoint('figure-eight', 0.25);
+    const b = pathPoint('figure-eight', 0.75);
+    expect(a.x).toBeCloseTo(0.5, 5);
+    expect(a.y).toBeCloseTo(0.5, 5);
+    expect(b.y).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('easeProgress', () => {
+  it.each(['linear', 'sine', 'ease-in-out'] as const)('%s keeps both edges fixed', (easing) => {
+    expect(easeProgress(easing, 0)).toBeCloseTo(0, 5);
+    expect(easeProgress(easing, 0.5)).toBeCloseTo(0.5, 5);
+    expect(easeProgress(easing, 1)).toBeCloseTo(1, 5);
+  });
+
+  it('slows near the edges and speeds through the center', () => {
+    // Smaller displacement than linear just after leaving an edge
+    expect(easeProgress('sine', 0.1)).toBeLessThan(0.1);
+    expect(easeProgress('ease-in-out', 0.1)).toBeLessThan(easeProgress('sine', 0.1));
+    // Larger than linear displacement across the center
+    expect(easeProgress('sine', 0.6) - easeProgress('sine', 0.4)).toBeGreaterThan(0.2);
+  });
+});
+
+describe('easePhase', () => {
+  it('keeps edge phases where they are', () => {
+    expect(easePhase('sine', 0)).toBeCloseTo(0, 5);
+    expect(easePhase('sine', 0.5)).toBeCloseTo(0.5, 5);
+    expect(easePhase('ease-in-out', 0.25)).toBeCloseTo(0.25, 5);
+    expect(easePhase('ease-in-out', 0.75)).toBeCloseTo(0.75, 5);
+  });
+
+  it('eases the return sweep the same way as the outbound sweep', () => {
+    expect(easePhase('sine', 0.55) - 0.5).toBeCloseTo(easePhase('sine', 0.05), 5);
+  });
+});
+
+describe('speedForTempo', () => {
+  it('scales pixel speed with the stage range', () => {
+    // 60 passes/min = one pass per second
+    expect(speedForTempo(800, 60, 0)).toBeCloseTo(800, 5);
+    expect(speedForTempo(1600, 60, 0)).toBeCloseTo(1600, 5);
+  });
+
+  it('shortens travel time to absorb edge pauses', () => {
+    expect(speedForTempo(800, 60, 500)).toBeCloseTo(1600, 5);
+  });
+
+  it('returns zero for an empty range or tempo', () => {
+    expect(speedForTempo(0, 60, 0)).toBe(0);
+    expect(speedForTempo(800, 0, 0)).toBe(0);
+  });
+
+  it('keeps a travel floor when the pause exceeds the pass time', () => {
+    expect(speedForTempo(100, 60, 5000)).toBeCloseTo(2000, 5);
+  });
+});
+
+describe('capFlashSpeed', () => {
+  it('leaves safe flash rates alone', () => {
+    expect(capFlashSpeed(800, 800, 0)).toBe(800); // one flash per second
+  });
+
+  it('slows faster requests to the photosensitivity limit', () => {
+    const capped = capFlashSpeed(5000, 800, 0);
+
+    expect(capped).toBeCloseTo(800 * MAX_FLASHES_PER_SEC, 5);
+    expect(capFlashSpeed(5000, 800, 100)).toBeCloseTo(speedForTempo(800, MAX_FLASHES_PER_SEC * 60, 100), 5);
+  });
+});
+
+describe('tempoFromLegacySpeed', () => {
+  it('matches the old BPM readout', () => {
+    expect(tempoFromLegacySpeed(2400)).toBe(60);
+    expect(tempoFromLegacySpeed(600)).toBe(15);
+    expect(tempoFromLegacySpeed(0)).toBe(1);
+  });
+});
+
+describe('predictNextEdge', () => {
+  it('predicts travel time to the edge ahead', () => {
+    const s: MotionState = { x: 50, dir: 1, pausedUntilMs: 0 };
+    expect(predictNextEdge(s, params, 1000)).toEqual({ atMs: 2000, side: 'right', periodMs: 2000 });
+  });
+
+  it('adds any remaining edge pause', () => {
+    const s: MotionState = { x: 100, dir: -1, pausedUntilMs: 1200 };
+    const out = predictNextEdge(s, { ...params, edgePauseMs: 200 }, 1000);
+    expect(out?.atMs).toBe(3200);
+    expect(out?.side).toBe('left');
+    expect(out?.periodMs).toBe(2200);
+  });
+
+  it('returns null when the target cannot move', () => {
+    const s: MotionState = { x: 0, dir: 1, pausedUntilMs: 0 };
+    expect(predictNextEdge(s, { ...params, maxX: 0 }, 0)).toBeNull();
+    expect(predictNextEdge(s, { ...params, speedPxPerSec: 0 }, 0)).toBeNull();
+  });
+});
+
+describe('stateFromEdge', () => {
+  it('moves away from the edge that was hit', () => {
+    expect(stateFromEdge({ side: 'left', atMs: 1000 }, params, 1500)).toEqual({ x: 25, dir: 1, pausedUntilMs: 0 });
+    expect(stateFromEdge({ side: 'right', atMs: 1000 }, params, 1500)).toEqual({ x: 75, dir: -1, pausedUntilMs: 0 });
+  });
+
+  it('holds at the edge during the edge pause', () => {
+    const withPause = { ...params, edgePauseMs: 200 };
+    expect(stateFromEdge({ side: 'right', atMs: 1000 }, withPause, 1100)).toEqual({ x: 100, dir: -1, pausedUntilMs: 1200 });
+    expect(stateFromEdge({ side: 'right', atMs: 1000 }, withPause, 1700).x).toBe(75);
+  });
+
+  it('carries over edges hit since the anchor', () => {
+    // 2 s per pass: 2.5 s after a left hit the target is on its way back from the right
+    expect(stateFromEdge({ side: 'left', atMs: 0 }, params, 2500)).toEqual({ x: 75, dir: -1, pausedUntilMs: 0 });
+  });
+
+  it('parks at the edge when the target cannot move', () => {
+    expect(stateFromEdge({ side: 'right', atMs: 0 }, { ...params, speedPxPerSec: 0 }, 500)).toEqual({ x: 100, dir: -1, pausedUntilMs: 0 });
+  });
+});
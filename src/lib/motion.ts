@@ -1,3 +1,5 @@
+import type { MotionEasing, MotionPath } from '../types';
+
 export type Direction = 1 | -1;
 
 export interface MotionParams {
@@ -51,3 +53,157 @@ export function advancePosition(
 
   return { x, dir: dir as Direction, pausedUntilMs, hitEdge };
 }
+
+export interface EdgeForecast {
+  atMs: number; // predicted time of the next edge hit (same clock as nowMs)
+  side: 'left' | 'right';
+  periodMs: number; // interval between consecutive edge hits
+}
+
+/**
+ * Predict when the target will next reach an edge, so sounds can be scheduled ahead
+ * of the frame that detects the hit. Returns null when the target cannot move.
+ */
+export function predictNextEdge(state: MotionState, params: MotionParams, nowMs: number): EdgeForecast | null {
+  const { minX, maxX, speedPxPerSec, edgePauseMs } = params;
+  const range = maxX - minX;
+  if (range <= 0 || speedPxPerSec <= 0) return null;
+  const pauseLeftMs = Math.max(0, state.pausedUntilMs - nowMs);
+  const distance = Math.max(0, state.dir === 1 ? maxX - state.x : state.x - minX);
+  return {
+    atMs: nowMs + pauseLeftMs + (distance / speedPxPerSec) * 1000,
+    side: state.dir === 1 ? 'right' : 'left',
+    periodMs: (range / speedPxPerSec) * 1000 + edgePauseMs,
+  };
+}
+
+export interface EdgeAnchor {
+  side: 'left' | 'right'; // edge the target last hit
+  atMs: number; // when it hit (same clock as nowMs)
+}
+
+/**
+ * Where the target is now given the last edge it hit, for following another window's
+ * motion. Assumes constant speed since the hit, so it also carries over missed edges.
+ */
+export function stateFromEdge(anchor: EdgeAnchor, params: MotionParams, nowMs: number): MotionState {
+  const { minX, maxX, speedPxPerSec, edgePauseMs } = params;
+  const range = maxX - minX;
+  const atLeft = anchor.side === 'left';
+  if (range <= 0 || speedPxPerSec <= 0) {
+    return { x: atLeft ? minX : maxX, dir: atLeft ? 1 : -1, pausedUntilMs: 0 };
+  }
+  const periodMs = (range / speedPxPerSec) * 1000 + edgePauseMs;
+  const sinceMs = Math.max(0, nowMs - anchor.atMs);
+  const passes = Math.floor(sinceMs / periodMs);
+  const intoPassMs = sinceMs - passes * periodMs;
+  // Each completed pass lands on the opposite edge
+  const fromLeft = atLeft === (passes % 2 === 0);
+  const edgeAtMs = nowMs - intoPassMs;
+  const travelled = Math.max(0, intoPassMs - edgePauseMs) / 1000 * speedPxPerSec;
+  return {
+    x: fromLeft ? minX + travelled : maxX - travelled,
+    dir: fromLeft ? 1 : -1,
+    pausedUntilMs: edgePauseMs > 0 ? edgeAtMs + edgePauseMs : 0,
+  };
+}
+
+/**
+ * Pixel speed that completes `passesPerMin` edge-to-edge passes per minute over `rangePx`.
+ * Edge pauses are part of each pass, so the travel portion speeds up to keep the tempo.
+ */
+export function speedForTempo(rangePx: number, passesPerMin: number, edgePauseMs: number): number {
+  if (rangePx <= 0 || passesPerMin <= 0) return 0;
+  const passSec = 60 / passesPerMin;
+  // Never let the pause swallow the whole pass; keep at least 50 ms of travel
+  const travelSec = Math.max(0.05, passSec - edgePauseMs / 1000);
+  return rangePx / travelSec;
+}
+
+// Flash mode lights one target per pass. WCAG 2.3.1 allows at most three flashes a
+// second; stay clear of it whatever tempo, speed or degree settings ask for
+export const MAX_FLASHES_PER_SEC = 2;
+
+/**
+ * Slowest of the requested speed and the speed that keeps flash mode under MAX_FLASHES_PER_SEC.
+ */
+export function capFlashSpeed(speedPxPerSec: number, rangePx: number, edgePauseMs: number): number {
+  return Math.min(speedPxPerSec, speedForTempo(rangePx, MAX_FLASHES_PER_SEC * 60, edgePauseMs));
+}
+
+/**
+ * Tempo equivalent of a legacy px/s speed, matching the old "~BPM" slider readout.
+ */
+export function tempoFromLegacySpeed(speedPxPerSec: number): number {
+  return Math.max(1, Math.round((speedPxPerSec / 2400) * 60));
+}
+
+export interface PathPoint {
+  x: number; // 0..1 across the stage width
+  y: number; // 0..1 down the stage height
+  pan: number; // 0..1 left/right value reported to audio
+}
+
+/**
+ * Map 1D traversal progress (0..1) and direction onto a cycle phase (0..1).
+ * Phase 0 is the left edge, 0.5 the right edge, so edge hits line up on every path.
+ */
+export function phaseFromProgress(progress: number, dir: Direction): number {
+  const p = Math.max(0, Math.min(1, progress));
+  return dir === 1 ? p / 2 : 1 - p / 2;
+}
+
+/**
+ * Remap linear traversal progress (0..1) so the target slows into each edge.
+ * Every curve fixes 0 and 1, so edge timing and the overall period are unchanged.
+ */
+export function easeProgress(easing: MotionEasing, t: number): number {
+  const p = Math.max(0, Math.min(1, t));
+  switch (easing) {
+    case 'sine':
+      return (1 - Math.cos(Math.PI * p)) / 2;
+    case 'ease-in-out':
+      // Cubic: gentler edges and a faster center than sine
+      return p < 0.5 ? 4 * p * p * p : 1 - Math.pow(-2 * p + 2, 3) / 2;
+    case 'linear':
+    default:
+      return p;
+  }
+}
+
+/**
+ * Apply easing separately to each half of the cycle (left→right, right→left).
+ */
+export function easePhase(easing: MotionEasing, phase: number): number {
+  const half = phase < 0.5 ? 0 : 0.5;
+  return half + easeProgress(easing, (phase - half) * 2) / 2;
+}
+
+/**
+ * Resolve a cycle phase to a normalized point on the given path.
+ * The 1D model keeps driving timing and edges; the path only decides where the target is drawn.
+ */
+export function pathPoint(path: MotionPath, phase: number): PathPoint {
+  const angle = 2 * Math.PI * phase;
+  // Triangle wave 0→1→0 over one cycle, identical to the 1D progress
+  const linear = phase <= 0.5 ? phase * 2 : 2 - phase * 2;
+  // Cosine sweep 0→1→0 with the same extremes as the linear sweep
+  const sweep = (1 - Math.cos(angle)) / 2;
+
+  switch (path) {
+    case 'vertical':
+      // No horizontal travel, so pan follows top (left) → bottom (right)
+      return { x: 0.5, y: linear, pan: linear };
+    case 'diagonal-down':
+      return { x: linear, y: linear, pan: linear };
+    case 'diagonal-up':
+      return { x: linear, y: 1 - linear, pan: linear };
+    case 'circle':
+      return { x: sweep, y: (1 + Math.sin(angle)) / 2, pan: sweep };
+    case 'figure-eight':
+      return { x: sweep, y: (1 + Math.sin(2 * angle)) / 2, pan: sweep };
+    case 'horizontal':
+    default:
+      return { x: linear, y: 0.5, pan: linear };
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  displayWindowUrl,
+  fromEpochMs,
+  isDisplayWindow,
+  openPresentChannel,
+  PresentChannel,
+  PresentMessage,
+  toEpochMs,
+} from './presentChannel';
+
+const opened: PresentChannel[] = [];
+
+function open(onMessage: (message: PresentMessage) => void = () => {}) {
+  const channel = openPresentChannel(onMessage)!;
+  opened.push(channel);
+  return channel;
+}
+
+afterEach(() => {
+  opened.splice(0).forEach((channel) => channel.close());
+  vi.unstubAllGlobals();
+});
+
+describe('presentChannel', () => {
+  it('delivers messages between windows', async () => {
+    const received = vi.fn();
+    open(received);
+    const sender = open();
+
+    sender.post({ type: 'edge', side: 'left', atEpochMs: 123 });
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'edge', side: 'left', atEpochMs: 123 }));
+  });
+
+  it('ignores unrelated messages on the channel', async () => {
+    const received = vi.fn();
+    open(received);
+    const raw = new BroadcastChannel('emdr-present');
+
+    raw.postMessage({ type: 'something-else' });
+    raw.postMessage('hello');
+    open().post({ type: 'hello' });
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalled());
+    expect(received.mock.calls).toEqual([[{ type: 'hello' }]]);
+    raw.close();
+  });
+
+  it('is unavailable without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+
+    expect(openPresentChannel(() => {})).toBeNull();
+  });
+
+  it('converts edge times through the shared wall clock', () => {
+    expect(fromEpochMs(toEpochMs(1500))).toBeCloseTo(1500);
+  });
+
+  it('addresses the display window by query parameter', () => {
+    const url = displayWindowUrl({ origin: 'https://emdr.example', pathname: '/app/' });
+
+    expect(url).toBe('https://emdr.example/app/?present=display');
+    expect(isDisplayWindow('?present=display')).toBe(true);
+    expect(isDisplayWindow('')).toBe(false);
+  });
+});
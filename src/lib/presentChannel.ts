@@ -0,0 +1,69 @@
+// Present mode: a second window shows only the stage, driven over a BroadcastChannel
+import type { AppConfig } from '../types';
+
+const CHANNEL_NAME = 'emdr-present';
+const PRESENT_PARAM = 'present';
+
+export type PresentRole = 'controller' | 'display';
+
+export type PresentState = {
+  config: AppConfig;
+  playing: boolean; // stimulating; false while stopped or resting between sets
+  startPosition: AppConfig['target']['startPosition'];
+};
+
+export type PresentMessage =
+  | { type: 'hello' } // display → controller: send the current state
+  | ({ type: 'state' } & PresentState) // controller → display
+  | { type: 'edge'; side: 'left' | 'right'; atEpochMs: number } // controller's target hit an edge
+  | { type: 'panic' } // either way: stop everything
+  | { type: 'bye'; from: PresentRole }; // window closing
+
+export interface PresentChannel {
+  post: (message: PresentMessage) => void;
+  close: () => void;
+}
+
+const TYPES = new Set(['hello', 'state', 'edge', 'panic', 'bye']);
+
+function isPresentMessage(data: unknown): data is PresentMessage {
+  return !!data && typeof data === 'object' && TYPES.has((data as { type?: unknown }).type as string);
+}
+
+/**
+ * Open the channel shared by all windows of this origin; null where BroadcastChannel is missing
+ */
+export function openPresentChannel(onMessage: (message: PresentMessage) => void): PresentChannel | null {
+  if (typeof BroadcastChannel !== 'function') return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent) => {
+    if (isPresentMessage(event.data)) onMessage(event.data);
+  };
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch {
+        // closed channel or uncloneable payload; the next state message catches up
+      }
+    },
+    close: () => channel.close(),
+  };
+}
+
+// Windows on one machine share the wall clock but not performance.now(); convert through timeOrigin
+export function toEpochMs(perfMs: number): number {
+  return performance.timeOrigin + perfMs;
+}
+
+export function fromEpochMs(epochMs: number): number {
+  return epochMs - performance.timeOrigin;
+}
+
+export function isDisplayWindow(search: string = window.location.search): boolean {
+  return new URLSearchParams(search).get(PRESENT_PARAM) === 'display';
+}
+
+export function displayWindowUrl(location: Pick<Location, 'origin' | 'pathname'> = window.location): string {
+  return `${location.origin}${location.pathname}?${PRESENT_PARAM}=display`;
+}
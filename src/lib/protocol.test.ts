@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { advanceProtocol, initialProtocolState } from './protocol';
+
+const params = { sets: 3, setSec: 30, restSec: 20 };
+
+describe('initialProtocolState', () => {
+  it('starts in the first stimulation set', () => {
+    expect(initialProtocolState(params)).toEqual({
+      phase: 'stim',
+      setIndex: 1,
+      remainingSec: 30,
+      done: false,
+    });
+  });
+});
+
+describe('advanceProtocol', () => {
+  it('counts down within a set', () => {
+    const out = advanceProtocol(initialProtocolState(params), params, 10);
+    expect(out.phase).toBe('stim');
+    expect(out.remainingSec).toBeCloseTo(20, 5);
+  });
+
+  it('moves from a set into rest and carries overshoot', () => {
+    const s = { phase: 'stim' as const, setIndex: 1, remainingSec: 1, done: false };
+    const out = advanceProtocol(s, params, 1.5);
+    expect(out.phase).toBe('rest');
+    expect(out.setIndex).toBe(1);
+    expect(out.remainingSec).toBeCloseTo(19.5, 5);
+  });
+
+  it('moves from rest into the next set', () => {
+    const s = { phase: 'rest' as const, setIndex: 1, remainingSec: 0.5, done: false };
+    const out = advanceProtocol(s, params, 1);
+    expect(out.phase).toBe('stim');
+    expect(out.setIndex).toBe(2);
+    expect(out.remainingSec).toBeCloseTo(29.5, 5);
+  });
+
+  it('skips rest when restSec is zero', () => {
+    const noRest = { ...params, restSec: 0 };
+    const s = { phase: 'stim' as const, setIndex: 1, remainingSec: 0.1, done: false };
+    const out = advanceProtocol(s, noRest, 0.2);
+    expect(out.phase).toBe('stim');
+    expect(out.setIndex).toBe(2);
+  });
+
+  it('finishes after the last set without a trailing rest', () => {
+    const s = { phase: 'stim' as const, setIndex: 3, remainingSec: 0.1, done: false };
+    const out = advanceProtocol(s, params, 0.2);
+    expect(out.done).toBe(true);
+    expect(out.remainingSec).toBe(0);
+    expect(advanceProtocol(out, params, 1)).toBe(out);
+  });
+});
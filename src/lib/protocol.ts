@@ -0,0 +1,48 @@
+import type { AppConfig } from '../types';
+
+export type ProtocolParams = NonNullable<AppConfig['protocol']>;
+export type ProtocolPhase = 'stim' | 'rest';
+
+export interface ProtocolState {
+  phase: ProtocolPhase;
+  setIndex: number; // 1-based set number; during rest, the set just finished
+  remainingSec: number; // time left in the current phase
+  done: boolean;
+}
+
+export function initialProtocolState(params: ProtocolParams): ProtocolState {
+  return { phase: 'stim', setIndex: 1, remainingSec: params.setSec, done: false };
+}
+
+/**
+ * Advance the set/rest loop by dtSec, carrying overshoot into the next phase.
+ * A zero-length rest goes straight to the next set; the final set ends the protocol.
+ */
+export function advanceProtocol(
+  state: ProtocolState,
+  params: ProtocolParams,
+  dtSec: number,
+): ProtocolState {
+  let { phase, setIndex, remainingSec } = state;
+  if (state.done) return state;
+
+  remainingSec -= dtSec;
+  while (remainingSec <= 0) {
+    const overshoot = -remainingSec;
+    if (phase === 'stim') {
+      if (setIndex >= params.sets) {
+        return { phase, setIndex, remainingSec: 0, done: true };
+      }
+      if (params.restSec > 0) {
+        phase = 'rest';
+        remainingSec = params.restSec - overshoot;
+        continue;
+      }
+    }
+    phase = 'stim';
+    setIndex += 1;
+    remainingSec = params.setSec - overshoot;
+  }
+
+  return { phase, setIndex, remainingSec, done: false };
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  connectRemote,
+  createJoinCode,
+  estimateClockOffset,
+  fromServerMs,
+  isRemoteClient,
+  normalizeJoinCode,
+  readRemoteState,
+  remoteClientParams,
+  remoteClientUrl,
+  RemoteMessage,
+  RemoteStatus,
+  toServerMs,
+} from './remoteSession';
+import { DEFAULTS } from './defaults';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function connect(role: 'clinician' | 'client' = 'clinician') {
+  const onMessage = vi.fn<[RemoteMessage]>();
+  const onStatus = vi.fn<[RemoteStatus, string?]>();
+  const connection = connectRemote({
+    url: 'ws://relay.test',
+    code: 'ABC234',
+    role,
+    onMessage,
+    onStatus,
+    WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+  });
+  const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  return { connection, socket, onMessage, onStatus };
+}
+
+afterEach(() => {
+  FakeWebSocket.instances = [];
+  vi.useRealTimers();
+});
+
+describe('join codes', () => {
+  it('uses only unambiguous characters', () => {
+    const code = createJoinCode();
+
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(normalizeJoinCode(code)).toBe(code);
+  });
+
+  it('accepts codes typed loosely and rejects malformed ones', () => {
+    expect(normalizeJoinCode(' abc-234 ')).toBe('ABC234');
+    expect(normalizeJoinCode('ABC23')).toBeNull();
+    expect(normalizeJoinCode('ABC230')).toBeNull(); // 0 is not in the alphabet
+  });
+});
+
+describe('estimateClockOffset', () => {
+  it('trusts the sample with the shortest round trip', () => {
+    const clock = estimateClockOffset([
+      { t0: 1000, serverMs: 5300, t3: 1400 }, // slow, asymmetric
+      { t0: 2000, serverMs: 6020, t3: 2040 },
+    ]);
+
+    expect(clock).toEqual({ offsetMs: 4000, rttMs: 40 });
+  });
+
+  it('has nothing to offer without samples', () => {
+    expect(estimateClockOffset([])).toBeNull();
+  });
+
+  it('maps times through the relay clock and back', () => {
+    const clock = { offsetMs: 250, rttMs: 10 };
+
+    expect(fromServerMs(toServerMs(1234, clock), clock)).toBeCloseTo(1234);
+    expect(toServerMs(0, clock) - toServerMs(0, null)).toBe(250);
+  });
+});
+
+describe('connectRemote', () => {
+  it('joins with its code and role once the socket opens', () => {
+    const { socket, onStatus } = connect('client');
+
+    expect(onStatus).toHaveBeenLastCalledWith('connecting');
+    socket.open();
+
+    expect(socket.sent[0]).toEqual({ type: 'join', code: 'ABC234', role: 'client' });
+  });
+
+  it('reports the other side joining and leaving', () => {
+    const { socket, onStatus } = connect();
+    socket.open();
+
+    socket.receive({ type: 'joined', role: 'clinician', peer: false });
+    expect(onStatus).toHaveBeenLastCalledWith('waiting');
+    socket.receive({ type: 'peer', present: true });
+    expect(onStatus).toHaveBeenLastCalledWith('connected');
+    socket.receive({ type: 'peer', present: false });
+    expect(onStatus).toHaveBeenLastCalledWith('waiting');
+  });
+
+  it('passes session messages on and drops relay noise', () => {
+    const { socket, onMessage } = connect('client');
+    socket.open();
+
+    socket.receive({ type: 'edge', side: 'right', atServerMs: 99 });
+    socket.receive({ type: 'unknown' });
+    socket.onmessage?.({ data: 'not json' });
+
+    expect(onMessage.mock.calls).toEqual([[{ type: 'edge', side: 'right', atServerMs: 99 }]]);
+  });
+
+  it('estimates the clock offset from ping replies', () => {
+    vi.useFakeTimers();
+    const onClock = vi.fn();
+    connectRemote({
+      url: 'ws://relay.test',
+      code: 'ABC234',
+      role: 'client',
+      onMessage: () => {},
+      onStatus: () => {},
+      onClock,
+      WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+    });
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+    vi.advanceTimersByTime(0);
+
+    const ping = socket.sent.find((m) => m.type === 'time');
+    socket.receive({ type: 'time', t0: ping.t0, serverMs: ping.t0 + 5000 });
+
+    expect(onClock).toHaveBeenCalledTimes(1);
+    expect(onClock.mock.calls[0][0].offsetMs).toBeCloseTo(5000, -1);
+  });
+
+  it('ends with the relay’s reason when the join is refused', () => {
+    const { socket, onStatus } = connect('client');
+    socket.open();
+
+    socket.receive({ type: 'error', message: 'No session with this join code.' });
+
+    expect(onStatus).toHaveBeenLastCalledWith('disconnected', 'No session with this join code.');
+    expect(socket.readyState).toBe(3);
+  });
+
+  it('reports a dropped socket once and stops sending', () => {
+    const { connection, socket, onStatus } = connect();
+    socket.open();
+
+    socket.close();
+    connection.close();
+    connection.send({ type: 'panic' });
+
+    expect(onStatus.mock.calls.filter(([status]) => status === 'disconnected')).toHaveLength(1);
+    expect(socket.sent.some((m) => m.type === 'panic')).toBe(false);
+  });
+});
+
+describe('readRemoteState', () => {
+  it('validates the config like any other outside config', () => {
+    const state = readRemoteState({
+      type: 'state',
+      config: { target: { sizePx: 5000 } },
+      playing: true,
+      startPosition: 'left',
+    });
+
+    expect(state?.playing).toBe(true);
+    expect(state?.startPosition).toBe('left');
+    expect(state?.config.target.sizePx).toBe(120);
+    expect(state?.config.audio).toEqual(DEFAULTS.audio);
+  });
+
+  it('rejects messages that are not a usable state', () => {
+    expect(readRemoteState({ type: 'state', playing: true, startPosition: 'center' })).toBeNull();
+    expect(readRemoteState({ type: 'state', config: 'x', playing: true, startPosition: 'center' })).toBeNull();
+    expect(readRemoteState({ type: 'state', config: DEFAULTS, playing: 'yes', startPosition: 'center' })).toBeNull();
+    expect(readRemoteState({ type: 'state', config: DEFAULTS, playing: true, startPosition: 'top' })).toBeNull();
+  });
+});
+
+describe('client links', () => {
+  it('carry the join code and relay address', () => {
+    const url = remoteClientUrl('wss://relay.example:8787', 'ABC234', {
+      origin: 'https://emdr.example',
+      pathname: '/app/',
+    });
+    const search = new URL(url).search;
+
+    expect(url.startsWith('https://emdr.example/app/?')).toBe(true);
+    expect(isRemoteClient(search)).toBe(true);
+    expect(remoteClientParams(search)).toEqual({ code: 'ABC234', relayUrl: 'wss://relay.example:8787' });
+  });
+
+  it('leave out a malformed code', () => {
+    expect(remoteClientParams('?remote=client&code=nope').code).toBe('');
+    expect(isRemoteClient('')).toBe(false);
+  });
+});
@@ -0,0 +1,265 @@
+// Remote (telehealth) mode: the clinician's app drives a client's browser through the relay
+// in server/relay.js. Edge times travel on the relay's clock so each side can convert them.
+import { fromEpochMs, PresentState, toEpochMs } from './presentChannel';
+import { validateConfig } from './configSchema';
+
+const REMOTE_PARAM = 'remote';
+const CODE_PARAM = 'code';
+const RELAY_PARAM = 'relay';
+const RELAY_KEY = 'emdr-relay-url';
+
+// No 0/O or 1/I, so a code read out over a call survives
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// The clinician resends state this often; the client stops once it hears nothing for WATCHDOG_MS
+export const HEARTBEAT_MS = 2000;
+export const WATCHDOG_MS = 6000;
+
+// Clock pings: a quick burst on connect, then one now and then to follow drift
+const PING_BURST = 5;
+const PING_BURST_GAP_MS = 250;
+const PING_INTERVAL_MS = 15000;
+const CLOCK_SAMPLES = 8;
+
+export type RemoteRole = 'clinician' | 'client';
+
+/**
+ * connecting: socket opening or join pending; waiting: joined, the other side isn't there;
+ * connected: both sides joined; disconnected: socket closed or the relay refused the join
+ */
+export type RemoteStatus = 'connecting' | 'waiting' | 'connected' | 'disconnected';
+
+// Passed between clinician and client through the relay
+export type RemoteMessage =
+  | ({ type: 'state' } & PresentState) // clinician → client, on change and as a heartbeat
+  | { type: 'edge'; side: 'left' | 'right'; atServerMs: number } // clinician's target hit an edge
+  | { type: 'panic' }; // either way: stop everything
+
+// Answered by the relay itself
+type RelayMessage =
+  | { type: 'joined'; role: RemoteRole; peer: boolean }
+  | { type: 'peer'; present: boolean }
+  | { type: 'error'; message: string }
+  | { type: 'time'; t0: number; serverMs: number };
+
+export interface ClockSample {
+  t0: number; // local epoch ms when the ping left
+  serverMs: number; // relay clock when it answered
+  t3: number; // local epoch ms when the answer arrived
+}
+
+export interface ClockOffset {
+  offsetMs: number; // relay clock minus local clock
+  rttMs: number;
+}
+
+export interface RemoteConnection {
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+  clock: () => ClockOffset | null; // null until the first ping returns
+}
+
+export interface RemoteOptions {
+  url: string;
+  code: string;
+  role: RemoteRole;
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus, detail?: string) => void;
+  onClock?: (clock: ClockOffset) => void;
+  WebSocketImpl?: typeof WebSocket; // tests pass a fake
+}
+
+const SESSION_TYPES = new Set(['state', 'edge', 'panic']);
+
+export function createJoinCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Uppercases and drops spaces/dashes; null unless a full code remains */
+export function normalizeJoinCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  return code.length === CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c)) ? code : null;
+}
+
+/**
+ * NTP-style offset from the sample with the shortest round trip, which has the least room
+ * for asymmetric delay
+ */
+export function estimateClockOffset(samples: ClockSample[]): ClockOffset | null {
+  let best: ClockOffset | null = null;
+  for (const { t0, serverMs, t3 } of samples) {
+    const rttMs = t3 - t0;
+    if (rttMs < 0) continue;
+    if (!best || rttMs < best.rttMs) best = { offsetMs: serverMs - (t0 + t3) / 2, rttMs };
+  }
+  return best;
+}
+
+// performance.now() times ↔ relay clock
+export function toServerMs(perfMs: number, clock: ClockOffset | null): number {
+  return toEpochMs(perfMs) + (clock?.offsetMs ?? 0);
+}
+
+export function fromServerMs(serverMs: number, clock: ClockOffset | null): number {
+  return fromEpochMs(serverMs - (clock?.offsetMs ?? 0));
+}
+
+function parse(data: unknown): (RemoteMessage | RelayMessage) | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message === 'object' && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+const START_POSITIONS: readonly PresentState['startPosition'][] = ['center', 'left', 'right'];
+
+/**
+ * The session state carried by a 'state' message, with its config validated like any other
+ * config from outside; null when the message isn't a usable state
+ */
+export function readRemoteState(message: unknown): PresentState | null {
+  if (!message || typeof message !== 'object') return null;
+  const { config, playing, startPosition } = message as Record<string, unknown>;
+  if (!config || typeof config !== 'object' || Array.isArray(config) || typeof playing !== 'boolean') return null;
+  if (!START_POSITIONS.includes(startPosition as PresentState['startPosition'])) return null;
+  return { config: validateConfig(config).config, playing, startPosition: startPosition as PresentState['startPosition'] };
+}
+
+/**
+ * Join a relay room. Status changes and session messages arrive through the callbacks;
+ * after 'disconnected' the connection is finished and a new one must be opened.
+ */
+export function connectRemote({
+  url,
+  code,
+  role,
+  onMessage,
+  onStatus,
+  onClock,
+  WebSocketImpl = globalThis.WebSocket,
+}: RemoteOptions): RemoteConnection {
+  const samples: ClockSample[] = [];
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let clock: ClockOffset | null = null;
+  let interval: ReturnType<typeof setInterval> | undefined;
+  let finished = false;
+  let socket: WebSocket | null = null;
+
+  const now = () => toEpochMs(performance.now());
+  const rawSend = (message: object) => {
+    if (socket?.readyState === 1) socket.send(JSON.stringify(message));
+  };
+  const ping = () => rawSend({ type: 'time', t0: now() });
+
+  const finish = (detail?: string) => {
+    if (finished) return;
+    finished = true;
+    timers.forEach(clearTimeout);
+    clearInterval(interval);
+    socket?.close();
+    onStatus('disconnected', detail);
+  };
+
+  onStatus('connecting');
+  try {
+    socket = new WebSocketImpl(url);
+  } catch {
+    finish('Invalid relay address.');
+    return { send: () => {}, close: () => {}, clock: () => null };
+  }
+
+  socket.onopen = () => {
+    rawSend({ type: 'join', code, role });
+    for (let i = 0; i < PING_BURST; i++) timers.push(setTimeout(ping, i * PING_BURST_GAP_MS));
+    interval = setInterval(ping, PING_INTERVAL_MS);
+  };
+  socket.onmessage = (event: MessageEvent) => {
+    if (finished) return;
+    const message = parse(event.data);
+    if (!message) return;
+    switch (message.type) {
+      case 'joined':
+        onStatus(message.peer ? 'connected' : 'waiting');
+        break;
+      case 'peer':
+        onStatus(message.present ? 'connected' : 'waiting');
+        break;
+      case 'error':
+        finish(message.message);
+        break;
+      case 'time': {
+        samples.push({ t0: message.t0, serverMs: message.serverMs, t3: now() });
+        if (samples.length > CLOCK_SAMPLES) samples.shift();
+        clock = estimateClockOffset(samples);
+        if (clock) onClock?.(clock);
+        break;
+      }
+      default:
+        if (SESSION_TYPES.has(message.type)) onMessage(message as RemoteMessage);
+    }
+  };
+  socket.onerror = () => finish('Could not reach the relay.');
+  socket.onclose = () => finish();
+
+  return {
+    send: (message) => rawSend(message),
+    close: () => finish(),
+    clock: () => clock,
+  };
+}
+
+export interface RemoteClientParams {
+  code: string;
+  relayUrl: string;
+}
+
+export function isRemoteClient(search: string = window.location.search): boolean {
+  return new URLSearchParams(search).get(REMOTE_PARAM) === 'client';
+}
+
+/** Join code and relay from a client link; missing or malformed parts come back empty */
+export function remoteClientParams(search: string = window.location.search): RemoteClientParams {
+  const params = new URLSearchParams(search);
+  return {
+    code: normalizeJoinCode(params.get(CODE_PARAM) ?? '') ?? '',
+    relayUrl: params.get(RELAY_PARAM) ?? '',
+  };
+}
+
+export function remoteClientUrl(
+  relayUrl: string,
+  code: string,
+  location: Pick<Location, 'origin' | 'pathname'> = window.location,
+): string {
+  const params = new URLSearchParams({ [REMOTE_PARAM]: 'client', [CODE_PARAM]: code, [RELAY_PARAM]: relayUrl });
+  return `${location.origin}${location.pathname}?${params}`;
+}
+
+/** Relay on the page's host at the reference server's port */
+export function defaultRelayUrl(location: Pick<Location, 'protocol' | 'hostname'> = window.location): string {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname || 'localhost'}:8787`;
+}
+
+export function loadRelayUrl(): string {
+  try {
+    return localStorage.getItem(RELAY_KEY) || defaultRelayUrl();
+  } catch {
+    return defaultRelayUrl();
+  }
+}
+
+export function saveRelayUrl(url: string) {
+  try {
+    localStorage.setItem(RELAY_KEY, url);
+  } catch {
+    // storage full or blocked; the default comes back next time
+  }
+}
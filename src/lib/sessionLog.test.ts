@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addSessionEvent,
+  addSet,
+  appendSession,
+  beginSession,
+  clearSessionLog,
+  finishSession,
+  loadSessionLog,
+  MAX_SESSIONS,
+  rateSet,
+  sessionLogFileName,
+  sessionsToCSV,
+  updateStoredSession,
+} from './sessionLog';
+import { DEFAULTS } from './defaults';
+import { AppConfig } from '../types';
+
+const T0 = Date.UTC(2024, 2, 5, 10, 0, 0);
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('sessionLog', () => {
+  describe('records', () => {
+    it('starts with the plan and a settings snapshot', () => {
+      const record = beginSession({ ...DEFAULTS, durationSec: 180 }, T0);
+
+      expect(record).toMatchObject({
+        startedAt: T0,
+        sessionMode: 'time',
+        plannedSec: 180,
+        actualSec: 0,
+        passes: 0,
+        pauses: 0,
+        events: [{ type: 'start', at: T0, elapsedSec: 0 }],
+      });
+      expect(record.settings).toMatchObject({ audioMode: DEFAULTS.audio.mode, volume: DEFAULTS.audio.volume });
+    });
+
+    it('plans pass-count sessions from the tempo', () => {
+      const config: AppConfig = { ...DEFAULTS, sessionMode: 'passes', passCount: 30, target: { ...DEFAULTS.target, passesPerMin: 60 } };
+
+      expect(beginSession(config, T0)).toMatchObject({ plannedSec: 30, plannedPasses: 30 });
+    });
+
+    it('takes the tempo from the angular speed in degree units', () => {
+      const config: AppConfig = {
+        ...DEFAULTS,
+        sessionMode: 'passes',
+        passCount: 30,
+        calibration: { pxPerCm: 40, viewingDistanceCm: 57 },
+        // 40°/s across 20° is two passes a second
+        target: { ...DEFAULTS.target, passesPerMin: 60, edgePauseMs: 0, units: 'deg', amplitudeDeg: 20, speedDegPerSec: 40 },
+      };
+
+      const record = beginSession(config, T0);
+      expect(record).toMatchObject({ plannedSec: 15, plannedPasses: 30 });
+      expect(record.settings.passesPerMin).toBe(120);
+    });
+
+    it('plans protocol sessions as sets plus the rests between them', () => {
+      const config: AppConfig = { ...DEFAULTS, sessionMode: 'protocol', protocol: { sets: 3, setSec: 30, restSec: 20 } };
+
+      expect(beginSession(config, T0).plannedSec).toBe(130);
+    });
+
+    it('counts pauses and ends with the reason', () => {
+      let record = beginSession(DEFAULTS, T0);
+      record = addSessionEvent(record, 'pause', { elapsedSec: 10, passes: 8 }, T0 + 10_000);
+      record = addSessionEvent(record, 'resume', { elapsedSec: 10, passes: 8 }, T0 + 25_000);
+      record = finishSession(record, 'completed', { elapsedSec: 120, passes: 96 }, T0 + 135_000);
+
+      expect(record).toMatchObject({ pauses: 1, actualSec: 120, passes: 96, endedAt: T0 + 135_000, endReason: 'completed' });
+      expect(record.events.map((e) => e.type)).toEqual(['start', 'pause', 'resume', 'end']);
+    });
+
+    it('logs the panic stop before the end', () => {
+      const record = finishSession(beginSession(DEFAULTS, T0), 'panic', { elapsedSec: 4, passes: 3 }, T0 + 4000);
+
+      expect(record.events.map((e) => e.type)).toEqual(['start', 'panic', 'end']);
+      expect(record.endReason).toBe('panic');
+    });
+  });
+
+  describe('sets', () => {
+    it('numbers sets and attaches ratings to the right one', () => {
+      let record = beginSession(DEFAULTS, T0);
+      record = addSet(record, { elapsedSec: 30, passes: 30 }, T0 + 30_000);
+      record = addSet(record, { elapsedSec: 60, passes: 60 }, T0 + 80_000);
+      record = rateSet(record, 2, { sud: 4, voc: 6, cue: '  calmer  ' });
+
+      expect(record.sets).toEqual([
+        { set: 1, endedAt: T0 + 30_000, elapsedSec: 30, passes: 30 },
+        { set: 2, endedAt: T0 + 80_000, elapsedSec: 60, passes: 60, sud: 4, voc: 6, cue: 'calmer' },
+      ]);
+    });
+
+    it('drops out-of-range scores and empty cues', () => {
+      const record = rateSet(addSet(beginSession(DEFAULTS, T0), { elapsedSec: 5, passes: 5 }), 1, { sud: 11, voc: 0, cue: ' ' });
+
+      expect(record.sets![0]).toMatchObject({ sud: undefined, voc: undefined, cue: undefined });
+    });
+  });
+
+  describe('storage', () => {
+    it('stores sessions newest first', () => {
+      appendSession(beginSession(DEFAULTS, T0));
+      appendSession(beginSession(DEFAULTS, T0 + 1000));
+
+      expect(loadSessionLog().map((s) => s.startedAt)).toEqual([T0 + 1000, T0]);
+    });
+
+    it('drops the oldest sessions past the cap', () => {
+      const record = beginSession(DEFAULTS, T0);
+      localStorage.setItem('emdr-session-log-v1', JSON.stringify(Array(MAX_SESSIONS).fill(record)));
+
+      appendSession(beginSession(DEFAULTS, T0 + 1));
+
+      const log = loadSessionLog();
+      expect(log).toHaveLength(MAX_SESSIONS);
+      expect(log[0].startedAt).toBe(T0 + 1);
+    });
+
+    it('updates a stored session', () => {
+      const record = addSet(beginSession(DEFAULTS, T0), { elapsedSec: 120, passes: 96 });
+      appendSession(record);
+
+      updateStoredSession(record.id, (r) => rateSet(r, 1, { sud: 2 }));
+
+      expect(loadSessionLog()[0].sets![0].sud).toBe(2);
+    });
+
+    it('clears and survives corrupt storage', () => {
+      appendSession(beginSession(DEFAULTS, T0));
+      clearSessionLog();
+      expect(loadSessionLog()).toEqual([]);
+
+      localStorage.setItem('emdr-session-log-v1', '{not json');
+      expect(loadSessionLog()).toEqual([]);
+    });
+  });
+
+  describe('export', () => {
+    it('writes one CSV row per session and quotes awkward values', () => {
+      const config: AppConfig = { ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileName: 'rain, "soft".wav' } };
+      const record = finishSession(beginSession(config, T0), 'stopped', { elapsedSec: 61.4, passes: 40 }, T0 + 70_000);
+
+      const [header, row, end] = sessionsToCSV([record]).split('\r\n');
+
+      expect(header.split(',')).toEqual(expect.arrayContaining(['started', 'planned_sec', 'actual_sec', 'passes', 'pauses', 'end_reason']));
+      expect(row).toContain('2024-03-05T10:00:00.000Z,2024-03-05T10:01:10.000Z,time,120,61,,40,0,stopped');
+      expect(row).toContain('"rain, ""soft"".wav"');
+      expect(end).toBe('');
+    });
+
+    it('keeps text cells from being read as formulas', () => {
+      let record = beginSession({ ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileName: '=HYPERLINK("x").wav' } }, T0);
+      record = addSet(record, { elapsedSec: 30, passes: 30 });
+      record = rateSet(record, 1, { cue: '@SUM(A1)' });
+
+      const row = sessionsToCSV([record]).split('\r\n')[1];
+
+      expect(row).toContain(`"'=HYPERLINK(""x"").wav"`);
+      expect(row.endsWith(",'@SUM(A1)")).toBe(true);
+
+      const tab = beginSession({ ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileName: '\t=1+1.wav' } }, T0);
+      const cr = beginSession({ ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileName: '\r=1+1.wav' } }, T0);
+      const csv = sessionsToCSV([tab, cr]);
+      expect(csv).toContain(",'\t=1+1.wav,");
+      expect(csv).toContain(`,"'\r=1+1.wav",`);
+    });
+
+    it('lists ratings per set in CSV order', () => {
+      let record = beginSession(DEFAULTS, T0);
+      record = addSet(record, { elapsedSec: 30, passes: 30 });
+      record = addSet(record, { elapsedSec: 60, passes: 60 });
+      record = rateSet(record, 1, { sud: 6, cue: 'tight chest' });
+      record = rateSet(record, 2, { sud: 3, voc: 5 });
+
+      const row = sessionsToCSV([record]).split('\r\n')[1];
+
+      expect(row.endsWith(',2,6;3,;5,tight chest | ')).toBe(true);
+    });
+
+    it('names exports by date', () => {
+      expect(sessionLogFileName('csv', new Date(T0))).toBe('emdr-sessions-2024-03-05.csv');
+    });
+  });
+});
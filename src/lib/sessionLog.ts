@@ -0,0 +1,247 @@
+// Session log: one record per run, kept in localStorage for treatment documentation
+import { AppConfig, AudioMode, MotionEasing, MotionPath, SessionMode, TargetUnits } from '../types';
+import { tempoFromLegacySpeed } from './motion';
+import { resolveTargetGeometry } from './visualAngle';
+
+const LOG_KEY = 'emdr-session-log-v1';
+// Oldest records are dropped past this so localStorage doesn't fill up
+export const MAX_SESSIONS = 500;
+
+export type SessionEndReason = 'completed' | 'stopped' | 'panic' | 'closed';
+export type SessionEventType = 'start' | 'pause' | 'resume' | 'panic' | 'end';
+
+export type SessionEvent = {
+  type: SessionEventType;
+  at: number; // epoch ms
+  elapsedSec: number; // stimulation time so far
+};
+
+/** Speed and audio settings at the start of the session */
+export type SessionSettings = {
+  passesPerMin: number;
+  path: MotionPath;
+  easing: MotionEasing;
+  units: TargetUnits;
+  speedDegPerSec?: number; // only when units is 'deg'
+  edgePauseMs: number;
+  audioMode: AudioMode;
+  volume: number;
+  muted: boolean;
+  pitch?: string;
+  waveform?: string;
+  panDepth: number;
+  fileName?: string; // file mode only
+};
+
+// Rating scales asked for between sets
+export const SUD_RANGE = { min: 0, max: 10 }; // Subjective Units of Disturbance
+export const VOC_RANGE = { min: 1, max: 7 }; // Validity of Cognition
+
+export type SetRating = {
+  sud?: number;
+  voc?: number;
+  cue?: string; // short note, e.g. what came up during the set
+};
+
+export type SetRecord = SetRating & {
+  set: number; // 1-based
+  endedAt: number; // epoch ms
+  elapsedSec: number; // stimulation time when the set ended
+  passes: number;
+};
+
+export type SessionRecord = {
+  id: string;
+  startedAt: number; // epoch ms
+  endedAt?: number;
+  sessionMode: SessionMode;
+  plannedSec: number; // estimated from tempo in pass-count sessions
+  plannedPasses?: number; // pass-count sessions only
+  actualSec: number; // time spent running, pauses excluded
+  passes: number;
+  pauses: number;
+  endReason?: SessionEndReason;
+  events: SessionEvent[];
+  sets?: SetRecord[]; // missing in records from before set tracking
+  settings: SessionSettings;
+};
+
+export type SessionProgress = {
+  elapsedSec: number;
+  passes: number;
+};
+
+function newSessionId(): string {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function plannedDuration(config: AppConfig): Pick<SessionRecord, 'plannedSec' | 'plannedPasses'> {
+  const mode = config.sessionMode ?? 'time';
+  if (mode === 'protocol' && config.protocol) {
+    const { sets, setSec, restSec } = config.protocol;
+    return { plannedSec: sets * setSec + (sets - 1) * restSec };
+  }
+  if (mode === 'passes') {
+    const passCount = config.passCount ?? 24;
+    return { plannedSec: Math.round((passCount * 60) / sessionTempo(config)), plannedPasses: passCount };
+  }
+  return { plannedSec: config.durationSec };
+}
+
+// The tempo the stage runs at, including one set by angular speed in degree units
+function sessionTempo(config: AppConfig): number {
+  return resolveTargetGeometry(config.target, config.calibration).passesPerMin
+    ?? tempoFromLegacySpeed(config.target.speedPxPerSec);
+}
+
+export function sessionSettings(config: AppConfig): SessionSettings {
+  const { target, audio } = config;
+  const units = target.units ?? 'px';
+  return {
+    passesPerMin: sessionTempo(config),
+    path: target.path ?? 'horizontal',
+    easing: target.easing ?? 'linear',
+    units,
+    ...(units === 'deg' ? { speedDegPerSec: target.speedDegPerSec } : {}),
+    edgePauseMs: target.edgePauseMs,
+    audioMode: audio.mode,
+    volume: audio.volume,
+    muted: audio.muted,
+    pitch: audio.pitch,
+    waveform: audio.waveform,
+    panDepth: audio.panDepth ?? 1,
+    ...(audio.mode === 'file' ? { fileName: audio.fileName } : {}),
+  };
+}
+
+export function beginSession(config: AppConfig, now = Date.now()): SessionRecord {
+  return {
+    id: newSessionId(),
+    startedAt: now,
+    sessionMode: config.sessionMode ?? 'time',
+    ...plannedDuration(config),
+    actualSec: 0,
+    passes: 0,
+    pauses: 0,
+    events: [{ type: 'start', at: now, elapsedSec: 0 }],
+    sets: [],
+    settings: sessionSettings(config),
+  };
+}
+
+export function addSessionEvent(record: SessionRecord, type: SessionEventType, progress: SessionProgress, now = Date.now()): SessionRecord {
+  return {
+    ...record,
+    actualSec: progress.elapsedSec,
+    passes: progress.passes,
+    pauses: record.pauses + (type === 'pause' ? 1 : 0),
+    events: [...record.events, { type, at: now, elapsedSec: progress.elapsedSec }],
+  };
+}
+
+export function finishSession(record: SessionRecord, reason: SessionEndReason, progress: SessionProgress, now = Date.now()): SessionRecord {
+  const withPanic = reason === 'panic' ? addSessionEvent(record, 'panic', progress, now) : record;
+  return { ...addSessionEvent(withPanic, 'end', progress, now), endedAt: now, endReason: reason };
+}
+
+export function addSet(record: SessionRecord, progress: SessionProgress, now = Date.now()): SessionRecord {
+  const sets = record.sets ?? [];
+  const set: SetRecord = { set: sets.length + 1, endedAt: now, elapsedSec: progress.elapsedSec, passes: progress.passes };
+  return { ...record, actualSec: progress.elapsedSec, passes: progress.passes, sets: [...sets, set] };
+}
+
+/**
+ * Attach ratings to a finished set; out-of-range scores and empty cues are dropped
+ */
+export function rateSet(record: SessionRecord, setNumber: number, rating: SetRating): SessionRecord {
+  const inRange = (v: number | undefined, { min, max }: typeof SUD_RANGE) =>
+    v !== undefined && Number.isInteger(v) && v >= min && v <= max ? v : undefined;
+  const cue = rating.cue?.trim().slice(0, 200);
+  const clean: SetRating = {
+    sud: inRange(rating.sud, SUD_RANGE),
+    voc: inRange(rating.voc, VOC_RANGE),
+    cue: cue || undefined,
+  };
+  return {
+    ...record,
+    sets: (record.sets ?? []).map((s) => (s.set === setNumber ? { ...s, ...clean } : s)),
+  };
+}
+
+/**
+ * Stored sessions, newest first
+ */
+export function loadSessionLog(): SessionRecord[] {
+  try {
+    const raw = localStorage.getItem(LOG_KEY);
+    const log = raw ? JSON.parse(raw) : null;
+    return Array.isArray(log) ? (log as SessionRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSessionLog(log: SessionRecord[]) {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch {
+    // ignore
+  }
+}
+
+export function appendSession(record: SessionRecord) {
+  writeSessionLog([record, ...loadSessionLog()].slice(0, MAX_SESSIONS));
+}
+
+/**
+ * Update a stored session in place (e.g. a rating entered after the session ended)
+ */
+export function updateStoredSession(id: string, update: (record: SessionRecord) => SessionRecord) {
+  writeSessionLog(loadSessionLog().map((r) => (r.id === id ? update(r) : r)));
+}
+
+export function clearSessionLog() {
+  writeSessionLog([]);
+}
+
+const CSV_COLUMNS: [string, (r: SessionRecord) => unknown][] = [
+  ['started', (r) => new Date(r.startedAt).toISOString()],
+  ['ended', (r) => (r.endedAt ? new Date(r.endedAt).toISOString() : '')],
+  ['mode', (r) => r.sessionMode],
+  ['planned_sec', (r) => r.plannedSec],
+  ['actual_sec', (r) => Math.round(r.actualSec)],
+  ['planned_passes', (r) => r.plannedPasses ?? ''],
+  ['passes', (r) => r.passes],
+  ['pauses', (r) => r.pauses],
+  ['end_reason', (r) => r.endReason ?? ''],
+  ['passes_per_min', (r) => r.settings.passesPerMin],
+  ['path', (r) => r.settings.path],
+  ['easing', (r) => r.settings.easing],
+  ['audio_mode', (r) => r.settings.audioMode],
+  ['volume', (r) => r.settings.volume],
+  ['muted', (r) => r.settings.muted],
+  ['audio_file', (r) => r.settings.fileName ?? ''],
+  // Per-set values joined in set order; unrated sets stay empty so positions line up
+  ['sets', (r) => r.sets?.length ?? 0],
+  ['sud_by_set', (r) => (r.sets ?? []).map((s) => s.sud ?? '').join(';')],
+  ['voc_by_set', (r) => (r.sets ?? []).map((s) => s.voc ?? '').join(';')],
+  ['cues', (r) => (r.sets ?? []).map((s) => s.cue ?? '').join(' | ')],
+];
+
+function csvCell(value: unknown): string {
+  // Spreadsheets run text starting with these as a formula; a leading ' keeps it text
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per session; the event timeline is only in the JSON export
+ */
+export function sessionsToCSV(records: SessionRecord[]): string {
+  const rows = records.map((r) => CSV_COLUMNS.map(([, get]) => csvCell(get(r))).join(','));
+  return [CSV_COLUMNS.map(([name]) => name).join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function sessionLogFileName(extension: 'csv' | 'json', date = new Date()): string {
+  return `emdr-sessions-${date.toISOString().slice(0, 10)}.${extension}`;
+}
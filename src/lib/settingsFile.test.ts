@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./audioLibrary', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./audioLibrary')>()),
+  loadSound: vi.fn(),
+  addSound: vi.fn(),
+}));
+
+import {
+  buildSettingsFile,
+  downloadJSON,
+  parseSettingsFile,
+  resolveImport,
+  SettingsFileError,
+  settingsFileName,
+  summarizeChanges,
+} from './settingsFile';
+import { addSound, loadSound } from './audioLibrary';
+import { DEFAULTS } from './defaults';
+import { fileToText } from './storage';
+import { SCHEMA_VERSION } from './configSchema';
+import { AppConfig } from '../types';
+
+const calibration = { pxPerCm: 38, viewingDistanceCm: 57 };
+const withIcon: AppConfig = {
+  ...DEFAULTS,
+  calibration,
+  target: { ...DEFAULTS.target, shape: 'custom', customIconUrl: 'data:image/png;base64,AA==', customIconName: 'bird.png' },
+  audio: { ...DEFAULTS.audio, mode: 'file', fileId: 'snd-1', fileName: 'rain.wav', fileUrl: 'blob:page-load' },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('settingsFile', () => {
+  describe('buildSettingsFile', () => {
+    it('exports the config without calibration or the audio object URL', async () => {
+      const file = await buildSettingsFile(withIcon, { includeAudio: false, includeIcon: true });
+
+      expect(file).toMatchObject({ format: 'emdr-settings', schemaVersion: SCHEMA_VERSION });
+      expect(file.config).not.toHaveProperty('calibration');
+      expect(file.config.audio.fileUrl).toBeUndefined();
+      expect(file.config.target.customIconUrl).toBe('data:image/png;base64,AA==');
+      expect(file.audio).toBeUndefined();
+      expect(loadSound).not.toHaveBeenCalled();
+    });
+
+    it('leaves the icon out unless asked', async () => {
+      const file = await buildSettingsFile(withIcon, { includeAudio: false, includeIcon: false });
+
+      expect(file.config.target.customIconUrl).toBeUndefined();
+      expect(file.config.target.customIconName).toBeUndefined();
+    });
+
+    it('embeds the selected library sound as a data URL', async () => {
+      (loadSound as any).mockResolvedValue({
+        id: 'snd-1', name: 'rain.wav', mimeType: 'audio/wav', blob: new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/wav' }),
+      });
+
+      const file = await buildSettingsFile(withIcon, { includeAudio: true, includeIcon: false });
+
+      expect(loadSound).toHaveBeenCalledWith('snd-1');
+      expect(file.audio).toEqual({ name: 'rain.wav', mimeType: 'audio/wav', dataUrl: 'data:audio/wav;base64,AQID' });
+    });
+  });
+
+  describe('parseSettingsFile', () => {
+    const envelope = (config: unknown, extra = {}) =>
+      JSON.stringify({ format: 'emdr-settings', schemaVersion: SCHEMA_VERSION, exportedAt: '', config, ...extra });
+
+    it('round-trips an export', async () => {
+      const file = await buildSettingsFile(withIcon, { includeAudio: false, includeIcon: true });
+
+      const parsed = parseSettingsFile(JSON.stringify(file));
+
+      expect(parsed.fixes).toEqual([]);
+      expect(parsed.config.target).toEqual(file.config.target);
+    });
+
+    it('rejects files that are not settings exports', () => {
+      expect(() => parseSettingsFile('not json')).toThrow(SettingsFileError);
+      expect(() => parseSettingsFile('{"durationSec": 60}')).toThrow(/not an exported settings file/);
+    });
+
+    it('repairs invalid values and reports them', () => {
+      const parsed = parseSettingsFile(envelope({ ...DEFAULTS, audio: { ...DEFAULTS.audio, volume: 9 } }));
+
+      expect(parsed.config.audio.volume).toBe(1);
+      expect(parsed.fixes).toEqual(['audio.volume: 9 → 1']);
+    });
+
+    it('sanitizes an embedded SVG icon', () => {
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" onload="steal()"><circle r="4"/></svg>';
+      const parsed = parseSettingsFile(envelope({
+        ...DEFAULTS,
+        target: { ...DEFAULTS.target, shape: 'custom', customIconUrl: `data:image/svg+xml;base64,${btoa(svg)}`, customIconName: 'toy.svg' },
+      }));
+
+      expect(decodeURIComponent(parsed.config.target.customIconUrl!)).toBe(
+        'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><circle r="4"/></svg>'
+      );
+      expect(parsed.fixes).toEqual([]);
+    });
+
+    it('drops an embedded icon that is not a readable SVG', () => {
+      const parsed = parseSettingsFile(envelope({
+        ...DEFAULTS,
+        target: { ...DEFAULTS.target, customIconUrl: 'data:image/svg+xml,%3Chtml%2F%3E', customIconName: 'page.svg' },
+      }));
+
+      expect(parsed.config.target.customIconUrl).toBeUndefined();
+      expect(parsed.config.target.customIconName).toBeUndefined();
+      expect(parsed.fixes).toEqual(['target.customIconUrl: embedded icon could not be read → removed']);
+    });
+
+    it('migrates old configs using the envelope version', () => {
+      const parsed = parseSettingsFile(envelope({ target: { speedPxPerSec: 1200 } }, { schemaVersion: 1 }));
+
+      expect(parsed.config.target.passesPerMin).toBe(30);
+    });
+
+    it('drops embedded data that is not audio', () => {
+      const parsed = parseSettingsFile(envelope(DEFAULTS, { audio: { name: 'x', dataUrl: 'data:text/html;base64,AA==' } }));
+
+      expect(parsed.audio).toBeUndefined();
+      expect(parsed.fixes).toEqual(['audio: embedded sound is not audio data → removed']);
+    });
+  });
+
+  describe('summarizeChanges', () => {
+    it('lists changed settings, ignoring calibration and per-machine fields', () => {
+      const next: AppConfig = {
+        ...withIcon,
+        calibration: undefined,
+        durationSec: 300,
+        target: { ...withIcon.target, color: '#ff0000', customIconUrl: 'data:image/png;base64,BB==' },
+        audio: { ...withIcon.audio, fileId: 'snd-9', fileUrl: undefined },
+      };
+
+      expect(summarizeChanges(withIcon, next)).toEqual([
+        'durationSec: 120 → 300',
+        'target.color: "#00FF88" → "#ff0000"',
+        'target.customIconUrl: replaced with embedded icon',
+      ]);
+    });
+
+    it('is empty when nothing changes', () => {
+      expect(summarizeChanges(DEFAULTS, { ...DEFAULTS })).toEqual([]);
+    });
+  });
+
+  describe('resolveImport', () => {
+    it('keeps this machine\'s calibration', async () => {
+      const config = await resolveImport(withIcon, { config: { ...DEFAULTS }, fixes: [] });
+
+      expect(config.calibration).toEqual(calibration);
+    });
+
+    it('adds an embedded sound to the library and selects it', async () => {
+      (addSound as any).mockResolvedValue({ id: 'snd-new', name: 'rain.wav' });
+
+      const config = await resolveImport(DEFAULTS, {
+        config: { ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file', fileId: 'snd-other' } },
+        fixes: [],
+        audio: { name: 'rain.wav', mimeType: 'audio/wav', dataUrl: 'data:audio/wav;base64,AQID' },
+      });
+
+      expect((addSound as any).mock.calls[0][0].size).toBe(3);
+      expect(config.audio).toMatchObject({ fileId: 'snd-new', fileName: 'rain.wav', fileUrl: undefined });
+    });
+
+    it('keeps the loaded sound when the import selects the same one', async () => {
+      const config = await resolveImport(withIcon, { config: { ...withIcon, audio: { ...withIcon.audio, fileUrl: undefined } }, fixes: [] });
+
+      expect(config.audio.fileUrl).toBe('blob:page-load');
+    });
+  });
+
+  it('downloads pretty-printed JSON', async () => {
+    vi.useFakeTimers();
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:download');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadJSON('settings.json', { a: 1 });
+
+    expect(click).toHaveBeenCalled();
+    // The URL has to outlive the click
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:download');
+    vi.useRealTimers();
+    expect(await fileToText(createObjectURL.mock.calls[0][0])).toBe('{\n  "a": 1\n}\n');
+    vi.unstubAllGlobals();
+    click.mockRestore();
+  });
+
+  it('names exports by date', () => {
+    expect(settingsFileName(new Date('2024-03-05T10:00:00Z'))).toBe('emdr-settings-2024-03-05.json');
+  });
+});
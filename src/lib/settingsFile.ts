@@ -0,0 +1,179 @@
+// Export/import of settings as a portable JSON file
+import { AppConfig } from '../types';
+import { fileToDataUrl } from './storage';
+import { SCHEMA_VERSION, validateConfig } from './configSchema';
+import { addSound, dataUrlToBlob, loadSound } from './audioLibrary';
+
+const FORMAT = 'emdr-settings';
+
+export type EmbeddedAudio = {
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+};
+
+export type SettingsFile = {
+  format: typeof FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  config: Omit<AppConfig, 'calibration'>;
+  audio?: EmbeddedAudio; // library sound referenced by config.audio.fileId
+};
+
+export type ExportOptions = {
+  includeAudio: boolean;
+  includeIcon: boolean;
+};
+
+export type ParsedSettings = {
+  config: AppConfig;
+  fixes: string[]; // repairs made while validating against the schema
+  audio?: EmbeddedAudio;
+};
+
+export class SettingsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsFileError';
+  }
+}
+
+/**
+ * Build an export of the current settings. Calibration stays behind since it belongs
+ * to the display; the audio object URL is never exported.
+ */
+export async function buildSettingsFile(config: AppConfig, { includeAudio, includeIcon }: ExportOptions): Promise<SettingsFile> {
+  const { calibration: _calibration, ...rest } = validateConfig(config).config;
+  const exported: SettingsFile['config'] = {
+    ...rest,
+    target: includeIcon
+      ? rest.target
+      : { ...rest.target, customIconUrl: undefined, customIconName: undefined },
+    audio: { ...rest.audio, fileUrl: undefined },
+  };
+
+  let audio: EmbeddedAudio | undefined;
+  if (includeAudio && rest.audio.fileId) {
+    const sound = await loadSound(rest.audio.fileId);
+    if (sound) {
+      audio = { name: sound.name, mimeType: sound.mimeType, dataUrl: await fileToDataUrl(sound.blob) };
+    }
+  }
+
+  return {
+    format: FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    config: exported,
+    ...(audio ? { audio } : {}),
+  };
+}
+
+export function settingsFileName(date = new Date()): string {
+  return `emdr-settings-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Save text through a temporary download link
+ */
+export function downloadText(fileName: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Save JSON through a temporary download link. Pretty-printed so exports diff well in version control.
+ */
+export function downloadJSON(fileName: string, data: unknown): void {
+  downloadText(fileName, JSON.stringify(data, null, 2) + '\n', 'application/json');
+}
+
+/**
+ * Parse and schema-check an exported file; throws SettingsFileError if it isn't one
+ */
+export function parseSettingsFile(text: string): ParsedSettings {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SettingsFileError('This file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== FORMAT || !isRecord(data.config)) {
+    throw new SettingsFileError('This file is not an exported settings file.');
+  }
+
+  // The envelope carries the version for files whose config predates the field
+  const { config, fixes } = validateConfig({ schemaVersion: data.schemaVersion, ...data.config });
+  const audio = isRecord(data.audio) ? data.audio : undefined;
+  const dataUrl = typeof audio?.dataUrl === 'string' && audio.dataUrl.startsWith('data:audio/') ? audio.dataUrl : undefined;
+  if (data.audio !== undefined && !dataUrl) fixes.push('audio: embedded sound is not audio data → removed');
+
+  return {
+    config,
+    fixes,
+    audio: audio && dataUrl
+      ? { name: String(audio.name || 'Imported sound'), mimeType: String(audio.mimeType || ''), dataUrl }
+      : undefined,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  } else if (value !== undefined) {
+    out.set(prefix, value);
+  }
+}
+
+// Fields that are per machine or per page load and never come from an import
+const LOCAL_FIELDS = new Set(['schemaVersion', 'audio.fileUrl', 'audio.fileId']);
+
+/**
+ * One "path: old → new" line per setting the import would change
+ */
+export function summarizeChanges(current: AppConfig, next: AppConfig): string[] {
+  const before = new Map<string, unknown>();
+  const after = new Map<string, unknown>();
+  flatten({ ...current, calibration: undefined }, '', before);
+  flatten({ ...next, calibration: undefined }, '', after);
+  const show = (v: unknown) => (v === undefined ? 'unset' : JSON.stringify(v));
+  const paths = [...new Set([...before.keys(), ...after.keys()])].filter((p) => !LOCAL_FIELDS.has(p));
+  return paths
+    .filter((p) => JSON.stringify(before.get(p)) !== JSON.stringify(after.get(p)))
+    .map((p) => {
+      const from = before.get(p);
+      const to = after.get(p);
+      // Icons are long data URLs; don't dump them into the summary
+      if (p === 'target.customIconUrl') return `${p}: ${to === undefined ? 'removed' : 'replaced with embedded icon'}`;
+      return `${p}: ${show(from)} → ${show(to)}`;
+    });
+}
+
+/**
+ * Turn a parsed import into the config to apply: keeps this machine's calibration and
+ * stores any embedded sound in the audio library.
+ */
+export async function resolveImport(current: AppConfig, parsed: ParsedSettings): Promise<AppConfig> {
+  const config: AppConfig = {
+    ...parsed.config,
+    calibration: current.calibration,
+    audio: { ...parsed.config.audio, fileUrl: undefined },
+  };
+  if (parsed.audio) {
+    const item = await addSound(dataUrlToBlob(parsed.audio.dataUrl), parsed.audio.name);
+    config.audio = { ...config.audio, fileId: item.id, fileName: item.name };
+  } else if (config.audio.fileId === current.audio.fileId) {
+    // Same library sound on this machine; keep it playing
+    config.audio = { ...config.audio, fileUrl: current.audio.fileUrl };
+  }
+  return config;
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { getShape, isValidPathData, listShapes, registerShape } from './shapes';
+import { validateConfig } from './configSchema';
+import type { ShapeId } from '../types';
+
+describe('shape registry', () => {
+  it('lists the built-in shapes in menu order', () => {
+    expect(listShapes().map((s) => s.id)).toEqual([
+      'circle', 'square', 'diamond', 'smiley', 'triangle', 'star', 'hexagon', 'ring', 'bullseye', 'cross', 'heart',
+      'moon', 'flower', 'paw', 'path',
+    ]);
+  });
+
+  it('keeps box shapes as CSS and turns the diamond', () => {
+    expect(getShape('circle')).toEqual({ id: 'circle', label: 'Circle', round: true });
+    expect(getShape('square')?.render).toBeUndefined();
+    expect(getShape('diamond')?.baseRotationDeg).toBe(45);
+  });
+
+  it('draws the user path, or a circle until there is one', () => {
+    const path = getShape('path')!;
+    const { container, rerender } = render(<svg>{path.render!({ color: '#ff0000', customPath: 'M0 0 L100 0 L50 100 Z' })}</svg>);
+    expect(container.querySelector('path')?.getAttribute('d')).toBe('M0 0 L100 0 L50 100 Z');
+
+    rerender(<svg>{path.render!({ color: '#ff0000', customPath: 'not a path' })}</svg>);
+    expect(container.querySelector('path')).toBeNull();
+    expect(container.querySelector('circle')?.getAttribute('fill')).toBe('#ff0000');
+  });
+
+  it('accepts new shapes by registering them', () => {
+    registerShape({ id: 'test-drop' as ShapeId, label: 'Drop', render: ({ color }) => <path fill={color} d="M50 5 L80 60 A30 30 0 1 1 20 60 Z" /> });
+
+    expect(listShapes().map((s) => s.label)).toContain('Drop');
+    expect(validateConfig({ target: { shape: 'test-drop' } }).config.target.shape).toBe('test-drop');
+    expect(validateConfig({ target: { shape: 'blob' } }).fixes).toEqual(['target.shape: "blob" → "circle"']);
+  });
+});
+
+describe('isValidPathData', () => {
+  it('accepts path commands and numbers', () => {
+    expect(isValidPathData('M10,10 L90 10 C 90 90, 10 90, 10 10z')).toBe(true);
+    expect(isValidPathData('m 5 5 h 90 v 90 a 4.5e1 45 0 0 1 -90 0 Z')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isValidPathData('L10 10')).toBe(false);
+    expect(isValidPathData('M0 0" onload="x()')).toBe(false);
+    expect(isValidPathData(`M0 0 ${'L1 1 '.repeat(1000)}`)).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import React from 'react';
+import type { ShapeId } from '../types';
+
+/**
+ * Registry of target shapes. Target draws them and Controls lists them in registration order;
+ * the config validator accepts any registered id (plus 'emoji' and 'custom').
+ */
+
+declare module '../types' {
+  interface ShapeIds {
+    circle: true;
+    square: true;
+    diamond: true;
+    smiley: true;
+    triangle: true;
+    star: true;
+    hexagon: true;
+    ring: true;
+    bullseye: true;
+    cross: true;
+    heart: true;
+    moon: true;
+    flower: true;
+    paw: true;
+    path: true;
+  }
+}
+
+export type ShapeRenderProps = {
+  color: string;
+  customPath?: string; // SVG path data for the user-defined 'path' shape
+};
+
+export type ShapeDefinition = {
+  id: ShapeId;
+  label: string;
+  // SVG content for a 0 0 100 100 viewBox; without it the target is a plain box filled with the color
+  render?: (props: ShapeRenderProps) => React.ReactNode;
+  round?: boolean; // clip the target box to a circle
+  baseRotationDeg?: number; // added to any spin, e.g. a square turned into a diamond
+};
+
+const shapes = new Map<ShapeId, ShapeDefinition>();
+
+/**
+ * Add a shape, or replace the one registered under the same id
+ */
+export function registerShape(shape: ShapeDefinition): void {
+  shapes.set(shape.id, shape);
+}
+
+// Takes any target shape; 'emoji' and 'custom' aren't registered
+export function getShape(id: string): ShapeDefinition | undefined {
+  return shapes.get(id as ShapeId);
+}
+
+export function listShapes(): ShapeDefinition[] {
+  return Array.from(shapes.values());
+}
+
+// Path data in the 100×100 viewBox: commands, numbers, commas and whitespace only
+const SVG_PATH_DATA = /^[MmLlHhVvCcSsQqTtAaZz\d\s,.eE+-]+$/;
+export const MAX_PATH_LENGTH = 4000;
+
+export function isValidPathData(d: string): boolean {
+  return d.length <= MAX_PATH_LENGTH && /^\s*[Mm]/.test(d) && SVG_PATH_DATA.test(d);
+}
+
+registerShape({ id: 'circle', label: 'Circle', round: true });
+registerShape({ id: 'square', label: 'Square' });
+registerShape({ id: 'diamond', label: 'Diamond', baseRotationDeg: 45 });
+
+registerShape({
+  id: 'smiley',
+  label: 'Smiley',
+  round: true,
+  // Features use currentColor, which Target sets to contrast with the fill
+  render: ({ color }) => (
+    <>
+      <circle cx="50" cy="50" r="50" fill={color} />
+      <circle cx="35" cy="38" r="6" fill="currentColor" />
+      <circle cx="65" cy="38" r="6" fill="currentColor" />
+      <path d="M30 60 C 40 78, 60 78, 70 60" fill="none" stroke="currentColor" strokeWidth="6" strokeLinecap="round" />
+    </>
+  ),
+});
+
+registerShape({
+  id: 'triangle',
+  label: 'Triangle',
+  render: ({ color }) => <polygon points="50,8 92,92 8,92" fill={color} />,
+});
+
+registerShape({
+  id: 'star',
+  label: 'Star',
+  render: ({ color }) => (
+    <polygon fill={color} points="50,5 61,35 93,38 68,58 76,90 50,72 24,90 32,58 7,38 39,35" />
+  ),
+});
+
+registerShape({
+  id: 'hexagon',
+  label: 'Hexagon',
+  render: ({ color }) => <polygon fill={color} points="25,10 75,10 95,50 75,90 25,90 5,50" />,
+});
+
+registerShape({
+  id: 'ring',
+  label: 'Ring',
+  render: ({ color }) => <circle cx="50" cy="50" r="40" fill="none" stroke={color} strokeWidth="16" />,
+});
+
+registerShape({
+  id: 'bullseye',
+  label: 'Bullseye',
+  render: ({ color }) => (
+    <>
+      <circle cx="50" cy="50" r="45" fill="none" stroke={color} strokeWidth="10" />
+      <circle cx="50" cy="50" r="28" fill="none" stroke={color} strokeWidth="10" />
+      <circle cx="50" cy="50" r="12" fill={color} />
+    </>
+  ),
+});
+
+registerShape({
+  id: 'cross',
+  label: 'Cross',
+  render: ({ color }) => (
+    <>
+      <rect x="42" y="10" width="16" height="80" fill={color} />
+      <rect x="10" y="42" width="80" height="16" fill={color} />
+    </>
+  ),
+});
+
+registerShape({
+  id: 'heart',
+  label: 'Heart',
+  render: ({ color }) => (
+    <path fill={color} d="M50 85 L15 50 C5 40 5 25 18 16 C31 7 45 13 50 23 C55 13 69 7 82 16 C95 25 95 40 85 50 Z" />
+  ),
+});
+
+registerShape({
+  id: 'moon',
+  label: 'Moon',
+  render: ({ color }) => <path fill={color} d="M60 6 A45 45 0 1 0 94 66 A36 36 0 1 1 60 6 Z" />,
+});
+
+registerShape({
+  id: 'flower',
+  label: 'Flower',
+  render: ({ color }) => (
+    <>
+      {[0, 60, 120, 180, 240, 300].map((deg) => (
+        <circle
+          key={deg}
+          cx={50 + 28 * Math.cos((deg * Math.PI) / 180)}
+          cy={50 + 28 * Math.sin((deg * Math.PI) / 180)}
+          r="20"
+          fill={color}
+        />
+      ))}
+      <circle cx="50" cy="50" r="14" fill="currentColor" />
+    </>
+  ),
+});
+
+registerShape({
+  id: 'paw',
+  label: 'Paw print',
+  render: ({ color }) => (
+    <g fill={color}>
+      <ellipse cx="50" cy="68" rx="24" ry="20" />
+      <ellipse cx="18" cy="42" rx="9" ry="12" transform="rotate(-20 18 42)" />
+      <ellipse cx="37" cy="22" rx="9" ry="12" transform="rotate(-8 37 22)" />
+      <ellipse cx="63" cy="22" rx="9" ry="12" transform="rotate(8 63 22)" />
+      <ellipse cx="82" cy="42" rx="9" ry="12" transform="rotate(20 82 42)" />
+    </g>
+  ),
+});
+
+registerShape({
+  id: 'path',
+  label: 'SVG path',
+  // A circle until the user has entered path data
+  render: ({ color, customPath }) => (customPath && isValidPathData(customPath)
+    ? <path fill={color} fillRule="evenodd" d={customPath} />
+    : <circle cx="50" cy="50" r="50" fill={color} />),
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildShareUrl, decodeShareHash, encodeShareHash, hasSharedSettings, shareableSettings } from './shareLink';
+import { DEFAULTS } from './defaults';
+import { SCHEMA_VERSION } from './configSchema';
+import { AppConfig } from '../types';
+
+const custom: AppConfig = {
+  ...DEFAULTS,
+  durationSec: 300,
+  calibration: { pxPerCm: 38, viewingDistanceCm: 57 },
+  target: { ...DEFAULTS.target, color: '#ff0000', shape: 'custom', customIconUrl: 'data:image/png;base64,AA==', customIconName: 'bird.png' },
+  audio: { ...DEFAULTS.audio, mode: 'file', fileId: 'snd-1', fileName: 'rain.wav', fileUrl: 'blob:page-load' },
+};
+
+describe('shareLink', () => {
+  it('keeps only changed settings and drops per-machine and large fields', () => {
+    expect(shareableSettings(custom)).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      durationSec: 300,
+      target: { color: '#ff0000' },
+    });
+  });
+
+  it('falls back to the click and the circle for an uploaded sound and icon', () => {
+    const shared = shareableSettings(custom) as { target: { shape?: string }; audio?: { mode?: string } };
+
+    // Both are the defaults, so they drop out of the link
+    expect(shared.target.shape).toBeUndefined();
+    expect(shared.audio).toBeUndefined();
+    expect(shareableSettings({ ...custom, target: { ...custom.target, shape: 'star' }, audio: { ...custom.audio, mode: 'beep' } }))
+      .toMatchObject({ target: { shape: 'star' }, audio: { mode: 'beep' } });
+  });
+
+  it('round-trips a config through the hash', async () => {
+    const hash = await encodeShareHash(custom);
+
+    expect(hash).toMatch(/^#s=z[A-Za-z0-9_-]+$/);
+    const shared = await decodeShareHash(hash);
+    expect(shared?.clientView).toBe(false);
+    expect(shared?.fixes).toEqual([]);
+    expect(shared?.config).toMatchObject({
+      durationSec: 300,
+      target: { color: '#ff0000', shape: 'circle', customIconUrl: undefined },
+      audio: { mode: 'click', fileId: undefined, fileUrl: undefined },
+    });
+    expect(shared?.config.calibration).toBeUndefined();
+  });
+
+  it('flags the client view', async () => {
+    const shared = await decodeShareHash(await encodeShareHash(DEFAULTS, true));
+
+    expect(shared?.clientView).toBe(true);
+    expect(shared?.config).toMatchObject({ durationSec: DEFAULTS.durationSec });
+  });
+
+  it('reads uncompressed payloads and repairs invalid values', async () => {
+    const payload = btoa(JSON.stringify({ audio: { volume: 4 } })).replace(/=+$/, '');
+
+    const shared = await decodeShareHash(`#s=j${payload}`);
+
+    expect(shared?.config.audio.volume).toBe(1);
+    expect(shared?.fixes).toEqual(['audio.volume: 4 → 1']);
+  });
+
+  it('returns null for missing or corrupt payloads', async () => {
+    expect(await decodeShareHash('')).toBeNull();
+    expect(await decodeShareHash('#other=1')).toBeNull();
+    expect(await decodeShareHash('#s=zAAAA')).toBeNull();
+    expect(await decodeShareHash('#s=x123')).toBeNull();
+  });
+
+  it('detects shared settings in a hash', () => {
+    expect(hasSharedSettings('#s=z123&view=client')).toBe(true);
+    expect(hasSharedSettings('#view=client')).toBe(false);
+  });
+
+  it('builds a full URL from the page location', async () => {
+    const url = await buildShareUrl(DEFAULTS, false, { origin: 'https://emdr.example', pathname: '/app/', search: '' });
+
+    expect(url).toMatch(/^https:\/\/emdr\.example\/app\/#s=z/);
+  });
+});
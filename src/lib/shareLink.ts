@@ -0,0 +1,139 @@
+// Shareable settings links: the config (minus defaults and large payloads) compressed into the URL hash
+import { AppConfig } from '../types';
+import { DEFAULTS } from './defaults';
+import { SCHEMA_VERSION, ValidationResult, validateConfig } from './configSchema';
+
+const PARAM = 's';
+const CLIENT_VIEW_PARAM = 'view';
+// Payload prefixes: 'z' = deflate-raw, 'j' = plain JSON where CompressionStream is missing
+const DEFLATE = 'z';
+const PLAIN = 'j';
+
+export type SharedSettings = ValidationResult & {
+  clientView: boolean; // open in the client-facing view
+};
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // Write/close settle only as the output is read, so don't await them here
+  writer.write(bytes).catch(() => {});
+  writer.close().catch(() => {});
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Leaf fields that differ from `base`; nested objects recurse so unchanged siblings stay out
+function diff(value: Record<string, unknown>, base: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (v === undefined) continue;
+    const b = base[key];
+    if (v && typeof v === 'object' && !Array.isArray(v) && b && typeof b === 'object') {
+      const nested = diff(v as Record<string, unknown>, b as Record<string, unknown>);
+      if (Object.keys(nested).length > 0) out[key] = nested;
+    } else if (JSON.stringify(v) !== JSON.stringify(b)) {
+      out[key] = v;
+    }
+  }
+  return out;
+}
+
+/**
+ * The part of a config worth putting in a link: no calibration (it's per display), no
+ * audio library references or object URLs (they only exist on this machine) and no
+ * icon data URL (too big for a URL). Without them an uploaded sound or icon can't be
+ * shown on the other end, so those modes fall back to the click and the circle.
+ * Defaults are left out too.
+ */
+export function shareableSettings(config: AppConfig): Record<string, unknown> {
+  const { calibration: _calibration, ...rest } = validateConfig(config).config;
+  const stripped = {
+    ...rest,
+    schemaVersion: SCHEMA_VERSION,
+    target: {
+      ...rest.target,
+      shape: rest.target.shape === 'custom' ? 'circle' : rest.target.shape,
+      customIconUrl: undefined,
+      customIconName: undefined,
+    },
+    audio: {
+      ...rest.audio,
+      mode: rest.audio.mode === 'file' ? 'click' : rest.audio.mode,
+      fileUrl: undefined,
+      fileId: undefined,
+      fileName: undefined,
+    },
+  };
+  return { ...diff(stripped, DEFAULTS as unknown as Record<string, unknown>), schemaVersion: SCHEMA_VERSION };
+}
+
+/**
+ * Build the hash fragment ("#s=…") for a config
+ */
+export async function encodeShareHash(config: AppConfig, clientView = false): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(shareableSettings(config)));
+  const payload = typeof CompressionStream === 'function'
+    ? DEFLATE + toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))
+    : PLAIN + toBase64Url(json);
+  const params = new URLSearchParams({ [PARAM]: payload });
+  if (clientView) params.set(CLIENT_VIEW_PARAM, 'client');
+  return `#${params.toString()}`;
+}
+
+export async function buildShareUrl(config: AppConfig, clientView = false, location: Pick<Location, 'origin' | 'pathname' | 'search'> = window.location): Promise<string> {
+  return `${location.origin}${location.pathname}${location.search}${await encodeShareHash(config, clientView)}`;
+}
+
+/**
+ * True when the hash carries shared settings (cheap check before decoding)
+ */
+export function hasSharedSettings(hash: string): boolean {
+  return new URLSearchParams(hash.replace(/^#/, '')).has(PARAM);
+}
+
+/**
+ * Decode and validate shared settings; null when the hash has none or they can't be read
+ */
+export async function decodeShareHash(hash: string): Promise<SharedSettings | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const payload = params.get(PARAM);
+  if (!payload) return null;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    let json: Uint8Array;
+    if (payload[0] === DEFLATE) json = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    else if (payload[0] === PLAIN) json = bytes;
+    else return null;
+    const parsed = JSON.parse(new TextDecoder().decode(json));
+    return { ...validateConfig(parsed), clientView: params.get(CLIENT_VIEW_PARAM) === 'client' };
+  } catch {
+    return null;
+  }
+}
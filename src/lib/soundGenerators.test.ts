@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getSoundGenerator, listSoundGenerators, registerSoundGenerator, SoundParams } from './soundGenerators';
+import { validateConfig } from './configSchema';
+import type { SoundId } from '../types';
+
+function fakeContext() {
+  const param = () => ({ value: 0, setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() });
+  const source = () => ({ connect: vi.fn(), start: vi.fn(), stop: vi.fn(), type: 'sine', frequency: param(), buffer: null });
+  return {
+    sampleRate: 1000,
+    createOscillator: vi.fn(source),
+    createBufferSource: vi.fn(source),
+    createGain: vi.fn(() => ({ connect: vi.fn(), gain: param() })),
+    createBiquadFilter: vi.fn(() => ({ connect: vi.fn(), type: 'lowpass', frequency: param() })),
+    createBuffer: vi.fn(() => ({ getChannelData: () => new Float32Array(100) })),
+  };
+}
+
+function params(overrides: Partial<SoundParams> = {}): SoundParams {
+  return {
+    ctx: fakeContext() as any,
+    destination: {} as AudioNode,
+    at: 2,
+    pitchHz: 600,
+    waveform: 'triangle',
+    fadeInSec: 0,
+    ...overrides,
+  };
+}
+
+describe('sound generator registry', () => {
+  it('lists the built-in sounds in menu order', () => {
+    expect(listSoundGenerators().map((g) => g.id)).toEqual(['click', 'beep', 'hiss', 'chirp', 'pulse']);
+    expect(listSoundGenerators().filter((g) => g.usesWaveform).map((g) => g.id)).toEqual(['click']);
+  });
+
+  it('schedules the click at the requested time with the waveform and pitch', () => {
+    const p = params();
+    const [osc] = getSoundGenerator('click')!.play(p) as any[];
+
+    expect(osc.type).toBe('triangle');
+    expect(osc.frequency.value).toBe(600);
+    expect(osc.start).toHaveBeenCalledWith(2);
+    expect(osc.stop).toHaveBeenCalledWith(2.03);
+  });
+
+  it('lengthens sounds by the fade-in', () => {
+    const [osc] = getSoundGenerator('beep')!.play(params({ fadeInSec: 0.1 })) as any[];
+
+    expect(osc.stop).toHaveBeenCalledWith(2.25);
+  });
+
+  it('routes every built-in sound to the destination, never the context output', () => {
+    for (const generator of listSoundGenerators()) {
+      const p = params();
+      const ctx = p.ctx as any;
+      const nodes = generator.play(p);
+
+      expect(nodes.length).toBeGreaterThan(0);
+      const gains = ctx.createGain.mock.results.map((r: any) => r.value);
+      expect(gains.some((g: any) => g.connect.mock.calls.some(([to]: any[]) => to === p.destination))).toBe(true);
+    }
+  });
+
+  it('accepts new sounds by registering them', () => {
+    const play = vi.fn(() => []);
+    registerSoundGenerator({ id: 'test-woodblock' as SoundId, label: 'Woodblock', play });
+
+    expect(listSoundGenerators().map((g) => g.label)).toContain('Woodblock');
+    expect(validateConfig({ audio: { mode: 'test-woodblock' } }).config.audio.mode).toBe('test-woodblock');
+    expect(validateConfig({ audio: { mode: 'gong' } }).fixes).toEqual(['audio.mode: "gong" → "click"']);
+  });
+});
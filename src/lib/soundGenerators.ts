@@ -0,0 +1,175 @@
+import type { PitchPreset, SoundId } from '../types';
+
+/**
+ * Registry of generated edge sounds. The audio engine plays whichever one audio.mode names
+ * and Controls lists them in registration order; 'continuous' and 'file' are engine modes,
+ * not generators.
+ */
+
+declare module '../types' {
+  interface SoundGeneratorIds {
+    click: true;
+    beep: true;
+    hiss: true;
+    chirp: true;
+    pulse: true;
+  }
+}
+
+export const PITCH_HZ: Record<PitchPreset, number> = {
+  low: 300,
+  medium: 600,
+  high: 950,
+};
+
+export type SoundParams = {
+  ctx: BaseAudioContext;
+  destination: AudioNode; // the panner; generators never connect to the context output directly
+  at: number; // context time (s) the sound should start
+  pitchHz: number; // base frequency of the pitch preset
+  waveform: OscillatorType;
+  fadeInSec: number; // attack requested by audio.fadeInMs, 0 for none
+};
+
+export type SoundGenerator = {
+  id: SoundId;
+  label: string;
+  usesWaveform?: boolean; // offer the waveform setting while this sound is selected
+  // Build and schedule the sound; returns its source nodes
+  play: (params: SoundParams) => AudioScheduledSourceNode[];
+};
+
+const generators = new Map<SoundId, SoundGenerator>();
+
+/**
+ * Add an edge sound, or replace the one registered under the same id
+ */
+export function registerSoundGenerator(generator: SoundGenerator): void {
+  generators.set(generator.id, generator);
+}
+
+// Takes any audio mode; the sustained modes simply aren't registered
+export function getSoundGenerator(id: string): SoundGenerator | undefined {
+  return generators.get(id as SoundId);
+}
+
+export function listSoundGenerators(): SoundGenerator[] {
+  return Array.from(generators.values());
+}
+
+registerSoundGenerator({
+  id: 'click',
+  label: 'Click',
+  usesWaveform: true,
+  // Short tick at the pitch preset
+  play: ({ ctx, destination, at, pitchHz, waveform, fadeInSec }) => {
+    const osc = ctx.createOscillator();
+    const oscGain = ctx.createGain();
+    osc.type = waveform;
+    osc.frequency.value = pitchHz;
+    if (fadeInSec > 0) {
+      oscGain.gain.setValueAtTime(0, at);
+      oscGain.gain.linearRampToValueAtTime(0.5, at + Math.min(fadeInSec, 0.02));
+    } else {
+      oscGain.gain.value = 0.5;
+    }
+    osc.connect(oscGain);
+    oscGain.connect(destination);
+    osc.start(at);
+    osc.stop(at + 0.03 + fadeInSec);
+    return [osc];
+  },
+});
+
+registerSoundGenerator({
+  id: 'beep',
+  label: 'Beep',
+  play: ({ ctx, destination, at, pitchHz, fadeInSec }) => {
+    const osc = ctx.createOscillator();
+    const oscGain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = pitchHz;
+    oscGain.gain.setValueAtTime(0, at);
+    oscGain.gain.linearRampToValueAtTime(0.3, at + Math.max(0.01, fadeInSec));
+    oscGain.gain.exponentialRampToValueAtTime(0.001, at + 0.15 + fadeInSec);
+    osc.connect(oscGain);
+    oscGain.connect(destination);
+    osc.start(at);
+    osc.stop(at + 0.15 + fadeInSec);
+    return [osc];
+  },
+});
+
+registerSoundGenerator({
+  id: 'hiss',
+  label: 'Hiss',
+  // 100 ms white-noise burst, highpassed relative to the pitch
+  play: ({ ctx, destination, at, pitchHz, fadeInSec }) => {
+    const bufferSize = ctx.sampleRate * 0.1;
+    const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) {
+      data[i] = (Math.random() * 2 - 1) * 0.3;
+    }
+    const source = ctx.createBufferSource();
+    const hissGain = ctx.createGain();
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = pitchHz * 3;
+    source.buffer = buffer;
+    hissGain.gain.setValueAtTime(0, at);
+    hissGain.gain.linearRampToValueAtTime(0.4, at + Math.max(0.01, fadeInSec));
+    hissGain.gain.exponentialRampToValueAtTime(0.001, at + 0.08 + fadeInSec);
+    source.connect(filter);
+    filter.connect(hissGain);
+    hissGain.connect(destination);
+    source.start(at);
+    return [source];
+  },
+});
+
+registerSoundGenerator({
+  id: 'chirp',
+  label: 'Chirp',
+  // Upward sweep around the pitch
+  play: ({ ctx, destination, at, pitchHz, fadeInSec }) => {
+    const osc = ctx.createOscillator();
+    const oscGain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(pitchHz * 0.3, at);
+    osc.frequency.exponentialRampToValueAtTime(pitchHz * 2, at + 0.12 + fadeInSec);
+    oscGain.gain.setValueAtTime(0, at);
+    oscGain.gain.linearRampToValueAtTime(0.25, at + Math.max(0.01, fadeInSec));
+    oscGain.gain.exponentialRampToValueAtTime(0.001, at + 0.12 + fadeInSec);
+    osc.connect(oscGain);
+    oscGain.connect(destination);
+    osc.start(at);
+    osc.stop(at + 0.12 + fadeInSec);
+    return [osc];
+  },
+});
+
+registerSoundGenerator({
+  id: 'pulse',
+  label: 'Pulse',
+  // Two short low square-wave bursts
+  play: ({ ctx, destination, at, pitchHz, fadeInSec }) => {
+    const osc = ctx.createOscillator();
+    const oscGain = ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.value = pitchHz * 0.25;
+    oscGain.gain.setValueAtTime(0, at);
+    oscGain.gain.linearRampToValueAtTime(0.3, at + Math.max(0.01, fadeInSec));
+    oscGain.gain.linearRampToValueAtTime(0.3, at + 0.05);
+    oscGain.gain.linearRampToValueAtTime(0, at + 0.06);
+    oscGain.gain.linearRampToValueAtTime(0, at + 0.08);
+    oscGain.gain.linearRampToValueAtTime(0.3, at + 0.09);
+    oscGain.gain.linearRampToValueAtTime(0.3, at + 0.13);
+    oscGain.gain.linearRampToValueAtTime(0, at + 0.14);
+    osc.connect(oscGain);
+    oscGain.connect(destination);
+    osc.start(at);
+    osc.stop(at + 0.2 + fadeInSec);
+    return [osc];
+  },
+});
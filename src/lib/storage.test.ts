@@ -1,5 +1,23 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { loadJSON, saveJSON, fileToDataUrl, saveCustomAudio, loadCustomAudio, clearCustomAudio, getStoredAudioSize } from './storage';
+import {
+  loadJSON,
+  saveJSON,
+  fileToDataUrl,
+  fileToText,
+  loadCustomAudio,
+  clearCustomAudio,
+  FACTORY_PRESETS,
+  loadPresets,
+  savePresetAs,
+  overwritePreset,
+  renamePreset,
+  deletePreset,
+  getActivePresetId,
+  setActivePresetId,
+  applyPreset,
+  isPresetModified,
+} from './storage';
+import { DEFAULTS } from './defaults';
 
 // Mock localStorage
 const localStorageMock = {
@@ -128,56 +146,9 @@ describe('storage utilities', () => {
     });
   });
 
-  describe('saveCustomAudio', () => {
-    it('saves audio file to localStorage', async () => {
-      const audioContent = new Uint8Array([1, 2, 3, 4]);
-      const file = new File([audioContent], 'test.mp3', { type: 'audio/mpeg' });
-      
-      const result = await saveCustomAudio(file);
-      
-      expect(result.success).toBe(true);
-      expect(result.dataUrl).toMatch(/^data:audio\/mpeg;base64,/);
-      expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'emdr-custom-audio-v1',
-        expect.stringContaining('"fileName":"test.mp3"')
-      );
-    });
-
-    it('returns error for files that are too large', async () => {
-      // Create a mock that simulates a large file by manipulating the data URL
-      const originalFileReader = global.FileReader;
-      const mockFileReader = vi.fn().mockImplementation(() => {
-        const reader = {
-          result: 'data:audio/mpeg;base64,' + 'A'.repeat(5 * 1024 * 1024), // 5MB of base64
-          onload: null as ((event: ProgressEvent<FileReader>) => void) | null,
-          onerror: null as ((event: ProgressEvent<FileReader>) => void) | null,
-          readAsDataURL: function() {
-            setTimeout(() => this.onload?.({} as ProgressEvent<FileReader>), 0);
-          }
-        };
-        return reader;
-      });
-      global.FileReader = mockFileReader as unknown as typeof FileReader;
-      
-      const file = new File(['test'], 'large.mp3', { type: 'audio/mpeg' });
-      const result = await saveCustomAudio(file);
-      
-      expect(result.success).toBe(false);
-      expect(result.error).toMatch(/too large/i);
-      
-      global.FileReader = originalFileReader;
-    });
-
-    it('handles storage quota errors', async () => {
-      localStorageMock.setItem.mockImplementation(() => {
-        throw new Error('QuotaExceededError');
-      });
-      
-      const file = new File(['test'], 'test.mp3', { type: 'audio/mpeg' });
-      const result = await saveCustomAudio(file);
-      
-      expect(result.success).toBe(false);
-      expect(result.error).toBeTruthy();
+  describe('fileToText', () => {
+    it('reads a blob as text', async () => {
+      expect(await fileToText(new Blob(['{"a":1}'], { type: 'application/json' }))).toBe('{"a":1}');
     });
   });
 
@@ -224,22 +195,104 @@ describe('storage utilities', () => {
     });
   });
 
-  describe('getStoredAudioSize', () => {
-    it('returns size in MB', () => {
-      const data = 'x'.repeat(1024 * 1024); // 1MB
-      localStorageMock.getItem.mockReturnValue(data);
-      
-      const size = getStoredAudioSize();
-      
-      expect(size).toBeCloseTo(1, 1);
+  describe('presets', () => {
+    let backing: Record<string, string>;
+    const calibrated = { ...DEFAULTS, calibration: { pxPerCm: 40, viewingDistanceCm: 60 } };
+
+    beforeEach(() => {
+      backing = {};
+      localStorageMock.getItem.mockImplementation((key: string) => backing[key] ?? null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => { backing[key] = value; });
     });
 
-    it('returns 0 when no audio stored', () => {
-      localStorageMock.getItem.mockReturnValue(null);
-      
-      const size = getStoredAudioSize();
-      
-      expect(size).toBe(0);
+    it('lists read-only factory presets first', () => {
+      savePresetAs('Client A', DEFAULTS);
+
+      const presets = loadPresets();
+
+      expect(presets.slice(0, FACTORY_PRESETS.length)).toEqual(FACTORY_PRESETS);
+      expect(FACTORY_PRESETS.every((p) => p.builtIn)).toBe(true);
+      expect(presets[presets.length - 1].name).toBe('Client A');
+    });
+
+    it('saves as a new active preset without calibration or the audio object URL', () => {
+      const preset = savePresetAs('Client A', {
+        ...calibrated,
+        audio: { ...DEFAULTS.audio, mode: 'file', fileId: 'snd-1', fileUrl: 'blob:page-load' },
+      });
+
+      expect(getActivePresetId()).toBe(preset.id);
+      expect(preset.config).not.toHaveProperty('calibration');
+      expect(preset.config.audio.fileUrl).toBeUndefined();
+      expect(preset.config.audio.fileId).toBe('snd-1');
+    });
+
+    it('overwrites and renames user presets but never factory ones', () => {
+      const preset = savePresetAs('Client A', DEFAULTS);
+
+      expect(overwritePreset(preset.id, { ...DEFAULTS, durationSec: 300 })!.config.durationSec).toBe(300);
+      expect(renamePreset(preset.id, 'Client B')!.name).toBe('Client B');
+      expect(loadPresets().find((p) => p.id === preset.id)).toMatchObject({ name: 'Client B', config: { durationSec: 300 } });
+
+      expect(overwritePreset('factory-standard', DEFAULTS)).toBeNull();
+      expect(renamePreset('factory-standard', 'Mine')).toBeNull();
+    });
+
+    it('deletes a preset and clears it as the active one', () => {
+      const preset = savePresetAs('Client A', DEFAULTS);
+
+      deletePreset(preset.id);
+
+      expect(loadPresets().some((p) => p.id === preset.id)).toBe(false);
+      expect(getActivePresetId()).toBeUndefined();
+    });
+
+    it('remembers the active preset', () => {
+      setActivePresetId('factory-resource');
+      expect(getActivePresetId()).toBe('factory-resource');
+    });
+
+    it('applies a preset but keeps this display\'s calibration', () => {
+      const applied = applyPreset(calibrated, FACTORY_PRESETS[2]).config;
+
+      expect(applied.sessionMode).toBe('protocol');
+      expect(applied.calibration).toEqual(calibrated.calibration);
+    });
+
+    it('repairs invalid values in stored presets when applying them', () => {
+      const preset = savePresetAs('Broken', DEFAULTS);
+      preset.config = { ...preset.config, audio: { ...preset.config.audio, volume: 7 } };
+
+      const { config, fixes } = applyPreset(DEFAULTS, preset);
+
+      expect(config.audio.volume).toBe(1);
+      expect(fixes).toEqual(['audio.volume: 7 → 1']);
+    });
+
+    it('keeps the loaded audio URL only when the preset uses the same sound', () => {
+      const current = { ...DEFAULTS, audio: { ...DEFAULTS.audio, mode: 'file' as const, fileId: 'snd-1', fileUrl: 'blob:live' } };
+      const same = savePresetAs('Same', current);
+      const other = savePresetAs('Other', { ...current, audio: { ...current.audio, fileId: 'snd-2' } });
+
+      expect(applyPreset(current, same).config.audio.fileUrl).toBe('blob:live');
+      expect(applyPreset(current, other).config.audio.fileUrl).toBeUndefined();
+    });
+
+    it('flags settings that differ from the preset', () => {
+      const preset = FACTORY_PRESETS[0];
+      const applied = applyPreset(calibrated, preset).config;
+
+      expect(isPresetModified(applied, preset)).toBe(false);
+      expect(isPresetModified({ ...applied, calibration: { pxPerCm: 10, viewingDistanceCm: 40 } }, preset)).toBe(false);
+      expect(isPresetModified({ ...applied, target: { ...applied.target, color: '#ff0000' } }, preset)).toBe(true);
+    });
+
+    it('ignores key order when comparing', () => {
+      const preset = savePresetAs('Client A', DEFAULTS);
+      const { audio, target, ...rest } = DEFAULTS;
+      const reordered = { audio: { ...audio }, target: { ...target }, ...rest };
+
+      expect(isPresetModified(reordered, preset)).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,3 +1,7 @@
+import { AppConfig } from '../types';
+import { ConfigPatch } from './defaults';
+import { ValidationResult, validateConfig } from './configSchema';
+
 const KEY = 'emdr-config-v1';
 const AUDIO_KEY = 'emdr-custom-audio-v1';
 
@@ -18,54 +22,11 @@ export function loadJSON<T>(): T | null {
   }
 }
 
-/**
- * Convert a File/Blob to a base64 data URL for localStorage storage
- */
-export function fileToDataUrl(file: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(file);
-  });
-}
+export { fileToDataUrl, fileToText } from './fileReading';
 
 /**
- * Save custom audio file to localStorage as base64
- * Returns true if successful, false if storage quota exceeded
- */
-export async function saveCustomAudio(file: File): Promise<{ success: boolean; dataUrl?: string; error?: string }> {
-  try {
-    const dataUrl = await fileToDataUrl(file);
-    
-    // Check size - localStorage typically has 5-10MB limit
-    // Base64 encoding increases size by ~33%, so be conservative
-    const sizeBytes = dataUrl.length;
-    const sizeMB = sizeBytes / (1024 * 1024);
-    
-    if (sizeMB > 4) {
-      return { success: false, error: `File too large (${sizeMB.toFixed(1)}MB). Max ~4MB for localStorage.` };
-    }
-    
-    const audioData = {
-      dataUrl,
-      fileName: file.name,
-      mimeType: file.type,
-      savedAt: Date.now()
-    };
-    
-    localStorage.setItem(AUDIO_KEY, JSON.stringify(audioData));
-    return { success: true, dataUrl };
-  } catch (e) {
-    // Likely quota exceeded
-    const message = e instanceof Error ? e.message : 'Storage quota exceeded';
-    return { success: false, error: message };
-  }
-}
-
-/**
- * Load custom audio from localStorage
- * Returns the data URL and filename if available
+ * Load the legacy single-slot custom audio from localStorage.
+ * Uploads now live in the IndexedDB audio library; this is only read to migrate old entries.
  */
 export function loadCustomAudio(): { dataUrl: string; fileName: string } | null {
   try {
@@ -80,18 +41,168 @@ export function loadCustomAudio(): { dataUrl: string; fileName: string } | null
 }
 
 /**
- * Clear custom audio from localStorage
+ * Clear the legacy custom audio slot from localStorage
  */
 export function clearCustomAudio(): void {
   localStorage.removeItem(AUDIO_KEY);
 }
 
+// ---- Presets ----
+
+const PRESETS_KEY = 'emdr-presets-v1';
+
+/** Settings a preset carries; calibration belongs to the display, not the preset */
+export type PresetConfig = Omit<AppConfig, 'calibration'>;
+
+export type Preset = {
+  id: string;
+  name: string;
+  config: PresetConfig;
+  builtIn?: boolean; // factory presets are read-only
+  savedAt: number;
+};
+
+type PresetStore = {
+  activeId?: string;
+  presets: Preset[];
+};
+
+function factoryPreset(id: string, name: string, overrides: ConfigPatch): Preset {
+  return { id, name, config: toPresetConfig(validateConfig(overrides).config), builtIn: true, savedAt: 0 };
+}
+
+export const FACTORY_PRESETS: Preset[] = [
+  factoryPreset('factory-standard', 'Standard desensitization', {
+    sessionMode: 'passes',
+    passCount: 24,
+    target: { passesPerMin: 60, easing: 'linear' },
+  }),
+  factoryPreset('factory-resource', 'Slow resource installation', {
+    sessionMode: 'passes',
+    passCount: 8,
+    target: { passesPerMin: 24, easing: 'sine' },
+    audio: { mode: 'continuous', continuousSound: 'tone', pitch: 'low', volume: 0.1 },
+  }),
+  factoryPreset('factory-protocol', 'Timed sets with rests', {
+    sessionMode: 'protocol',
+    protocol: { sets: 8, setSec: 30, restSec: 20 },
+    target: { passesPerMin: 60 },
+  }),
+];
+
+function readPresetStore(): PresetStore {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const store = raw ? (JSON.parse(raw) as PresetStore) : null;
+    return store && Array.isArray(store.presets) ? store : { presets: [] };
+  } catch {
+    return { presets: [] };
+  }
+}
+
+function writePresetStore(store: PresetStore) {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(store));
+  } catch {
+    // ignore
+  }
+}
+
+function newPresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Strip what a preset shouldn't carry: per-display calibration and the per-page-load audio object URL
+ */
+export function toPresetConfig(config: AppConfig): PresetConfig {
+  const { calibration: _calibration, ...rest } = config;
+  return { ...rest, audio: { ...rest.audio, fileUrl: undefined } };
+}
+
+/**
+ * Factory presets first, then the user's presets by name
+ */
+export function loadPresets(): Preset[] {
+  const user = readPresetStore().presets.filter((p) => !p.builtIn);
+  return [...FACTORY_PRESETS, ...user.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+export function getActivePresetId(): string | undefined {
+  return readPresetStore().activeId;
+}
+
+export function setActivePresetId(id: string | undefined) {
+  writePresetStore({ ...readPresetStore(), activeId: id });
+}
+
+export function savePresetAs(name: string, config: AppConfig): Preset {
+  const preset: Preset = { id: newPresetId(), name, config: toPresetConfig(config), savedAt: Date.now() };
+  const store = readPresetStore();
+  writePresetStore({ activeId: preset.id, presets: [...store.presets, preset] });
+  return preset;
+}
+
+function updatePreset(id: string, patch: Partial<Pick<Preset, 'name' | 'config'>>): Preset | null {
+  const store = readPresetStore();
+  const existing = store.presets.find((p) => p.id === id);
+  // Factory presets aren't in the store, so they can never be updated
+  if (!existing) return null;
+  const updated = { ...existing, ...patch, savedAt: Date.now() };
+  writePresetStore({ ...store, presets: store.presets.map((p) => (p.id === id ? updated : p)) });
+  return updated;
+}
+
+export function overwritePreset(id: string, config: AppConfig): Preset | null {
+  return updatePreset(id, { config: toPresetConfig(config) });
+}
+
+export function renamePreset(id: string, name: string): Preset | null {
+  return updatePreset(id, { name });
+}
+
+export function deletePreset(id: string) {
+  const store = readPresetStore();
+  writePresetStore({
+    activeId: store.activeId === id ? undefined : store.activeId,
+    presets: store.presets.filter((p) => p.id !== id),
+  });
+}
+
 /**
- * Get the size of stored custom audio in MB
+ * Replace the current settings with a preset's (validated, since stored presets may be
+ * old or hand-edited), keeping this display's calibration.
+ * The audio URL is kept only when the preset selects the same library sound.
  */
-export function getStoredAudioSize(): number {
-  const raw = localStorage.getItem(AUDIO_KEY);
-  if (!raw) return 0;
-  return raw.length / (1024 * 1024);
+export function applyPreset(current: AppConfig, preset: Preset): ValidationResult {
+  const { config, fixes } = validateConfig(preset.config);
+  const sameSound = config.audio.fileId !== undefined && config.audio.fileId === current.audio.fileId;
+  return {
+    config: {
+      ...config,
+      calibration: current.calibration,
+      audio: { ...config.audio, fileUrl: sameSound ? current.audio.fileUrl : undefined },
+    },
+    fixes,
+  };
+}
+
+// Key-order independent JSON so equal settings always compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
+/**
+ * True when the current settings have drifted from the preset they were loaded from
+ */
+export function isPresetModified(config: AppConfig, preset: Preset): boolean {
+  const normalize = (c: unknown) => stableStringify(toPresetConfig(validateConfig(c).config));
+  return normalize(config) !== normalize(preset.config);
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CARD_WIDTH_CM,
+  degToPx,
+  pxPerCmFromCard,
+  pxPerCmFromScreenWidth,
+  pxToDeg,
+  resolveTargetGeometry,
+  tempoFromAngularSpeed,
+} from './visualAngle';
+import { speedForTempo } from './motion';
+import type { AppConfig } from '../types';
+
+const calibration = { pxPerCm: 40, viewingDistanceCm: 57 };
+
+const target: AppConfig['target'] = {
+  sizePx: 24,
+  color: '#00FF88',
+  speedPxPerSec: 2400,
+  passesPerMin: 60,
+  edgePaddingPx: 16,
+  edgePauseMs: 0,
+  startPosition: 'center',
+};
+
+describe('visual angle conversion', () => {
+  it('maps roughly 1 cm to 1 degree at 57 cm', () => {
+    expect(degToPx(1, calibration)).toBeCloseTo(39.8, 1);
+  });
+
+  it('round-trips degrees through pixels', () => {
+    expect(pxToDeg(degToPx(25, calibration), calibration)).toBeCloseTo(25, 5);
+  });
+
+  it('treats negative inputs as zero', () => {
+    expect(degToPx(-3, calibration)).toBe(0);
+    expect(pxToDeg(-3, calibration)).toBe(0);
+  });
+
+  it('returns zero degrees for an invalid calibration', () => {
+    expect(pxToDeg(100, { pxPerCm: 0, viewingDistanceCm: 57 })).toBe(0);
+  });
+});
+
+describe('calibration helpers', () => {
+  it('derives pixel density from a measured screen width', () => {
+    expect(pxPerCmFromScreenWidth(1440, 36)).toBe(40);
+    expect(pxPerCmFromScreenWidth(1440, 0)).toBe(0);
+  });
+
+  it('derives pixel density from a matched bank card', () => {
+    expect(pxPerCmFromCard(CARD_WIDTH_CM * 40)).toBeCloseTo(40, 5);
+  });
+});
+
+describe('resolveTargetGeometry', () => {
+  it('passes pixel settings through unchanged', () => {
+    expect(resolveTargetGeometry(target, calibration)).toEqual({ sizePx: 24, passesPerMin: 60 });
+  });
+
+  it('ignores degree settings without a calibration', () => {
+    const deg = { ...target, units: 'deg' as const, sizeDeg: 2, amplitudeDeg: 20 };
+    expect(resolveTargetGeometry(deg)).toEqual({ sizePx: 24, passesPerMin: 60 });
+  });
+
+  it('resolves degree settings through the calibration', () => {
+    const deg = { ...target, units: 'deg' as const, sizeDeg: 1, amplitudeDeg: 20, speedDegPerSec: 40 };
+    const out = resolveTargetGeometry(deg, calibration);
+    expect(out.sizePx).toBe(40);
+    expect(out.amplitudePx).toBeCloseTo(degToPx(20, calibration), 5);
+    // 40°/s over a 20° sweep is two passes per second
+    expect(out.passesPerMin).toBeCloseTo(120, 5);
+  });
+
+  it('counts the edge pause in the tempo so the target still moves at the set speed', () => {
+    const deg = { ...target, units: 'deg' as const, amplitudeDeg: 20, speedDegPerSec: 40, edgePauseMs: 250 };
+    const out = resolveTargetGeometry(deg, calibration);
+    // 0.5 s of travel plus 0.25 s at the edge
+    expect(out.passesPerMin).toBeCloseTo(80, 5);
+    expect(speedForTempo(20, out.passesPerMin!, 250)).toBeCloseTo(40, 5);
+  });
+
+  it('has no tempo without a speed or sweep', () => {
+    expect(tempoFromAngularSpeed(0, 20, 0)).toBe(0);
+    expect(tempoFromAngularSpeed(40, 0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import type { AppConfig } from '../types';
+
+export type Calibration = NonNullable<AppConfig['calibration']>;
+
+// ISO/IEC 7810 ID-1 (bank card) width
+export const CARD_WIDTH_CM = 8.56;
+export const CARD_HEIGHT_CM = 5.398;
+// At 57 cm, 1 cm on screen subtends roughly 1 degree
+export const DEFAULT_VIEWING_DISTANCE_CM = 57;
+
+/**
+ * Convert a visual angle centred on the line of sight to on-screen CSS pixels.
+ */
+export function degToPx(deg: number, calibration: Calibration): number {
+  const rad = (Math.max(0, deg) * Math.PI) / 180;
+  const cm = 2 * calibration.viewingDistanceCm * Math.tan(rad / 2);
+  return cm * calibration.pxPerCm;
+}
+
+/**
+ * Convert an on-screen extent in CSS pixels to the visual angle it subtends.
+ */
+export function pxToDeg(px: number, calibration: Calibration): number {
+  if (calibration.pxPerCm <= 0 || calibration.viewingDistanceCm <= 0) return 0;
+  const cm = Math.max(0, px) / calibration.pxPerCm;
+  return (2 * Math.atan(cm / (2 * calibration.viewingDistanceCm)) * 180) / Math.PI;
+}
+
+export function pxPerCmFromScreenWidth(screenWidthPx: number, screenWidthCm: number): number {
+  return screenWidthCm > 0 ? screenWidthPx / screenWidthCm : 0;
+}
+
+export function pxPerCmFromCard(cardWidthPx: number): number {
+  return cardWidthPx / CARD_WIDTH_CM;
+}
+
+export interface ResolvedTargetGeometry {
+  sizePx: number;
+  amplitudePx?: number; // undefined means "use the full stage"
+  passesPerMin?: number;
+}
+
+/**
+ * Tempo at which the target crosses amplitudeDeg at speedDegPerSec. Each pass also holds
+ * at the edge for edgePauseMs, so the pass takes travel time plus pause; speedForTempo
+ * undoes this, shortening travel by the pause.
+ */
+export function tempoFromAngularSpeed(speedDegPerSec: number, amplitudeDeg: number, edgePauseMs: number): number {
+  if (speedDegPerSec <= 0 || amplitudeDeg <= 0) return 0;
+  return 60 / (amplitudeDeg / speedDegPerSec + Math.max(0, edgePauseMs) / 1000);
+}
+
+/**
+ * Resolve the target's size, sweep and tempo to pixels for the current display.
+ * Degree settings only apply when units are 'deg' and a calibration exists;
+ * angular speed becomes a tempo through tempoFromAngularSpeed.
+ */
+export function resolveTargetGeometry(
+  target: AppConfig['target'],
+  calibration?: Calibration,
+): ResolvedTargetGeometry {
+  if (target.units !== 'deg' || !calibration) {
+    return { sizePx: target.sizePx, passesPerMin: target.passesPerMin };
+  }
+  const sizePx = target.sizeDeg !== undefined ? degToPx(target.sizeDeg, calibration) : target.sizePx;
+  const amplitudePx = target.amplitudeDeg !== undefined ? degToPx(target.amplitudeDeg, calibration) : undefined;
+  const passesPerMin = target.speedDegPerSec !== undefined && target.amplitudeDeg
+    ? tempoFromAngularSpeed(target.speedDegPerSec, target.amplitudeDeg, target.edgePauseMs)
+    : target.passesPerMin;
+  return { sizePx: Math.round(sizePx), amplitudePx, passesPerMin };
+}
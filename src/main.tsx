@@ -1,14 +1,17 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import PresentDisplay from './PresentDisplay';
+import RemoteClient from './RemoteClient';
+import { isDisplayWindow } from './lib/presentChannel';
+import { isRemoteClient } from './lib/remoteSession';
 import './styles.css';
 
 const rootEl = document.getElementById('root');
 if (rootEl) {
   createRoot(rootEl).render(
     <React.StrictMode>
-      <App />
+      {isDisplayWindow() ? <PresentDisplay /> : isRemoteClient() ? <RemoteClient /> : <App />}
     </React.StrictMode>,
   );
 }
-
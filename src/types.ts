@@ -1,7 +1,21 @@
-export type AudioMode = 'click' | 'beep' | 'hiss' | 'chirp' | 'pulse' | 'file';
+// Ids of the generated edge sounds in lib/soundGenerators. A module registering another
+// sound adds its id here through declaration merging:
+//   declare module '../types' { interface SoundGeneratorIds { woodblock: true } }
+export interface SoundGeneratorIds {}
+export type SoundId = keyof SoundGeneratorIds & string;
+export type AudioMode = SoundId | 'continuous' | 'file';
+export type ContinuousSound = 'tone' | 'noise';
+export type FilePlayback = 'one-shot' | 'fit-pass' | 'loop';
 export type AudioWaveform = 'sine' | 'square' | 'sawtooth' | 'triangle';
 export type PitchPreset = 'low' | 'medium' | 'high';
-export type BuiltinShape = 'circle' | 'square' | 'diamond' | 'smiley' | 'triangle' | 'star' | 'hexagon' | 'ring' | 'bullseye' | 'cross' | 'heart';
+export type SessionMode = 'time' | 'passes' | 'protocol';
+export type MotionPath = 'horizontal' | 'vertical' | 'diagonal-down' | 'diagonal-up' | 'circle' | 'figure-eight';
+export type MotionEasing = 'linear' | 'sine' | 'ease-in-out';
+export type TargetUnits = 'px' | 'deg';
+export type VisualMode = 'motion' | 'flash' | 'lightbar';
+// Ids of the shapes in lib/shapes, extended the same way as SoundGeneratorIds
+export interface ShapeIds {}
+export type ShapeId = keyof ShapeIds & string;
 
 // Common calming emoji options for EMDR
 export const EMOJI_OPTIONS = [
@@ -14,29 +28,64 @@ export const EMOJI_OPTIONS = [
 ] as const;
 
 export interface AppConfig {
+  schemaVersion?: number; // stored config format, see lib/configSchema
   durationSec: number; // multiples of 15
+  sessionMode?: SessionMode; // 'time' counts down durationSec, 'passes' ends on the Nth edge hit, 'protocol' runs timed sets with rests
+  passCount?: number; // edge hits per session when sessionMode is 'passes'
+  protocol?: {
+    sets: number; // stimulation sets per protocol
+    setSec: number; // stimulation length of each set
+    restSec: number; // rest between sets (target parked at center, audio silent)
+  };
+  ratings?: {
+    sud: boolean; // ask for a SUD rating (0-10) when a set ends
+    voc: boolean; // ask for a VOC rating (1-7) when a set ends
+  };
   target: {
     sizePx: number;
     color: string;
-    shape?: BuiltinShape | 'emoji' | 'custom'; // 'emoji' uses emoji field, 'custom' uses customIconUrl
+    shape?: ShapeId | 'emoji' | 'custom'; // 'emoji' uses emoji field, 'custom' uses customIconUrl
     emoji?: string; // emoji character when shape is 'emoji'
     customIconUrl?: string; // data URL for custom uploaded icon
     customIconName?: string; // original filename for display
+    customIconTint?: boolean; // paint the icon's silhouette in the target color
+    customPath?: string; // SVG path data in a 100×100 box for the 'path' shape
     rotate?: boolean; // spin while moving
-    speedPxPerSec: number;
+    speedPxPerSec: number; // legacy pixel speed, used only when passesPerMin is unset
+    passesPerMin?: number; // tempo in edge-to-edge passes per minute, independent of stage width
+    visualMode?: VisualMode; // 'flash' lights fixed left/right targets in turn, 'lightbar' a row of lamps, instead of moving one
+    lightbar?: {
+      lamps: number; // evenly spaced across the sweep; lit in target.color
+      offColor: string; // unlit lamps
+      fade: boolean; // dimly light the lamps either side of the lit one
+    };
+    path?: MotionPath; // trajectory the target follows across the stage
+    easing?: MotionEasing; // velocity profile within each traversal
     edgePaddingPx: number; // min distance from left/right edges
+    units?: TargetUnits; // 'deg' resolves size/amplitude/speed through the screen calibration
+    sizeDeg?: number; // target diameter in degrees of visual angle
+    amplitudeDeg?: number; // edge-to-edge sweep in degrees of visual angle
+    speedDegPerSec?: number; // angular speed across the sweep
     edgePauseMs: number; // hold at edges before reversing
     startPosition: 'center' | 'left' | 'right';
   };
+  calibration?: {
+    pxPerCm: number; // CSS pixels per physical centimetre on this display
+    viewingDistanceCm: number; // eye-to-screen distance
+  };
   audio: {
     mode: AudioMode;
-    fileUrl?: string;
+    fileUrl?: string; // object URL for the selected sound; recreated from the library on load
     fileName?: string;
+    fileId?: string; // audio library entry (IndexedDB) the file was loaded from
+    filePlayback?: FilePlayback; // 'one-shot' plays the whole file per edge, 'fit-pass' trims it to the pass, 'loop' runs it continuously
     volume: number; // 0..1 (capped at 0.8 with warning)
     muted: boolean;
     waveform?: AudioWaveform; // oscillator waveform for generated clicks
     pitch?: PitchPreset; // low/medium/high frequency
     panDepth?: number; // 0..1 how far L/R the sound pans
     fadeInMs?: number; // optional fade-in duration
+    continuousSound?: ContinuousSound; // sustained bed used by 'continuous' mode
+    latencyOffsetMs?: number; // play edge sounds this much early to offset output latency (e.g. Bluetooth)
   };
 }